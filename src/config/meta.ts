@@ -0,0 +1,9 @@
+// Meta Graph API settings. Read lazily so values loaded by dotenv at startup are picked up.
+// META_GRAPH_API_URL can point at a local stub when running tests.
+export const getMetaConfig = () => ({
+  graphApiUrl: (process.env.META_GRAPH_API_URL || 'https://graph.facebook.com').replace(/\/+$/, ''),
+  graphApiVersion: process.env.META_GRAPH_API_VERSION || 'v18.0',
+  requestTimeoutMs: parseInt(process.env.META_API_TIMEOUT_MS || '10000'),
+  // Conversions API accepts at most 1000 events per request
+  maxBatchSize: 1000
+});
@@ -11,8 +11,21 @@ import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { notFoundHandler } from './middleware/notFoundHandler';
 import { connectDatabase } from './config/database';
+import { ensureEventPartitions } from './services/eventPartitions';
+import { startRealtimeListener, stopRealtimeListener } from './services/realtime';
 import routes from './routes';
-import { startCronJobs } from './jobs';
+import collectRoutes from './routes/collect';
+import {
+  startCronJobs,
+  startDeliveryWorker,
+  stopDeliveryWorker,
+  startBackfillWorker,
+  stopBackfillWorker,
+  startExportWorker,
+  stopExportWorker,
+  startImportWorker,
+  stopImportWorker
+} from './jobs';
 
 // Load environment variables
 dotenv.config();
@@ -37,6 +50,9 @@ app.use(helmet({
   crossOriginResourcePolicy: { policy: "cross-origin" }
 }));
 
+// Public event collection has its own CORS policy and rate limiter
+app.use('/api/v1/collect', collectRoutes);
+
 // CORS configuration
 app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:5173',
@@ -76,10 +92,28 @@ async function startServer() {
     await connectDatabase();
     logger.info('Database connected successfully');
 
+    // Events for the coming months need their partitions before they are inserted
+    await ensureEventPartitions();
+
     // Start cron jobs
     startCronJobs();
     logger.info('Cron jobs started');
 
+    // Start outbound event delivery worker
+    startDeliveryWorker();
+
+    // Start conversion backfill worker
+    startBackfillWorker();
+
+    // Start event export worker
+    startExportWorker();
+
+    // Start event import worker
+    startImportWorker();
+
+    // Listen for realtime notifications pushed to streaming clients
+    await startRealtimeListener();
+
     // Start HTTP server
     server.listen(PORT, () => {
       logger.info(`Server running on port ${PORT} in ${process.env.NODE_ENV || 'development'} mode`);
@@ -93,6 +127,11 @@ async function startServer() {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  stopDeliveryWorker();
+  stopBackfillWorker();
+  stopExportWorker();
+  stopImportWorker();
+  stopRealtimeListener();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
@@ -101,6 +140,11 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
+  stopDeliveryWorker();
+  stopBackfillWorker();
+  stopExportWorker();
+  stopImportWorker();
+  stopRealtimeListener();
   server.close(() => {
     logger.info('Process terminated');
     process.exit(0);
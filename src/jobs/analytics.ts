@@ -1,5 +1,6 @@
 import { query } from '../config/database';
 import { logger } from '../utils/logger';
+import { eventCountsSql } from '../services/eventRollups';
 
 export const generateAnalytics = async () => {
   try {
@@ -12,36 +13,32 @@ export const generateAnalytics = async () => {
         revenue = COALESCE(revenue_stats.total, 0),
         updated_at = NOW()
       FROM (
+        -- Daily rollups, plus raw events after the rollup watermark
         SELECT 
           pixel_id,
-          COUNT(*) as count
-        FROM events 
+          SUM(events) as count
+        FROM ${eventCountsSql('day', "'-infinity'", "'infinity'")} counts
         GROUP BY pixel_id
       ) event_stats
       LEFT JOIN (
         SELECT 
           pixel_id,
           COUNT(*) as count
-        FROM events 
-        WHERE event_name = 'Purchase'
+        FROM conversion_matches 
         GROUP BY pixel_id
       ) conversion_stats ON event_stats.pixel_id = conversion_stats.pixel_id
       LEFT JOIN (
+        -- Revenue in each workspace's reporting currency
         SELECT 
-          pixel_id,
-          SUM((parameters->>'value')::numeric) as total
-        FROM events 
-        WHERE event_name = 'Purchase' AND parameters->>'value' IS NOT NULL
-        GROUP BY pixel_id
+          cm.pixel_id,
+          SUM(convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, p.workspace_id)) as total
+        FROM conversion_matches cm
+        JOIN pixels p ON cm.pixel_id = p.id
+        GROUP BY cm.pixel_id
       ) revenue_stats ON event_stats.pixel_id = revenue_stats.pixel_id
       WHERE pixels.id = event_stats.pixel_id
     `);
 
-    // Clean up old temporary data
-    await query(
-      'DELETE FROM events WHERE event_name = \'TestEvent\' AND created_at < NOW() - INTERVAL \'1 hour\''
-    );
-
     logger.info('Analytics generation completed');
   } catch (error) {
     logger.error('Error in analytics job:', error);
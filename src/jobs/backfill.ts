@@ -0,0 +1,42 @@
+import { logger } from '../utils/logger';
+import { processBackfills } from '../services/conversionBackfill';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const runBackfillWorker = async () => {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    // Keep going batch by batch while there is work
+    let processed = 0;
+    do {
+      processed = await processBackfills();
+    } while (processed > 0 && timer);
+  } catch (error) {
+    logger.error('Error in backfill worker:', error);
+  } finally {
+    running = false;
+  }
+};
+
+export const startBackfillWorker = () => {
+  if (timer) {
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.BACKFILL_POLL_INTERVAL_MS || '10000');
+  timer = setInterval(runBackfillWorker, intervalMs);
+  logger.info(`Backfill worker started (polling every ${intervalMs}ms)`);
+};
+
+export const stopBackfillWorker = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    logger.info('Backfill worker stopped');
+  }
+};
@@ -1,21 +1,19 @@
 import { query } from '../config/database';
 import { logger } from '../utils/logger';
+import { ensureEventPartitions } from '../services/eventPartitions';
+import { applyRetentionPolicies } from '../services/retention';
+import { expireEventExports } from '../services/eventExports';
 
 export const cleanupOldEvents = async () => {
   try {
-    // Get retention settings (default 90 days)
-    const retentionDays = parseInt(process.env.EVENT_RETENTION_DAYS || '90');
+    // Make sure upcoming months have a partition before events arrive for them
+    await ensureEventPartitions();
 
-    // Delete old events
-    const deleteEventsResult = await query(
-      'DELETE FROM events WHERE created_at < NOW() - INTERVAL $1 DAY',
-      [retentionDays]
-    );
+    // Delete events, rollups and resolved diagnostics past the retention window of their pixel
+    const deleted = await applyRetentionPolicies();
 
-    // Delete old diagnostics (keep for 30 days)
-    const deleteDiagnosticsResult = await query(
-      'DELETE FROM diagnostics WHERE created_at < NOW() - INTERVAL \'30 days\' AND status = \'resolved\''
-    );
+    // Remove export files past their expiry
+    const expiredExports = await expireEventExports();
 
     // Update pixel statuses based on recent activity
     await query(
@@ -25,10 +23,7 @@ export const cleanupOldEvents = async () => {
        AND (last_activity IS NULL OR last_activity < NOW() - INTERVAL '7 days')`
     );
 
-    const eventsDeleted = deleteEventsResult.rowCount || 0;
-    const diagnosticsDeleted = deleteDiagnosticsResult.rowCount || 0;
-
-    logger.info(`Cleanup job completed: ${eventsDeleted} events deleted, ${diagnosticsDeleted} diagnostics deleted`);
+    logger.info(`Cleanup job completed: ${deleted.events} events deleted (${deleted.partitionsDropped} partitions dropped), ${deleted.rollupRows} rollup rows deleted, ${deleted.diagnostics} diagnostics deleted, ${expiredExports} exports expired`);
   } catch (error) {
     logger.error('Error in cleanup job:', error);
     throw error;
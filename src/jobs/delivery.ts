@@ -0,0 +1,46 @@
+import { logger } from '../utils/logger';
+import { processDeliveryQueue, getDeliveryConfig } from '../services/deliveryQueue';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const runDeliveryWorker = async () => {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    // Keep draining while full batches come back
+    const { batchSize } = getDeliveryConfig();
+    let processed = 0;
+    do {
+      processed = await processDeliveryQueue();
+      if (processed > 0) {
+        logger.info(`Delivery worker processed ${processed} events`);
+      }
+    } while (processed >= batchSize && timer);
+  } catch (error) {
+    logger.error('Error in delivery worker:', error);
+  } finally {
+    running = false;
+  }
+};
+
+export const startDeliveryWorker = () => {
+  if (timer) {
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.DELIVERY_POLL_INTERVAL_MS || '5000');
+  timer = setInterval(runDeliveryWorker, intervalMs);
+  logger.info(`Delivery worker started (polling every ${intervalMs}ms)`);
+};
+
+export const stopDeliveryWorker = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    logger.info('Delivery worker stopped');
+  }
+};
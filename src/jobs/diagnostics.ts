@@ -23,7 +23,7 @@ export const runDiagnostics = async () => {
 
       // Check 1: Recent events
       const recentEventsResult = await query(
-        'SELECT COUNT(*) as count FROM events WHERE pixel_id = $1 AND created_at >= NOW() - INTERVAL \'1 hour\'',
+        'SELECT COUNT(*) as count FROM events WHERE pixel_id = $1 AND is_test = false AND created_at >= NOW() - INTERVAL \'1 hour\'',
         [pixel.id]
       );
 
@@ -53,7 +53,7 @@ export const runDiagnostics = async () => {
           COUNT(*) as total_events,
           COUNT(*) FILTER (WHERE status = 'error') as error_events
          FROM events 
-         WHERE pixel_id = $1 AND created_at >= NOW() - INTERVAL '1 hour'`,
+         WHERE pixel_id = $1 AND is_test = false AND created_at >= NOW() - INTERVAL '1 hour'`,
         [pixel.id]
       );
 
@@ -84,7 +84,7 @@ export const runDiagnostics = async () => {
           COUNT(*) as total_purchases,
           COUNT(*) FILTER (WHERE parameters->>'value' IS NULL OR parameters->>'currency' IS NULL) as missing_params
          FROM events 
-         WHERE pixel_id = $1 AND event_name = 'Purchase' AND created_at >= NOW() - INTERVAL '24 hours'`,
+         WHERE pixel_id = $1 AND event_name = 'Purchase' AND is_test = false AND created_at >= NOW() - INTERVAL '24 hours'`,
         [pixel.id]
       );
 
@@ -107,6 +107,39 @@ export const runDiagnostics = async () => {
         });
       }
 
+      // Check 4: Event match quality drop (last 24 hours vs previous 7 days)
+      const matchQualityResult = await query(
+        `SELECT 
+          AVG(match_score) FILTER (WHERE created_at >= NOW() - INTERVAL '24 hours') as current_score,
+          AVG(match_score) FILTER (WHERE created_at < NOW() - INTERVAL '24 hours') as baseline_score,
+          COUNT(match_score) FILTER (WHERE created_at >= NOW() - INTERVAL '24 hours') as current_events
+         FROM events 
+         WHERE pixel_id = $1 AND match_score IS NOT NULL AND is_test = false AND created_at >= NOW() - INTERVAL '8 days'`,
+        [pixel.id]
+      );
+
+      const matchStats = matchQualityResult.rows[0];
+      const currentScore = matchStats.current_score !== null ? parseFloat(matchStats.current_score) : null;
+      const baselineScore = matchStats.baseline_score !== null ? parseFloat(matchStats.baseline_score) : null;
+      const minDrop = parseFloat(process.env.MATCH_QUALITY_DROP_THRESHOLD || '1');
+
+      if (currentScore !== null && baselineScore !== null && parseInt(matchStats.current_events) >= 10) {
+        const drop = baselineScore - currentScore;
+
+        if (drop >= minDrop) {
+          diagnostics.push({
+            id: uuidv4(),
+            pixelId: pixel.id,
+            severity: drop >= minDrop * 3 ? 'error' : 'warning',
+            category: 'implementation',
+            title: 'Queda na qualidade de correspondência',
+            description: `A qualidade de correspondência dos eventos caiu de ${baselineScore.toFixed(1)} para ${currentScore.toFixed(1)} nas últimas 24 horas. Verifique se os dados do cliente (email, telefone, external_id, fbp/fbc) continuam sendo enviados.`,
+            url: null,
+            status: 'active'
+          });
+        }
+      }
+
       // Insert diagnostics
       for (const diagnostic of diagnostics) {
         await query(
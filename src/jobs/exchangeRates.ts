@@ -0,0 +1,17 @@
+import { logger } from '../utils/logger';
+import { refreshExchangeRates, getExchangeRateConfig } from '../services/exchangeRates';
+
+export const updateExchangeRates = async () => {
+  try {
+    if (!getExchangeRateConfig().provider) {
+      return;
+    }
+
+    const saved = await refreshExchangeRates();
+
+    logger.info(`Exchange rates updated: ${saved} rates saved`);
+  } catch (error) {
+    logger.error('Error in exchange rates job:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,42 @@
+import { logger } from '../utils/logger';
+import { processExports } from '../services/eventExports';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const runExportWorker = async () => {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    // Keep going while exports are queued
+    let claimed = false;
+    do {
+      claimed = await processExports();
+    } while (claimed && timer);
+  } catch (error) {
+    logger.error('Error in export worker:', error);
+  } finally {
+    running = false;
+  }
+};
+
+export const startExportWorker = () => {
+  if (timer) {
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.EXPORT_POLL_INTERVAL_MS || '10000');
+  timer = setInterval(runExportWorker, intervalMs);
+  logger.info(`Export worker started (polling every ${intervalMs}ms)`);
+};
+
+export const stopExportWorker = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    logger.info('Export worker stopped');
+  }
+};
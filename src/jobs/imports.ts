@@ -0,0 +1,42 @@
+import { logger } from '../utils/logger';
+import { processImports } from '../services/eventImports';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+const runImportWorker = async () => {
+  if (running) {
+    return;
+  }
+
+  running = true;
+  try {
+    // Keep going while imports are queued
+    let claimed = false;
+    do {
+      claimed = await processImports();
+    } while (claimed && timer);
+  } catch (error) {
+    logger.error('Error in import worker:', error);
+  } finally {
+    running = false;
+  }
+};
+
+export const startImportWorker = () => {
+  if (timer) {
+    return;
+  }
+
+  const intervalMs = parseInt(process.env.IMPORT_POLL_INTERVAL_MS || '10000');
+  timer = setInterval(runImportWorker, intervalMs);
+  logger.info(`Import worker started (polling every ${intervalMs}ms)`);
+};
+
+export const stopImportWorker = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+    logger.info('Import worker stopped');
+  }
+};
@@ -3,6 +3,13 @@ import { logger } from '../utils/logger';
 import { runDiagnostics } from './diagnostics';
 import { cleanupOldEvents } from './cleanup';
 import { generateAnalytics } from './analytics';
+import { updateExchangeRates } from './exchangeRates';
+import { rollupEvents } from './rollups';
+
+export { startDeliveryWorker, stopDeliveryWorker } from './delivery';
+export { startBackfillWorker, stopBackfillWorker } from './backfill';
+export { startExportWorker, stopExportWorker } from './exports';
+export { startImportWorker, stopImportWorker } from './imports';
 
 export const startCronJobs = () => {
   // Run diagnostics every 15 minutes
@@ -38,5 +45,27 @@ export const startCronJobs = () => {
     }
   });
 
+  // Roll up completed hours of events every 10 minutes
+  cron.schedule('*/10 * * * *', async () => {
+    try {
+      logger.info('Rolling up events...');
+      await rollupEvents();
+      logger.info('Event rollups completed');
+    } catch (error) {
+      logger.error('Error rolling up events:', error);
+    }
+  });
+
+  // Update exchange rates daily at 6 AM
+  cron.schedule('0 6 * * *', async () => {
+    try {
+      logger.info('Updating exchange rates...');
+      await updateExchangeRates();
+      logger.info('Exchange rates update completed');
+    } catch (error) {
+      logger.error('Error updating exchange rates:', error);
+    }
+  });
+
   logger.info('Cron jobs started successfully');
 };
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { logger } from '../utils/logger';
+import { updateEventRollups } from '../services/eventRollups';
+
+export const rollupEvents = async () => {
+  try {
+    await updateEventRollups();
+  } catch (error) {
+    logger.error('Error in event rollups job:', error);
+    throw error;
+  }
+};
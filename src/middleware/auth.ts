@@ -66,6 +66,19 @@ export const authenticateToken = async (req: AuthRequest, res: Response, next: N
   }
 };
 
+// EventSource cannot send headers, so streaming endpoints also accept the token as ?token=.
+// The token is masked in the logged URL.
+export const acceptQueryToken = (req: Request, res: Response, next: NextFunction) => {
+  const token = req.query.token;
+
+  if (!req.headers['authorization'] && typeof token === 'string') {
+    req.headers['authorization'] = `Bearer ${token}`;
+  }
+  req.originalUrl = req.originalUrl.replace(/([?&]token=)[^&]*/, '$1[redacted]');
+
+  next();
+};
+
 export const requireRole = (roles: string[]) => {
   return (req: AuthRequest, res: Response, next: NextFunction) => {
     if (!req.user) {
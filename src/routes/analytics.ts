@@ -1,39 +1,123 @@
 import { Router } from 'express';
 import { query } from '../config/database';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
-import { validateQuery } from '../middleware/validation';
+import { authenticateToken, AuthRequest, acceptQueryToken } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validation';
+import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { getAttributionReport } from '../services/attribution';
+import { getFunnelReport, funnelStepsSchema, MAX_CONVERSION_WINDOW_HOURS } from '../services/funnels';
+import { getCohortReport, COHORT_GRANULARITIES, RETENTION_METRICS } from '../services/cohorts';
+import {
+  resolveAnalyticsPeriod,
+  getTimelineBucketCount,
+  bucketSql,
+  bucketSeriesSql,
+  startOfTodaySql,
+  compareTotals,
+  describePeriod,
+  analyticsPeriodKeys,
+  eventCountResolution,
+  getWorkspaceTimezone,
+  timezoneSchema,
+  MAX_TIMELINE_BUCKETS
+} from '../services/analyticsPeriod';
+import { eventCountsSql } from '../services/eventRollups';
+import { streamRealtime, REALTIME_MESSAGE_TYPES } from '../services/realtime';
 import Joi from 'joi';
 
 const router = Router();
 
 // Validation schemas
-const dashboardQuerySchema = Joi.object({
-  timeframe: Joi.string().valid('1h', '24h', '7d', '30d').default('7d')
+const dashboardQuerySchema = Joi.object(analyticsPeriodKeys);
+
+const realtimeStreamQuerySchema = Joi.object({
+  pixelId: Joi.string().uuid().optional(),
+  eventName: Joi.string().max(100).optional(),
+  token: Joi.string().optional()
+});
+
+const attributionQuerySchema = Joi.object({
+  startDate: Joi.date().iso().optional(),
+  endDate: Joi.date().iso().optional(),
+  pixelId: Joi.string().uuid().optional(),
+  conversionId: Joi.string().uuid().optional(),
+  lookbackDays: Joi.number().integer().min(1).max(90).default(30),
+  halfLifeDays: Joi.number().min(0.1).max(90).default(7),
+  groupBy: Joi.string().valid('source', 'campaign').default('source')
+});
+
+const cohortQuerySchema = Joi.object({
+  granularity: Joi.string().valid(...COHORT_GRANULARITIES).default('week'),
+  metric: Joi.string().valid(...RETENTION_METRICS).default('activity'),
+  periods: Joi.number().integer().min(1).max(52).default(8),
+  startDate: Joi.date().iso().optional(),
+  endDate: Joi.date().iso().optional(),
+  pixelId: Joi.string().uuid().optional(),
+  source: Joi.string().max(255).optional(),
+  cohortEvent: Joi.string().max(100).optional(),
+  timezone: timezoneSchema.optional()
+});
+
+// Either a saved funnel or an inline definition
+const funnelReportSchema = Joi.object({
+  funnelId: Joi.string().uuid().optional(),
+  pixelId: Joi.string().uuid().when('funnelId', { is: Joi.exist(), then: Joi.forbidden(), otherwise: Joi.required() }),
+  steps: funnelStepsSchema.when('funnelId', { is: Joi.exist(), then: Joi.forbidden(), otherwise: Joi.required() }),
+  conversionWindowHours: Joi.number().integer().min(1).max(MAX_CONVERSION_WINDOW_HOURS).optional(),
+  startDate: Joi.date().iso().optional(),
+  endDate: Joi.date().iso().optional()
 });
 
+// Pixels of the workspace in $1, to scope event rollups
+const WORKSPACE_PIXELS = 'SELECT id FROM pixels WHERE workspace_id = $1';
+
+// Event and conversion totals of a workspace in [from, to), revenue in the reporting currency
+const getDashboardTotals = async (workspaceId: string, from: Date, to: Date) => {
+  const eventsStatsResult = await query(
+    `SELECT 
+      COALESCE(SUM(c.events), 0) as total_events,
+      COALESCE(SUM(c.events) FILTER (WHERE c.status = 'success'), 0) as successful_events,
+      COALESCE(SUM(c.events) FILTER (WHERE c.status = 'error'), 0) as failed_events
+    FROM ${eventCountsSql('hour', '$2', '$3', WORKSPACE_PIXELS)} c`,
+    [workspaceId, from, to]
+  );
+
+  const conversionsStatsResult = await query(
+    `SELECT 
+      COUNT(*) as total_conversions,
+      COALESCE(SUM(convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, p.workspace_id)), 0) as total_revenue
+    FROM conversion_matches cm
+    JOIN pixels p ON cm.pixel_id = p.id
+    WHERE p.workspace_id = $1 AND cm.event_time >= $2 AND cm.event_time < $3`,
+    [workspaceId, from, to]
+  );
+
+  const eventsStats = eventsStatsResult.rows[0];
+  const conversionsStats = conversionsStatsResult.rows[0];
+  const totalEvents = parseInt(eventsStats.total_events);
+  const totalConversions = parseInt(conversionsStats.total_conversions);
+
+  return {
+    totalEvents,
+    successfulEvents: parseInt(eventsStats.successful_events),
+    failedEvents: parseInt(eventsStats.failed_events),
+    totalConversions,
+    totalRevenue: parseFloat(conversionsStats.total_revenue),
+    conversionRate: totalEvents > 0 ? parseFloat(((totalConversions / totalEvents) * 100).toFixed(2)) : 0
+  };
+};
+
 // Get dashboard analytics
 router.get('/dashboard', authenticateToken, validateQuery(dashboardQuerySchema), async (req: AuthRequest, res, next) => {
   try {
-    const { timeframe = '7d' } = req.query;
-
-    // Calculate date range based on timeframe
-    let dateFilter = '';
-    switch (timeframe) {
-      case '1h':
-        dateFilter = "AND created_at >= NOW() - INTERVAL '1 hour'";
-        break;
-      case '24h':
-        dateFilter = "AND created_at >= NOW() - INTERVAL '24 hours'";
-        break;
-      case '7d':
-        dateFilter = "AND created_at >= NOW() - INTERVAL '7 days'";
-        break;
-      case '30d':
-        dateFilter = "AND created_at >= NOW() - INTERVAL '30 days'";
-        break;
-      default:
-        dateFilter = "AND created_at >= NOW() - INTERVAL '7 days'";
+    const period = await resolveAnalyticsPeriod(req.user!.workspaceId, req.query);
+
+    if (period.from >= period.to) {
+      throw createError('from must be before to', 400);
+    }
+
+    if (getTimelineBucketCount(period) > MAX_TIMELINE_BUCKETS) {
+      throw createError(`Timeline cannot have more than ${MAX_TIMELINE_BUCKETS} buckets, use a larger granularity`, 400);
     }
 
     // Get overall stats
@@ -42,66 +126,69 @@ router.get('/dashboard', authenticateToken, validateQuery(dashboardQuerySchema),
         COUNT(DISTINCT p.id) as total_pixels,
         COUNT(DISTINCT CASE WHEN p.status = 'active' THEN p.id END) as active_pixels,
         COUNT(DISTINCT CASE WHEN p.status = 'error' THEN p.id END) as error_pixels,
-        COUNT(DISTINCT CASE WHEN p.status = 'inactive' THEN p.id END) as inactive_pixels
+        COUNT(DISTINCT CASE WHEN p.status = 'inactive' THEN p.id END) as inactive_pixels,
+        (SELECT reporting_currency FROM workspaces WHERE id = $1) as reporting_currency
       FROM pixels p
       WHERE p.workspace_id = $1`,
       [req.user!.workspaceId]
     );
 
-    // Get events stats
-    const eventsStatsResult = await query(
-      `SELECT 
-        COUNT(*) as total_events,
-        COUNT(*) FILTER (WHERE DATE(e.created_at) = CURRENT_DATE) as events_today,
-        COUNT(*) FILTER (WHERE e.status = 'success') as successful_events,
-        COUNT(*) FILTER (WHERE e.status = 'error') as failed_events
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 ${dateFilter}`,
-      [req.user!.workspaceId]
-    );
+    const totals = await getDashboardTotals(req.user!.workspaceId, period.from, period.to);
 
-    // Get conversions stats
-    const conversionsStatsResult = await query(
-      `SELECT 
-        COUNT(*) FILTER (WHERE e.event_name = 'Purchase') as total_conversions,
-        COUNT(*) FILTER (WHERE e.event_name = 'Purchase' AND DATE(e.created_at) = CURRENT_DATE) as conversions_today,
-        COALESCE(SUM(CASE WHEN e.event_name = 'Purchase' THEN (e.parameters->>'value')::numeric END), 0) as total_revenue,
-        COALESCE(SUM(CASE WHEN e.event_name = 'Purchase' AND DATE(e.created_at) = CURRENT_DATE THEN (e.parameters->>'value')::numeric END), 0) as revenue_today
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 ${dateFilter} AND e.parameters->>'value' IS NOT NULL`,
-      [req.user!.workspaceId]
+    // Counts grouped into days and buckets of the timezone
+    const localResolution = eventCountResolution(period.timezone);
+
+    // Get today's activity, in the workspace timezone
+    const todayResult = await query(
+      `SELECT
+        (SELECT COALESCE(SUM(t.events), 0)
+         FROM ${eventCountsSql(localResolution, startOfTodaySql('$2'), "'infinity'", WORKSPACE_PIXELS)} t) as events_today,
+        COUNT(*) as conversions_today,
+        COALESCE(SUM(convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, p.workspace_id)), 0) as revenue_today
+      FROM conversion_matches cm
+      JOIN pixels p ON cm.pixel_id = p.id
+      WHERE p.workspace_id = $1 AND cm.event_time >= ${startOfTodaySql('$2')}`,
+      [req.user!.workspaceId, period.timezone]
     );
 
     // Get events timeline
     const timelineResult = await query(
       `SELECT 
-        DATE(e.created_at) as date,
-        COUNT(*) as events,
-        COUNT(*) FILTER (WHERE e.event_name = 'Purchase') as conversions,
-        COALESCE(SUM(CASE WHEN e.event_name = 'Purchase' THEN (e.parameters->>'value')::numeric END), 0) as revenue
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 ${dateFilter}
-      GROUP BY DATE(e.created_at)
-      ORDER BY date`,
-      [req.user!.workspaceId]
+        b.bucket as date,
+        COALESCE(d.events, 0) as events,
+        COALESCE(c.conversions, 0) as conversions,
+        COALESCE(c.revenue, 0) as revenue
+      FROM ${bucketSeriesSql(period.granularity, '$2', '$3', '$4')} b
+      LEFT JOIN (
+        SELECT ${bucketSql('e.bucket', period.granularity, '$4')} as bucket, SUM(e.events) as events
+        FROM ${eventCountsSql(localResolution, '$2', '$3', WORKSPACE_PIXELS)} e
+        GROUP BY 1
+      ) d ON d.bucket = b.bucket
+      LEFT JOIN (
+        SELECT
+          ${bucketSql('cm.event_time', period.granularity, '$4')} as bucket,
+          COUNT(*) as conversions,
+          SUM(convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, p.workspace_id)) as revenue
+        FROM conversion_matches cm
+        JOIN pixels p ON cm.pixel_id = p.id
+        WHERE p.workspace_id = $1 AND cm.event_time >= $2 AND cm.event_time < $3
+        GROUP BY 1
+      ) c ON c.bucket = b.bucket
+      ORDER BY b.bucket`,
+      [req.user!.workspaceId, period.from, period.to, period.timezone]
     );
 
     // Get top events
     const topEventsResult = await query(
       `SELECT 
         e.event_name,
-        COUNT(*) as count,
-        ROUND((COUNT(*) * 100.0 / SUM(COUNT(*)) OVER()), 2) as percentage
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 ${dateFilter}
+        SUM(e.events) as count,
+        ROUND((SUM(e.events) * 100.0 / SUM(SUM(e.events)) OVER()), 2) as percentage
+      FROM ${eventCountsSql('hour', '$2', '$3', WORKSPACE_PIXELS)} e
       GROUP BY e.event_name
       ORDER BY count DESC
       LIMIT 5`,
-      [req.user!.workspaceId]
+      [req.user!.workspaceId, period.from, period.to]
     );
 
     // Get recent pixels activity
@@ -112,43 +199,49 @@ router.get('/dashboard', authenticateToken, validateQuery(dashboardQuerySchema),
         p.pixel_id,
         p.status,
         p.last_activity,
-        COUNT(e.id) FILTER (WHERE DATE(e.created_at) = CURRENT_DATE) as events_today
+        COALESCE(SUM(e.events), 0) as events_today
       FROM pixels p
-      LEFT JOIN events e ON p.id = e.pixel_id
+      LEFT JOIN ${eventCountsSql(localResolution, startOfTodaySql('$2'), "'infinity'", WORKSPACE_PIXELS)} e ON p.id = e.pixel_id
       WHERE p.workspace_id = $1
       GROUP BY p.id, p.name, p.pixel_id, p.status, p.last_activity
       ORDER BY p.last_activity DESC NULLS LAST
       LIMIT 10`,
-      [req.user!.workspaceId]
+      [req.user!.workspaceId, period.timezone]
     );
 
-    const stats = statsResult.rows[0];
-    const eventsStats = eventsStatsResult.rows[0];
-    const conversionsStats = conversionsStatsResult.rows[0];
+    let comparison = null;
+    if (period.comparison) {
+      const previousTotals = await getDashboardTotals(req.user!.workspaceId, period.comparison.from, period.comparison.to);
+      comparison = {
+        ...period.comparison,
+        deltas: compareTotals(totals, previousTotals)
+      };
+    }
 
-    // Calculate conversion rate
-    const conversionRate = eventsStats.total_events > 0 
-      ? ((conversionsStats.total_conversions / eventsStats.total_events) * 100).toFixed(2)
-      : '0.00';
+    const stats = statsResult.rows[0];
+    const today = todayResult.rows[0];
 
     res.json({
       success: true,
       data: {
+        period: describePeriod(period),
         summary: {
           totalPixels: parseInt(stats.total_pixels),
           activePixels: parseInt(stats.active_pixels),
           errorPixels: parseInt(stats.error_pixels),
           inactivePixels: parseInt(stats.inactive_pixels),
-          totalEvents: parseInt(eventsStats.total_events),
-          eventsToday: parseInt(eventsStats.events_today),
-          successfulEvents: parseInt(eventsStats.successful_events),
-          failedEvents: parseInt(eventsStats.failed_events),
-          totalConversions: parseInt(conversionsStats.total_conversions),
-          conversionsToday: parseInt(conversionsStats.conversions_today),
-          totalRevenue: parseFloat(conversionsStats.total_revenue),
-          revenueToday: parseFloat(conversionsStats.revenue_today),
-          conversionRate: parseFloat(conversionRate)
+          totalEvents: totals.totalEvents,
+          eventsToday: parseInt(today.events_today),
+          successfulEvents: totals.successfulEvents,
+          failedEvents: totals.failedEvents,
+          totalConversions: totals.totalConversions,
+          conversionsToday: parseInt(today.conversions_today),
+          totalRevenue: totals.totalRevenue,
+          revenueToday: parseFloat(today.revenue_today),
+          reportingCurrency: stats.reporting_currency,
+          conversionRate: totals.conversionRate
         },
+        comparison,
         timeline: timelineResult.rows,
         topEvents: topEventsResult.rows,
         recentPixels: recentPixelsResult.rows
@@ -168,13 +261,14 @@ router.get('/overview', authenticateToken, async (req: AuthRequest, res, next) =
         w.id,
         w.name,
         w.created_at,
+        w.reporting_currency,
         COUNT(DISTINCT wm.user_id) as member_count,
         COUNT(DISTINCT p.id) as pixel_count
       FROM workspaces w
       LEFT JOIN workspace_members wm ON w.id = wm.workspace_id
       LEFT JOIN pixels p ON w.id = p.workspace_id
       WHERE w.id = $1
-      GROUP BY w.id, w.name, w.created_at`,
+      GROUP BY w.id, w.name, w.created_at, w.reporting_currency`,
       [req.user!.workspaceId]
     );
 
@@ -187,7 +281,7 @@ router.get('/overview', authenticateToken, async (req: AuthRequest, res, next) =
         e.created_at as timestamp
       FROM events e
       JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1
+      WHERE p.workspace_id = $1 AND e.is_test = false
       UNION ALL
       SELECT 
         'pixel' as type,
@@ -201,19 +295,33 @@ router.get('/overview', authenticateToken, async (req: AuthRequest, res, next) =
       [req.user!.workspaceId]
     );
 
-    // Get monthly stats
+    // Get monthly stats, by month of the workspace timezone. Daily rollups are UTC days, so
+    // other timezones read hourly rollups or raw events.
+    const timezone = await getWorkspaceTimezone(req.user!.workspaceId);
+    const monthlyResolution = timezone === 'UTC' ? 'day' : eventCountResolution(timezone);
     const monthlyStatsResult = await query(
       `SELECT 
-        DATE_TRUNC('month', e.created_at) as month,
-        COUNT(*) as events,
-        COUNT(*) FILTER (WHERE e.event_name = 'Purchase') as conversions,
-        COALESCE(SUM(CASE WHEN e.event_name = 'Purchase' THEN (e.parameters->>'value')::numeric END), 0) as revenue
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 AND e.created_at >= NOW() - INTERVAL '12 months'
-      GROUP BY DATE_TRUNC('month', e.created_at)
-      ORDER BY month`,
-      [req.user!.workspaceId]
+        m.month,
+        m.events,
+        COALESCE(c.conversions, 0) as conversions,
+        COALESCE(c.revenue, 0) as revenue
+      FROM (
+        SELECT ${bucketSql('e.bucket', 'month', '$2')} as month, SUM(e.events) as events
+        FROM ${eventCountsSql(monthlyResolution, "NOW() - INTERVAL '12 months'", 'NOW()', WORKSPACE_PIXELS)} e
+        GROUP BY 1
+      ) m
+      LEFT JOIN (
+        SELECT
+          ${bucketSql('cm.event_time', 'month', '$2')} as month,
+          COUNT(*) as conversions,
+          SUM(convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, p.workspace_id)) as revenue
+        FROM conversion_matches cm
+        JOIN pixels p ON cm.pixel_id = p.id
+        WHERE p.workspace_id = $1 AND cm.event_time >= NOW() - INTERVAL '12 months'
+        GROUP BY 1
+      ) c ON m.month = c.month
+      ORDER BY m.month`,
+      [req.user!.workspaceId, timezone]
     );
 
     res.json({
@@ -241,7 +349,7 @@ router.get('/realtime', authenticateToken, async (req: AuthRequest, res, next) =
         e.source
       FROM events e
       JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 AND e.created_at >= NOW() - INTERVAL '1 hour'
+      WHERE p.workspace_id = $1 AND e.created_at >= NOW() - INTERVAL '1 hour' AND e.is_test = false
       ORDER BY e.created_at DESC
       LIMIT 50`,
       [req.user!.workspaceId]
@@ -252,7 +360,7 @@ router.get('/realtime', authenticateToken, async (req: AuthRequest, res, next) =
       `SELECT COUNT(DISTINCT p.id) as active_pixels
       FROM pixels p
       JOIN events e ON p.id = e.pixel_id
-      WHERE p.workspace_id = $1 AND e.created_at >= NOW() - INTERVAL '5 minutes'`,
+      WHERE p.workspace_id = $1 AND e.created_at >= NOW() - INTERVAL '5 minutes' AND e.is_test = false`,
       [req.user!.workspaceId]
     );
 
@@ -263,7 +371,7 @@ router.get('/realtime', authenticateToken, async (req: AuthRequest, res, next) =
         COUNT(*) as events
       FROM events e
       JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 AND e.created_at >= NOW() - INTERVAL '1 hour'
+      WHERE p.workspace_id = $1 AND e.created_at >= NOW() - INTERVAL '1 hour' AND e.is_test = false
       GROUP BY DATE_TRUNC('minute', e.created_at)
       ORDER BY minute`,
       [req.user!.workspaceId]
@@ -282,4 +390,160 @@ router.get('/realtime', authenticateToken, async (req: AuthRequest, res, next) =
   }
 });
 
-export default router;
\ No newline at end of file
+// Stream new events, diagnostics and pixel status changes as Server-Sent Events
+router.get('/realtime/stream', acceptQueryToken, authenticateToken, validateQuery(realtimeStreamQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { pixelId, eventName } = req.query as any;
+
+    if (pixelId) {
+      const pixelResult = await query(
+        'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+        [pixelId, req.user!.workspaceId]
+      );
+
+      if (pixelResult.rows.length === 0) {
+        throw createError('Pixel not found', 404);
+      }
+    }
+
+    streamRealtime(req, res, req.user!.workspaceId, { types: REALTIME_MESSAGE_TYPES, pixelId, eventName });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get multi-touch attribution of conversions to sources and campaigns
+router.get('/attribution', authenticateToken, validateQuery(attributionQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { startDate, endDate, pixelId, conversionId, lookbackDays = 30, halfLifeDays = 7, groupBy = 'source' } = req.query as any;
+
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate ? new Date(startDate) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const report = await getAttributionReport(req.user!.workspaceId, {
+      startDate: start,
+      endDate: end,
+      pixelId,
+      conversionId,
+      lookbackDays: parseInt(lookbackDays),
+      halfLifeDays: parseFloat(halfLifeDays),
+      groupBy,
+      maxConversions: parseInt(process.env.ATTRIBUTION_MAX_CONVERSIONS || '50000')
+    });
+
+    const currencyResult = await query('SELECT reporting_currency FROM workspaces WHERE id = $1', [req.user!.workspaceId]);
+
+    res.json({
+      success: true,
+      data: {
+        period: { startDate: start, endDate: end },
+        lookbackDays: parseInt(lookbackDays),
+        reportingCurrency: currencyResult.rows[0]?.reporting_currency,
+        ...report
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get funnel conversion between ordered event steps
+router.post('/funnels', authenticateToken, validate(funnelReportSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { funnelId, startDate, endDate } = req.body;
+    let { pixelId, steps, conversionWindowHours } = req.body;
+    let funnel = null;
+
+    if (funnelId) {
+      const funnelResult = await query(
+        'SELECT * FROM funnels WHERE id = $1 AND workspace_id = $2',
+        [funnelId, req.user!.workspaceId]
+      );
+
+      if (funnelResult.rows.length === 0) {
+        throw createError('Funnel not found', 404);
+      }
+
+      funnel = funnelResult.rows[0];
+      pixelId = funnel.pixel_id;
+      steps = funnel.steps;
+      conversionWindowHours = conversionWindowHours || funnel.conversion_window_hours;
+    } else {
+      // Check if pixel exists and belongs to workspace
+      const pixelResult = await query(
+        'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+        [pixelId, req.user!.workspaceId]
+      );
+
+      if (pixelResult.rows.length === 0) {
+        throw createError('Pixel not found', 404);
+      }
+    }
+
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate ? new Date(startDate) : new Date(end.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (start >= end) {
+      throw createError('startDate must be before endDate', 400);
+    }
+
+    const windowHours = conversionWindowHours || 168;
+    const report = await getFunnelReport(
+      { pixelId, steps, conversionWindowHours: windowHours },
+      { startDate: start, endDate: end, maxEvents: parseInt(process.env.FUNNEL_MAX_EVENTS || '200000') }
+    );
+
+    res.json({
+      success: true,
+      data: {
+        funnel: funnel && { id: funnel.id, name: funnel.name },
+        pixelId,
+        period: { startDate: start, endDate: end },
+        conversionWindowHours: windowHours,
+        ...report
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get cohort retention of visitors grouped by the period of their first event
+router.get('/cohorts', authenticateToken, validateQuery(cohortQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { granularity = 'week', metric = 'activity', periods = 8, startDate, endDate, pixelId, source, cohortEvent, timezone } = req.query as any;
+
+    // By default, cover as many cohorts as reported periods
+    const periodDays = granularity === 'day' ? 1 : 7;
+    const end = endDate ? new Date(endDate) : new Date();
+    const start = startDate ? new Date(startDate) : new Date(end.getTime() - parseInt(periods) * periodDays * 24 * 60 * 60 * 1000);
+
+    if (start >= end) {
+      throw createError('startDate must be before endDate', 400);
+    }
+
+    const report = await getCohortReport(req.user!.workspaceId, {
+      startDate: start,
+      endDate: end,
+      granularity,
+      metric,
+      periods: parseInt(periods),
+      pixelId,
+      source,
+      cohortEvent,
+      timezone: timezone || await getWorkspaceTimezone(req.user!.workspaceId)
+    });
+
+    res.json({
+      success: true,
+      data: {
+        period: { startDate: start, endDate: end },
+        ...report
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,165 @@
+import express, { Router } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { query } from '../config/database';
+import { ingestEvents } from '../services/ingestion';
+import { errorHandler } from '../middleware/errorHandler';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('../services/ingestion', () => ({
+  ingestEvents: jest.fn()
+}));
+
+const mockedQuery = query as jest.Mock;
+const mockedIngestEvents = ingestEvents as jest.Mock;
+
+const PIXEL_ID = '00000000-0000-0000-0000-000000000003';
+const PIXEL_KEY = `pk_${'a'.repeat(32)}`;
+const OTHER_PIXEL_KEY = `pk_${'b'.repeat(32)}`;
+
+const RATE_LIMIT = 3;
+
+const readBody = async (response: Response): Promise<any> => response.json();
+
+describe('POST /collect/:pixelKey', () => {
+  const env = process.env;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    // The limiter reads its settings when the router is loaded
+    process.env = { ...env, COLLECT_RATE_LIMIT_MAX_REQUESTS: String(RATE_LIMIT) };
+    let collectRoutes: Router;
+    jest.isolateModules(() => {
+      collectRoutes = require('./collect').default;
+    });
+
+    const app = express();
+    app.use('/collect', collectRoutes!);
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  let allowedOrigins: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    allowedOrigins = ['https://shop.example.com', 'https://*.brand.example'];
+    mockedQuery.mockImplementation(async () => ({ rows: [{ id: PIXEL_ID, allowed_origins: allowedOrigins }] }));
+    mockedIngestEvents.mockImplementation(async (events: any[]) =>
+      events.map((event, index) => ({ ...event, id: `event-${index}`, duplicate: false, validationErrors: [] })));
+  });
+
+  // Each test posts with its own pixel key, so the rate limit of one does not leak into another
+  let keyCount = 0;
+  const nextPixelKey = () => `pk_${(++keyCount).toString(16).padStart(32, '0')}`;
+
+  const collect = (headers: Record<string, string> = {}, body: any = { eventName: 'PageView' }, pixelKey = nextPixelKey()) =>
+    fetch(`${baseUrl}/collect/${pixelKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+
+  describe('allowed origins', () => {
+    it.each([
+      ['an exact origin', 'https://shop.example.com'],
+      ['a subdomain of a wildcard origin', 'https://www.brand.example'],
+      ['a nested subdomain of a wildcard origin', 'https://eu.store.brand.example']
+    ])('accepts %s', async (_, origin) => {
+      const response = await collect({ Origin: origin });
+
+      expect(response.status).toBe(202);
+      expect(mockedIngestEvents).toHaveBeenCalledWith([expect.objectContaining({ pixelId: PIXEL_ID, eventName: 'PageView' })]);
+    });
+
+    it.each([
+      ['another site', 'https://evil.example'],
+      ['another scheme', 'http://shop.example.com'],
+      ['another port', 'https://shop.example.com:8443'],
+      ['the bare domain of a wildcard origin', 'https://brand.example'],
+      ['a lookalike domain', 'https://evilbrand.example'],
+      ['a wildcard domain used as a subdomain', 'https://brand.example.evil.example']
+    ])('rejects %s', async (_, origin) => {
+      const response = await collect({ Origin: origin });
+
+      expect(response.status).toBe(403);
+      expect((await readBody(response)).error).toBe('Origin not allowed for this pixel');
+      expect(mockedIngestEvents).not.toHaveBeenCalled();
+    });
+
+    it('reads the origin from the referer when there is no Origin header', async () => {
+      expect((await collect({ Referer: 'https://shop.example.com/checkout?step=2' })).status).toBe(202);
+      expect((await collect({ Referer: 'https://evil.example/page' })).status).toBe(403);
+    });
+
+    it('accepts server calls without an origin and pixels without allowed origins', async () => {
+      expect((await collect()).status).toBe(202);
+
+      allowedOrigins = [];
+      expect((await collect({ Origin: 'https://anywhere.example' })).status).toBe(202);
+    });
+
+    it('answers CORS preflight requests from any site', async () => {
+      const response = await fetch(`${baseUrl}/collect/${PIXEL_KEY}`, {
+        method: 'OPTIONS',
+        headers: { Origin: 'https://shop.example.com', 'Access-Control-Request-Method': 'POST' }
+      });
+
+      expect(response.status).toBe(204);
+      expect(response.headers.get('access-control-allow-origin')).toBe('https://shop.example.com');
+    });
+  });
+
+  describe('requests', () => {
+    it('rejects unknown pixel keys', async () => {
+      mockedQuery.mockResolvedValue({ rows: [] });
+
+      expect((await collect()).status).toBe(401);
+    });
+
+    it('does not accept a test event code', async () => {
+      const response = await collect({}, { eventName: 'PageView', testEventCode: 'TEST12345' });
+
+      expect(response.status).toBe(400);
+      expect(mockedIngestEvents).not.toHaveBeenCalled();
+    });
+
+    it('accepts batches sent with sendBeacon as text/plain', async () => {
+      const response = await collect(
+        { 'Content-Type': 'text/plain;charset=UTF-8' },
+        { events: [{ eventName: 'PageView' }, { eventName: 'Lead', eventId: 'lead-1' }] }
+      );
+
+      expect(response.status).toBe(202);
+      expect((await readBody(response)).data.received).toBe(2);
+    });
+  });
+
+  describe('rate limit', () => {
+    it('limits each pixel key separately', async () => {
+      for (let request = 0; request < RATE_LIMIT; request++) {
+        expect((await collect({}, undefined, PIXEL_KEY)).status).toBe(202);
+      }
+
+      const limited = await collect({}, undefined, PIXEL_KEY);
+      expect(limited.status).toBe(429);
+      expect((await readBody(limited)).error).toBe('Too many events sent for this pixel, please try again later.');
+      expect(limited.headers.get('ratelimit-limit')).toBe(String(RATE_LIMIT));
+
+      expect((await collect({}, undefined, OTHER_PIXEL_KEY)).status).toBe(202);
+    });
+  });
+});
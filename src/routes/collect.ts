@@ -0,0 +1,144 @@
+import express, { Router, Request } from 'express';
+import cors from 'cors';
+import rateLimit from 'express-rate-limit';
+import { query } from '../config/database';
+import { validate, validateParams } from '../middleware/validation';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { ingestEvents } from '../services/ingestion';
+import Joi from 'joi';
+
+// Public ingestion endpoint authenticated by a pixel's publishable key.
+// Mounted ahead of the global CORS policy and rate limiter in src/index.ts.
+const router = Router();
+
+// Browsers may call from any site; allowed origins are checked per pixel below
+router.use(cors({
+  origin: true,
+  methods: ['POST', 'OPTIONS'],
+  allowedHeaders: ['Content-Type']
+}));
+
+// navigator.sendBeacon posts JSON as text/plain
+router.use(express.json({ limit: '100kb', type: ['application/json', 'text/plain'] }));
+
+const collectLimiter = rateLimit({
+  windowMs: parseInt(process.env.COLLECT_RATE_LIMIT_WINDOW_MS || '60000'), // 1 minute
+  max: parseInt(process.env.COLLECT_RATE_LIMIT_MAX_REQUESTS || '600'),
+  keyGenerator: (req: Request) => `${req.params.pixelKey}:${req.ip}`,
+  message: {
+    success: false,
+    error: 'Too many events sent for this pixel, please try again later.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Validation schemas
+const collectEventSchema = Joi.object({
+  eventName: Joi.string().min(1).max(100).required(),
+  eventId: Joi.string().max(100).optional(),
+  // Accepted for compatibility; the type is derived from the event catalog
+  eventType: Joi.string().valid('standard', 'custom').optional(),
+  parameters: Joi.object().default({}),
+  source: Joi.string().valid('web', 'server', 'mobile').default('web')
+});
+
+// Accepts a single event or a batch of up to 100 events
+const collectSchema = collectEventSchema.keys({
+  eventName: Joi.string().min(1).max(100),
+  events: Joi.array().items(collectEventSchema).min(1).max(100)
+}).xor('eventName', 'events');
+
+const paramsSchema = Joi.object({
+  pixelKey: Joi.string().pattern(/^pk_[a-f0-9]{32,64}$/).required()
+});
+
+// Get the origin of a browser request, if any
+const getRequestOrigin = (req: Request): string | null => {
+  const origin = req.get('Origin');
+  if (origin) {
+    return origin;
+  }
+
+  const referer = req.get('Referer');
+  if (referer) {
+    try {
+      return new URL(referer).origin;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+};
+
+// Allowed origins may be exact (https://shop.com) or wildcard subdomains (https://*.shop.com)
+const isOriginAllowed = (origin: string, allowedOrigins: string[]): boolean => {
+  return allowedOrigins.some((allowed) => {
+    if (allowed === '*' || allowed === origin) {
+      return true;
+    }
+    const wildcard = allowed.match(/^(https?:\/\/)\*\.(.+)$/);
+    return !!wildcard && origin.startsWith(wildcard[1]) && origin.endsWith(`.${wildcard[2]}`);
+  });
+};
+
+// Collect events for a pixel
+router.post('/:pixelKey', collectLimiter, validateParams(paramsSchema), validate(collectSchema), async (req, res, next) => {
+  try {
+    const { pixelKey } = req.params;
+
+    const pixelResult = await query(
+      'SELECT id, allowed_origins FROM pixels WHERE public_key = $1 AND is_active = true',
+      [pixelKey]
+    );
+
+    if (pixelResult.rows.length === 0) {
+      throw createError('Invalid pixel key', 401);
+    }
+
+    const pixel = pixelResult.rows[0];
+    const allowedOrigins: string[] = pixel.allowed_origins || [];
+
+    // Server-to-server calls send no origin; browser calls must come from an allowed site
+    const origin = getRequestOrigin(req);
+    if (origin && allowedOrigins.length > 0 && !isOriginAllowed(origin, allowedOrigins)) {
+      throw createError('Origin not allowed for this pixel', 403);
+    }
+
+    const { value } = collectSchema.validate(req.body);
+    const events = value.events || [value];
+
+    const ingested = await ingestEvents(events.map((event: any) => ({
+      pixelId: pixel.id,
+      eventName: event.eventName,
+      eventId: event.eventId,
+      parameters: event.parameters,
+      source: event.source,
+      userAgent: req.get('User-Agent')?.slice(0, 500),
+      ipAddress: req.ip
+    })));
+
+    res.status(202).json({
+      success: true,
+      data: {
+        received: ingested.length,
+        deduplicated: ingested.filter((e) => e.duplicate).length,
+        invalid: ingested.filter((e) => e.status === 'error').length,
+        events: ingested.map((e) => ({
+          id: e.id,
+          eventName: e.eventName,
+          duplicate: e.duplicate,
+          ...(e.validationErrors.length > 0 && { errors: e.validationErrors })
+        }))
+      }
+    });
+
+    logger.info(`Collected ${ingested.length} events for pixel ${pixel.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
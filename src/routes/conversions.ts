@@ -5,52 +5,85 @@ import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth'
 import { validate, validateQuery, validateParams } from '../middleware/validation';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { formatBackfill } from '../services/conversionBackfill';
+import { previewConversion, normalizeRules, rulesSchema, DEFAULT_VALUE_CONFIG } from '../services/conversionRules';
+import { SortSpec, paginationKeys, resolvePageRequest, pageSql, buildPage } from '../services/pagination';
 import Joi from 'joi';
 
 const router = Router();
 
 // Validation schemas
+const valueConfigSchema = Joi.object({
+  type: Joi.string().valid('parameter', 'fixed').required(),
+  parameter: Joi.string().max(100).when('type', { is: 'parameter', then: Joi.optional(), otherwise: Joi.forbidden() }),
+  value: Joi.number().min(0).when('type', { is: 'fixed', then: Joi.required(), otherwise: Joi.forbidden() }),
+  multiplier: Joi.number().min(0).optional(),
+  currency: Joi.string().pattern(/^[A-Z]{3}$/).optional()
+});
+
 const createConversionSchema = Joi.object({
   name: Joi.string().min(2).max(100).required(),
   pixelId: Joi.string().uuid().required(),
   eventName: Joi.string().min(1).max(100).required(),
   description: Joi.string().max(500).optional(),
-  rules: Joi.array().items(Joi.object({
-    type: Joi.string().valid('url', 'event', 'parameter').required(),
-    operator: Joi.string().valid('equals', 'contains', 'starts_with', 'ends_with', 'greater_than', 'less_than').required(),
-    value: Joi.string().required(),
-    parameter: Joi.string().optional()
-  })).optional()
+  rules: rulesSchema.optional(),
+  valueConfig: valueConfigSchema.optional()
 });
 
 const updateConversionSchema = Joi.object({
   name: Joi.string().min(2).max(100).optional(),
   description: Joi.string().max(500).optional(),
   isActive: Joi.boolean().optional(),
-  rules: Joi.array().items(Joi.object({
-    type: Joi.string().valid('url', 'event', 'parameter').required(),
-    operator: Joi.string().valid('equals', 'contains', 'starts_with', 'ends_with', 'greater_than', 'less_than').required(),
-    value: Joi.string().required(),
-    parameter: Joi.string().optional()
-  })).optional()
+  rules: rulesSchema.optional(),
+  valueConfig: valueConfigSchema.optional()
 });
 
+const conversionSort: SortSpec = {
+  fields: {
+    createdAt: { column: 'c.created_at', type: 'timestamp' },
+    name: { column: 'c.name', type: 'text' }
+  },
+  idColumn: 'c.id',
+  defaultSort: 'createdAt',
+  defaultOrder: 'desc'
+};
+
 const querySchema = Joi.object({
-  page: Joi.number().integer().min(1).default(1),
-  limit: Joi.number().integer().min(1).max(100).default(20),
+  ...paginationKeys(conversionSort),
   search: Joi.string().max(100).optional(),
   pixelId: Joi.string().uuid().optional()
+}).oxor('page', 'cursor');
+
+// Same body as a new conversion, plus the preview window
+const previewConversionSchema = createConversionSchema.keys({
+  name: Joi.string().min(2).max(100).optional(),
+  days: Joi.number().integer().min(1).max(90).default(7),
+  sampleSize: Joi.number().integer().min(0).max(50).default(10)
+});
+
+const backfillSchema = Joi.object({
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().min(Joi.ref('startDate')).optional()
 });
 
 const paramsSchema = Joi.object({
   id: Joi.string().uuid().required()
 });
 
+const backfillParamsSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+  backfillId: Joi.string().uuid().required()
+});
+
 // Get all conversions for workspace
 router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
   try {
-    const { page = 1, limit = 20, search, pixelId } = req.query as any;
-    const offset = (page - 1) * limit;
+    const { search, pixelId } = req.query as any;
+
+    const pageRequest = resolvePageRequest(conversionSort, req.query);
+    if (!pageRequest) {
+      throw createError('Invalid cursor', 400);
+    }
 
     let whereClause = 'WHERE p.workspace_id = $1';
     const queryParams: any[] = [req.user!.workspaceId];
@@ -68,6 +101,8 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
       paramCount++;
     }
 
+    const page = pageSql(pageRequest, paramCount);
+
     // Get conversions with analytics
     const conversionsResult = await query(
       `SELECT 
@@ -76,57 +111,56 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
         p.pixel_id as pixel_external_id,
         COALESCE(stats.total_conversions, 0) as total_conversions,
         COALESCE(stats.total_value, 0) as total_value,
-        COALESCE(stats.conversion_rate, 0) as conversion_rate
+        COALESCE(stats.conversion_rate, 0) as conversion_rate,
+        ${page.cursorColumn}
       FROM conversions c
       JOIN pixels p ON c.pixel_id = p.id
       LEFT JOIN (
         SELECT 
           c.id as conversion_id,
-          COUNT(e.id) as total_conversions,
-          COALESCE(SUM((e.parameters->>'value')::numeric), 0) as total_value,
+          COUNT(cm.id) as total_conversions,
+          COALESCE(SUM(convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, cp.workspace_id)), 0) as total_value,
           CASE 
-            WHEN total_events.count > 0 THEN (COUNT(e.id)::float / total_events.count * 100)
+            WHEN total_events.count > 0 THEN (COUNT(cm.id)::float / total_events.count * 100)
             ELSE 0 
           END as conversion_rate
         FROM conversions c
-        LEFT JOIN events e ON c.pixel_id = e.pixel_id AND c.event_name = e.event_name
+        JOIN pixels cp ON c.pixel_id = cp.id
+        LEFT JOIN conversion_matches cm ON c.id = cm.conversion_id
         LEFT JOIN (
           SELECT pixel_id, COUNT(*) as count
           FROM events
+          WHERE is_test = false
           GROUP BY pixel_id
         ) total_events ON c.pixel_id = total_events.pixel_id
         GROUP BY c.id, total_events.count
       ) stats ON c.id = stats.conversion_id
-      ${whereClause}
-      ORDER BY c.created_at DESC
-      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
-      [...queryParams, limit, offset]
+      ${whereClause} ${page.keyset}
+      ${page.orderBy}
+      ${page.limit}`,
+      [...queryParams, ...page.params]
     );
 
-    // Get total count
-    const countResult = await query(
-      `SELECT COUNT(*) as total 
-       FROM conversions c
-       JOIN pixels p ON c.pixel_id = p.id
-       ${whereClause}`,
-      queryParams
-    );
+    // Only callers paginating by page get the total
+    let total: number | undefined;
+    if (pageRequest.page !== null) {
+      const countResult = await query(
+        `SELECT COUNT(*) as total 
+         FROM conversions c
+         JOIN pixels p ON c.pixel_id = p.id
+         ${whereClause}`,
+        queryParams
+      );
+      total = parseInt(countResult.rows[0].total);
+    }
 
-    const total = parseInt(countResult.rows[0].total);
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(conversionsResult.rows, pageRequest, total);
 
     res.json({
       success: true,
       data: {
-        conversions: conversionsResult.rows,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        conversions: items,
+        pagination
       }
     });
   } catch (error) {
@@ -134,6 +168,35 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
   }
 });
 
+// Preview what a conversion would match, without saving it
+router.post('/preview', authenticateToken, validate(previewConversionSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { pixelId, eventName, rules, valueConfig, days = 7, sampleSize = 10 } = req.body;
+
+    // Check if pixel exists and belongs to workspace
+    const pixelResult = await query(
+      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [pixelId, req.user!.workspaceId]
+    );
+
+    if (pixelResult.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
+
+    const preview = await previewConversion(
+      { pixel_id: pixelId, event_name: eventName, rules: normalizeRules(rules), value_config: valueConfig || DEFAULT_VALUE_CONFIG },
+      { workspaceId: req.user!.workspaceId, days, sampleSize, maxEvents: parseInt(process.env.CONVERSION_PREVIEW_MAX_EVENTS || '50000') }
+    );
+
+    res.json({
+      success: true,
+      data: preview
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get single conversion
 router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
   try {
@@ -154,36 +217,45 @@ router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req:
       throw createError('Conversion not found', 404);
     }
 
-    // Get conversion analytics
+    // Get conversion analytics from the events that matched its rules,
+    // with values converted to the workspace reporting currency
     const analyticsResult = await query(
       `SELECT 
-        COUNT(e.id) as total_conversions,
-        COALESCE(SUM((e.parameters->>'value')::numeric), 0) as total_value,
-        COALESCE(AVG((e.parameters->>'value')::numeric), 0) as average_value,
-        COUNT(e.id) FILTER (WHERE DATE(e.created_at) = CURRENT_DATE) as conversions_today,
-        COALESCE(SUM(CASE WHEN DATE(e.created_at) = CURRENT_DATE THEN (e.parameters->>'value')::numeric END), 0) as value_today
-      FROM events e
-      WHERE e.pixel_id = $1 AND e.event_name = $2`,
-      [conversionResult.rows[0].pixel_id, conversionResult.rows[0].event_name]
+        COUNT(cm.id) as total_conversions,
+        COALESCE(SUM(cm.reporting_value), 0) as total_value,
+        COALESCE(AVG(cm.reporting_value), 0) as average_value,
+        COUNT(cm.id) FILTER (WHERE DATE(cm.event_time) = CURRENT_DATE) as conversions_today,
+        COALESCE(SUM(CASE WHEN DATE(cm.event_time) = CURRENT_DATE THEN cm.reporting_value END), 0) as value_today,
+        COUNT(cm.id) FILTER (WHERE cm.value IS NOT NULL AND cm.reporting_value IS NULL) as unconverted_conversions,
+        MAX(cm.event_time) as last_conversion_at
+      FROM (
+        SELECT *, convert_to_reporting_currency(value, currency, event_time::date, $2) as reporting_value
+        FROM conversion_matches
+        WHERE conversion_id = $1
+      ) cm`,
+      [id, req.user!.workspaceId]
     );
 
     // Get conversion timeline (last 30 days)
     const timelineResult = await query(
       `SELECT 
-        DATE(e.created_at) as date,
-        COUNT(e.id) as conversions,
-        COALESCE(SUM((e.parameters->>'value')::numeric), 0) as value
-      FROM events e
-      WHERE e.pixel_id = $1 AND e.event_name = $2 AND e.created_at >= NOW() - INTERVAL '30 days'
-      GROUP BY DATE(e.created_at)
+        DATE(cm.event_time) as date,
+        COUNT(cm.id) as conversions,
+        COALESCE(SUM(convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, $2)), 0) as value
+      FROM conversion_matches cm
+      WHERE cm.conversion_id = $1 AND cm.event_time >= NOW() - INTERVAL '30 days'
+      GROUP BY DATE(cm.event_time)
       ORDER BY date`,
-      [conversionResult.rows[0].pixel_id, conversionResult.rows[0].event_name]
+      [id, req.user!.workspaceId]
     );
 
+    const currencyResult = await query('SELECT reporting_currency FROM workspaces WHERE id = $1', [req.user!.workspaceId]);
+
     res.json({
       success: true,
       data: {
         ...conversionResult.rows[0],
+        reportingCurrency: currencyResult.rows[0]?.reporting_currency,
         analytics: analyticsResult.rows[0],
         timeline: timelineResult.rows
       }
@@ -196,7 +268,7 @@ router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req:
 // Create conversion
 router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(createConversionSchema), async (req: AuthRequest, res, next) => {
   try {
-    const { name, pixelId, eventName, description, rules } = req.body;
+    const { name, pixelId, eventName, description, rules, valueConfig } = req.body;
 
     // Check if pixel exists and belongs to workspace
     const pixelResult = await query(
@@ -220,9 +292,9 @@ router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(
 
     const id = uuidv4();
     await query(
-      `INSERT INTO conversions (id, name, pixel_id, event_name, description, rules, created_by, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())`,
-      [id, name, pixelId, eventName, description, rules || [], req.user!.id]
+      `INSERT INTO conversions (id, name, pixel_id, event_name, description, rules, value_config, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
+      [id, name, pixelId, eventName, description, normalizeRules(rules), valueConfig || DEFAULT_VALUE_CONFIG, req.user!.id]
     );
 
     // Get created conversion
@@ -252,7 +324,7 @@ router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(
 router.put('/:id', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), validate(updateConversionSchema), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const { name, description, isActive, rules } = req.body;
+    const { name, description, isActive, rules, valueConfig } = req.body;
 
     // Check if conversion exists and belongs to workspace
     const existingConversion = await query(
@@ -287,7 +359,12 @@ router.put('/:id', authenticateToken, requireRole(['admin', 'manager']), validat
 
     if (rules) {
       updates.push(`rules = $${paramCount++}`);
-      values.push(rules);
+      values.push(normalizeRules(rules));
+    }
+
+    if (valueConfig) {
+      updates.push(`value_config = $${paramCount++}`);
+      values.push(valueConfig);
     }
 
     if (updates.length === 0) {
@@ -325,6 +402,121 @@ router.put('/:id', authenticateToken, requireRole(['admin', 'manager']), validat
   }
 });
 
+// Start a backfill of conversion matches over historical events
+router.post('/:id/backfill', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), validate(backfillSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { startDate, endDate } = req.body;
+
+    // Check if conversion exists and belongs to workspace
+    const existingConversion = await query(
+      `SELECT c.id FROM conversions c
+       JOIN pixels p ON c.pixel_id = p.id
+       WHERE c.id = $1 AND p.workspace_id = $2`,
+      [id, req.user!.workspaceId]
+    );
+
+    if (existingConversion.rows.length === 0) {
+      throw createError('Conversion not found', 404);
+    }
+
+    // Only one backfill per conversion at a time
+    const activeBackfill = await query(
+      `SELECT id FROM conversion_backfills WHERE conversion_id = $1 AND status IN ('queued', 'running')`,
+      [id]
+    );
+
+    if (activeBackfill.rows.length > 0) {
+      throw createError('A backfill is already in progress for this conversion', 400);
+    }
+
+    const backfillId = uuidv4();
+    await query(
+      `INSERT INTO conversion_backfills (id, conversion_id, start_date, end_date, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, NOW(), NOW())`,
+      [backfillId, id, startDate, endDate || new Date().toISOString(), req.user!.id]
+    );
+
+    const createdBackfill = await query('SELECT * FROM conversion_backfills WHERE id = $1', [backfillId]);
+
+    res.status(202).json({
+      success: true,
+      data: formatBackfill(createdBackfill.rows[0])
+    });
+
+    logger.info(`Conversion backfill queued: ${backfillId} for conversion ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get backfill progress
+router.get('/:id/backfill/:backfillId', authenticateToken, validateParams(backfillParamsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id, backfillId } = req.params;
+
+    const backfillResult = await query(
+      `SELECT b.* FROM conversion_backfills b
+       JOIN conversions c ON b.conversion_id = c.id
+       JOIN pixels p ON c.pixel_id = p.id
+       WHERE b.id = $1 AND b.conversion_id = $2 AND p.workspace_id = $3`,
+      [backfillId, id, req.user!.workspaceId]
+    );
+
+    if (backfillResult.rows.length === 0) {
+      throw createError('Backfill not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: formatBackfill(backfillResult.rows[0])
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Cancel a queued or running backfill
+router.post('/:id/backfill/:backfillId/cancel', authenticateToken, requireRole(['admin', 'manager']), validateParams(backfillParamsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id, backfillId } = req.params;
+
+    const backfillResult = await query(
+      `SELECT b.id, b.status FROM conversion_backfills b
+       JOIN conversions c ON b.conversion_id = c.id
+       JOIN pixels p ON c.pixel_id = p.id
+       WHERE b.id = $1 AND b.conversion_id = $2 AND p.workspace_id = $3`,
+      [backfillId, id, req.user!.workspaceId]
+    );
+
+    if (backfillResult.rows.length === 0) {
+      throw createError('Backfill not found', 404);
+    }
+
+    // Matches recorded before cancellation are kept
+    const cancelledResult = await query(
+      `UPDATE conversion_backfills
+       SET status = 'cancelled', completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status IN ('queued', 'running')
+       RETURNING *`,
+      [backfillId]
+    );
+
+    if (cancelledResult.rows.length === 0) {
+      throw createError(`Backfill is already ${backfillResult.rows[0].status}`, 400);
+    }
+
+    res.json({
+      success: true,
+      data: formatBackfill(cancelledResult.rows[0])
+    });
+
+    logger.info(`Conversion backfill cancelled: ${backfillId} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Delete conversion
 router.delete('/:id', authenticateToken, requireRole(['admin']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
   try {
@@ -0,0 +1,270 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth';
+import { validate, validateQuery, validateParams } from '../middleware/validation';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { STANDARD_EVENTS, PARAMETER_TYPES, getStandardEvent } from '../services/eventCatalog';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const parameterSchema = Joi.object().pattern(
+  Joi.string().pattern(/^[a-zA-Z0-9_]+$/).max(100),
+  Joi.object({
+    type: Joi.string().valid(...PARAMETER_TYPES).required(),
+    required: Joi.boolean().default(false),
+    description: Joi.string().max(500).allow('').default('')
+  })
+);
+
+const createCustomEventSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  description: Joi.string().max(500).optional(),
+  parameters: parameterSchema.default({}),
+  standardEvent: Joi.string().valid(...STANDARD_EVENTS.map((e) => e.name)).optional()
+});
+
+const updateCustomEventSchema = Joi.object({
+  description: Joi.string().max(500).optional(),
+  parameters: parameterSchema.optional(),
+  standardEvent: Joi.string().valid(...STANDARD_EVENTS.map((e) => e.name)).allow(null).optional(),
+  isActive: Joi.boolean().optional()
+});
+
+const querySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  search: Joi.string().max(100).optional()
+});
+
+const paramsSchema = Joi.object({
+  id: Joi.string().uuid().required()
+});
+
+// Get all custom event definitions for workspace
+router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { page = 1, limit = 20, search } = req.query as any;
+    const offset = (page - 1) * limit;
+
+    let whereClause = 'WHERE d.workspace_id = $1';
+    const queryParams: any[] = [req.user!.workspaceId];
+    let paramCount = 2;
+
+    if (search) {
+      whereClause += ` AND (d.name ILIKE $${paramCount} OR d.description ILIKE $${paramCount})`;
+      queryParams.push(`%${search}%`);
+      paramCount++;
+    }
+
+    const definitionsResult = await query(
+      `SELECT d.*
+      FROM custom_event_definitions d
+      ${whereClause}
+      ORDER BY d.name
+      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
+      [...queryParams, limit, offset]
+    );
+
+    // Get total count
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM custom_event_definitions d ${whereClause}`,
+      queryParams
+    );
+
+    const total = parseInt(countResult.rows[0].total);
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: {
+        customEvents: definitionsResult.rows,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get single custom event definition
+router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const definitionResult = await query(
+      'SELECT * FROM custom_event_definitions WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (definitionResult.rows.length === 0) {
+      throw createError('Custom event not found', 404);
+    }
+
+    // Get usage over the last 30 days
+    const usageResult = await query(
+      `SELECT
+        COUNT(*) as events_30d,
+        COUNT(*) FILTER (WHERE e.status = 'error') as errors_30d,
+        MAX(e.created_at) as last_seen
+      FROM events e
+      JOIN pixels p ON e.pixel_id = p.id
+      WHERE p.workspace_id = $1 AND e.event_name = $2 AND e.created_at >= NOW() - INTERVAL '30 days'`,
+      [req.user!.workspaceId, definitionResult.rows[0].name]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        ...definitionResult.rows[0],
+        usage: usageResult.rows[0]
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create custom event definition
+router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(createCustomEventSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { name, description, parameters, standardEvent } = req.body;
+
+    if (getStandardEvent(name)) {
+      throw createError(`${name} is a standard event and cannot be redefined`, 400);
+    }
+
+    // Check if a definition with the same name already exists in workspace
+    const existingDefinition = await query(
+      'SELECT id FROM custom_event_definitions WHERE name = $1 AND workspace_id = $2',
+      [name, req.user!.workspaceId]
+    );
+
+    if (existingDefinition.rows.length > 0) {
+      throw createError('Custom event with this name already exists in this workspace', 400);
+    }
+
+    const id = uuidv4();
+    await query(
+      `INSERT INTO custom_event_definitions (id, workspace_id, name, description, parameters, standard_event, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())`,
+      [id, req.user!.workspaceId, name, description, parameters || {}, standardEvent || null, req.user!.id]
+    );
+
+    const createdDefinition = await query('SELECT * FROM custom_event_definitions WHERE id = $1', [id]);
+
+    res.status(201).json({
+      success: true,
+      data: createdDefinition.rows[0]
+    });
+
+    logger.info(`Custom event created: ${name} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update custom event definition
+router.put('/:id', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), validate(updateCustomEventSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { description, parameters, standardEvent, isActive } = req.body;
+
+    // Check if definition exists and belongs to workspace
+    const existingDefinition = await query(
+      'SELECT id FROM custom_event_definitions WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (existingDefinition.rows.length === 0) {
+      throw createError('Custom event not found', 404);
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (description !== undefined) {
+      updates.push(`description = $${paramCount++}`);
+      values.push(description);
+    }
+
+    if (parameters) {
+      updates.push(`parameters = $${paramCount++}`);
+      values.push(parameters);
+    }
+
+    if (standardEvent !== undefined) {
+      updates.push(`standard_event = $${paramCount++}`);
+      values.push(standardEvent);
+    }
+
+    if (isActive !== undefined) {
+      updates.push(`is_active = $${paramCount++}`);
+      values.push(isActive);
+    }
+
+    if (updates.length === 0) {
+      throw createError('No fields to update', 400);
+    }
+
+    updates.push(`updated_at = NOW()`);
+    values.push(id);
+
+    await query(
+      `UPDATE custom_event_definitions SET ${updates.join(', ')} WHERE id = $${paramCount}`,
+      values
+    );
+
+    const updatedDefinition = await query('SELECT * FROM custom_event_definitions WHERE id = $1', [id]);
+
+    res.json({
+      success: true,
+      data: updatedDefinition.rows[0]
+    });
+
+    logger.info(`Custom event updated: ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete custom event definition
+router.delete('/:id', authenticateToken, requireRole(['admin']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Check if definition exists and belongs to workspace
+    const existingDefinition = await query(
+      'SELECT id, name FROM custom_event_definitions WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (existingDefinition.rows.length === 0) {
+      throw createError('Custom event not found', 404);
+    }
+
+    await query('DELETE FROM custom_event_definitions WHERE id = $1', [id]);
+
+    res.json({
+      success: true,
+      message: 'Custom event deleted successfully'
+    });
+
+    logger.info(`Custom event deleted: ${existingDefinition.rows[0].name} (${id}) by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -5,20 +5,30 @@ import { authenticateToken, AuthRequest } from '../middleware/auth';
 import { validateQuery, validateParams } from '../middleware/validation';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { SortSpec, paginationKeys, resolvePageRequest, pageSql, buildPage } from '../services/pagination';
 import Joi from 'joi';
 
 const router = Router();
 
 // Validation schemas
+const diagnosticSort: SortSpec = {
+  fields: {
+    createdAt: { column: 'd.created_at', type: 'timestamp' },
+    title: { column: 'd.title', type: 'text' }
+  },
+  idColumn: 'd.id',
+  defaultSort: 'createdAt',
+  defaultOrder: 'desc'
+};
+
 const querySchema = Joi.object({
-  page: Joi.number().integer().min(1).default(1),
-  limit: Joi.number().integer().min(1).max(100).default(20),
+  ...paginationKeys(diagnosticSort),
   search: Joi.string().max(100).optional(),
   pixelId: Joi.string().uuid().optional(),
   severity: Joi.string().valid('info', 'warning', 'error', 'success').optional(),
   category: Joi.string().valid('implementation', 'events', 'performance', 'connection').optional(),
   status: Joi.string().valid('active', 'resolved').optional()
-});
+}).oxor('page', 'cursor');
 
 const paramsSchema = Joi.object({
   id: Joi.string().uuid().required()
@@ -27,8 +37,12 @@ const paramsSchema = Joi.object({
 // Get all diagnostics for workspace
 router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
   try {
-    const { page = 1, limit = 20, search, pixelId, severity, category, status } = req.query as any;
-    const offset = (page - 1) * limit;
+    const { search, pixelId, severity, category, status } = req.query as any;
+
+    const pageRequest = resolvePageRequest(diagnosticSort, req.query);
+    if (!pageRequest) {
+      throw createError('Invalid cursor', 400);
+    }
 
     let whereClause = 'WHERE p.workspace_id = $1';
     const queryParams: any[] = [req.user!.workspaceId];
@@ -64,44 +78,43 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
       paramCount++;
     }
 
+    const page = pageSql(pageRequest, paramCount);
+
     // Get diagnostics with pixel info
     const diagnosticsResult = await query(
       `SELECT 
         d.*,
         p.name as pixel_name,
-        p.pixel_id as pixel_external_id
+        p.pixel_id as pixel_external_id,
+        ${page.cursorColumn}
       FROM diagnostics d
       JOIN pixels p ON d.pixel_id = p.id
-      ${whereClause}
-      ORDER BY d.created_at DESC
-      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
-      [...queryParams, limit, offset]
+      ${whereClause} ${page.keyset}
+      ${page.orderBy}
+      ${page.limit}`,
+      [...queryParams, ...page.params]
     );
 
-    // Get total count
-    const countResult = await query(
-      `SELECT COUNT(*) as total 
-       FROM diagnostics d
-       JOIN pixels p ON d.pixel_id = p.id
-       ${whereClause}`,
-      queryParams
-    );
+    // Only callers paginating by page get the total
+    let total: number | undefined;
+    if (pageRequest.page !== null) {
+      const countResult = await query(
+        `SELECT COUNT(*) as total 
+         FROM diagnostics d
+         JOIN pixels p ON d.pixel_id = p.id
+         ${whereClause}`,
+        queryParams
+      );
+      total = parseInt(countResult.rows[0].total);
+    }
 
-    const total = parseInt(countResult.rows[0].total);
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(diagnosticsResult.rows, pageRequest, total);
 
     res.json({
       success: true,
       data: {
-        diagnostics: diagnosticsResult.rows,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        diagnostics: items,
+        pagination
       }
     });
   } catch (error) {
@@ -1,10 +1,27 @@
 import { Router } from 'express';
-import { v4 as uuidv4 } from 'uuid';
 import { query } from '../config/database';
-import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth';
 import { validate, validateQuery, validateParams } from '../middleware/validation';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { enqueueEvents, replayDeadLetters } from '../services/deliveryQueue';
+import { ingestEvents } from '../services/ingestion';
+import { STANDARD_EVENTS } from '../services/eventCatalog';
+import {
+  resolveAnalyticsPeriod,
+  getTimelineBucketCount,
+  bucketSql,
+  bucketSeriesSql,
+  startOfTodaySql,
+  compareTotals,
+  describePeriod,
+  analyticsPeriodKeys,
+  eventCountResolution,
+  MAX_TIMELINE_BUCKETS
+} from '../services/analyticsPeriod';
+import { eventCountsSql } from '../services/eventRollups';
+import { buildEventFilters } from '../services/eventFilters';
+import { SortSpec, paginationKeys, resolvePageRequest, pageSql, buildPage } from '../services/pagination';
 import Joi from 'joi';
 
 const router = Router();
@@ -13,116 +30,130 @@ const router = Router();
 const createEventSchema = Joi.object({
   pixelId: Joi.string().uuid().required(),
   eventName: Joi.string().min(1).max(100).required(),
-  eventType: Joi.string().valid('standard', 'custom').default('standard'),
+  eventId: Joi.string().max(100).optional(),
+  // Accepted for compatibility; the type is derived from the event catalog
+  eventType: Joi.string().valid('standard', 'custom').optional(),
   parameters: Joi.object().default({}),
   source: Joi.string().valid('web', 'server', 'mobile').default('web'),
   userAgent: Joi.string().max(500).optional(),
-  ipAddress: Joi.string().ip().optional()
+  ipAddress: Joi.string().ip().optional(),
+  testEventCode: Joi.string().max(50).optional()
 });
 
 const bulkCreateEventsSchema = Joi.object({
   events: Joi.array().items(createEventSchema).min(1).max(100).required()
 });
 
+const eventSort: SortSpec = {
+  fields: {
+    createdAt: { column: 'e.created_at', type: 'timestamp' },
+    eventName: { column: 'e.event_name', type: 'text' }
+  },
+  idColumn: 'e.id',
+  defaultSort: 'createdAt',
+  defaultOrder: 'desc'
+};
+
 const querySchema = Joi.object({
-  page: Joi.number().integer().min(1).default(1),
-  limit: Joi.number().integer().min(1).max(100).default(20),
+  ...paginationKeys(eventSort),
   search: Joi.string().max(100).optional(),
   pixelId: Joi.string().uuid().optional(),
   eventName: Joi.string().max(100).optional(),
-  status: Joi.string().valid('success', 'error', 'pending').optional(),
+  status: Joi.string().valid('success', 'error', 'pending', 'imported').optional(),
   startDate: Joi.date().optional(),
   endDate: Joi.date().optional()
-});
+}).oxor('page', 'cursor');
 
 const paramsSchema = Joi.object({
   id: Joi.string().uuid().required()
 });
 
+const summaryQuerySchema = Joi.object({
+  ...analyticsPeriodKeys,
+  pixelId: Joi.string().uuid().optional()
+});
+
+const replaySchema = Joi.object({
+  pixelId: Joi.string().uuid().optional(),
+  eventName: Joi.string().max(100).optional(),
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional(),
+  limit: Joi.number().integer().min(1).max(1000).default(1000)
+});
+
 // Get all events for workspace
 router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
   try {
-    const { page = 1, limit = 20, search, pixelId, eventName, status, startDate, endDate } = req.query as any;
-    const offset = (page - 1) * limit;
-
-    let whereClause = 'WHERE p.workspace_id = $1';
-    const queryParams: any[] = [req.user!.workspaceId];
-    let paramCount = 2;
-
-    if (search) {
-      whereClause += ` AND (e.event_name ILIKE $${paramCount} OR p.name ILIKE $${paramCount})`;
-      queryParams.push(`%${search}%`);
-      paramCount++;
-    }
-
-    if (pixelId) {
-      whereClause += ` AND e.pixel_id = $${paramCount}`;
-      queryParams.push(pixelId);
-      paramCount++;
-    }
+    const { search, pixelId, eventName, status, startDate, endDate } = req.query as any;
 
-    if (eventName) {
-      whereClause += ` AND e.event_name = $${paramCount}`;
-      queryParams.push(eventName);
-      paramCount++;
+    const pageRequest = resolvePageRequest(eventSort, req.query);
+    if (!pageRequest) {
+      throw createError('Invalid cursor', 400);
     }
 
-    if (status) {
-      whereClause += ` AND e.status = $${paramCount}`;
-      queryParams.push(status);
-      paramCount++;
-    }
-
-    if (startDate) {
-      whereClause += ` AND e.created_at >= $${paramCount}`;
-      queryParams.push(startDate);
-      paramCount++;
-    }
-
-    if (endDate) {
-      whereClause += ` AND e.created_at <= $${paramCount}`;
-      queryParams.push(endDate);
-      paramCount++;
-    }
+    const { whereClause, params: queryParams } = buildEventFilters(req.user!.workspaceId, {
+      search, pixelId, eventName, status, startDate, endDate
+    });
+    const page = pageSql(pageRequest, queryParams.length + 1);
 
     // Get events with pixel info
     const eventsResult = await query(
       `SELECT 
         e.*,
         p.name as pixel_name,
-        p.pixel_id as pixel_external_id
+        p.pixel_id as pixel_external_id,
+        ${page.cursorColumn}
       FROM events e
       JOIN pixels p ON e.pixel_id = p.id
-      ${whereClause}
-      ORDER BY e.created_at DESC
-      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
-      [...queryParams, limit, offset]
+      ${whereClause} ${page.keyset}
+      ${page.orderBy}
+      ${page.limit}`,
+      [...queryParams, ...page.params]
     );
 
-    // Get total count
-    const countResult = await query(
-      `SELECT COUNT(*) as total 
-       FROM events e
-       JOIN pixels p ON e.pixel_id = p.id
-       ${whereClause}`,
-      queryParams
-    );
+    // Only callers paginating by page get the total, counting is slow on large workspaces
+    let total: number | undefined;
+    if (pageRequest.page !== null) {
+      const countResult = await query(
+        `SELECT COUNT(*) as total 
+         FROM events e
+         JOIN pixels p ON e.pixel_id = p.id
+         ${whereClause}`,
+        queryParams
+      );
+      total = parseInt(countResult.rows[0].total);
+    }
+
+    const { items, pagination } = buildPage(eventsResult.rows, pageRequest, total);
+
+    res.json({
+      success: true,
+      data: {
+        events: items,
+        pagination
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    const total = parseInt(countResult.rows[0].total);
-    const totalPages = Math.ceil(total / limit);
+// Get standard event catalog and workspace custom events
+router.get('/catalog', authenticateToken, async (req: AuthRequest, res, next) => {
+  try {
+    const customEventsResult = await query(
+      `SELECT name, description, parameters, standard_event
+       FROM custom_event_definitions
+       WHERE workspace_id = $1 AND is_active = true
+       ORDER BY name`,
+      [req.user!.workspaceId]
+    );
 
     res.json({
       success: true,
       data: {
-        events: eventsResult.rows,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        events: STANDARD_EVENTS,
+        customEvents: customEventsResult.rows
       }
     });
   } catch (error) {
@@ -139,9 +170,15 @@ router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req:
       `SELECT 
         e.*,
         p.name as pixel_name,
-        p.pixel_id as pixel_external_id
+        p.pixel_id as pixel_external_id,
+        d.status as delivery_status,
+        d.attempts as delivery_attempts,
+        d.next_attempt_at as delivery_next_attempt_at,
+        d.last_error as delivery_last_error,
+        d.delivered_at
       FROM events e
       JOIN pixels p ON e.pixel_id = p.id
+      LEFT JOIN event_deliveries d ON e.id = d.event_id
       WHERE e.id = $1 AND p.workspace_id = $2`,
       [id, req.user!.workspaceId]
     );
@@ -162,7 +199,7 @@ router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req:
 // Create event
 router.post('/', authenticateToken, validate(createEventSchema), async (req: AuthRequest, res, next) => {
   try {
-    const { pixelId, eventName, eventType, parameters, source, userAgent, ipAddress } = req.body;
+    const { pixelId, eventName, eventId, parameters, source, userAgent, ipAddress, testEventCode } = req.body;
 
     // Check if pixel exists and belongs to workspace
     const pixelResult = await query(
@@ -174,18 +211,9 @@ router.post('/', authenticateToken, validate(createEventSchema), async (req: Aut
       throw createError('Pixel not found', 404);
     }
 
-    const id = uuidv4();
-    await query(
-      `INSERT INTO events (id, pixel_id, event_name, event_type, parameters, source, user_agent, ip_address, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
-      [id, pixelId, eventName, eventType, parameters, source, userAgent, ipAddress]
-    );
-
-    // Update pixel last activity
-    await query(
-      'UPDATE pixels SET last_activity = NOW(), status = $1 WHERE id = $2',
-      ['active', pixelId]
-    );
+    const [ingested] = await ingestEvents([
+      { pixelId, eventName, eventId, parameters, source, userAgent, ipAddress, testEventCode }
+    ]);
 
     // Get created event
     const createdEvent = await query(
@@ -196,9 +224,21 @@ router.post('/', authenticateToken, validate(createEventSchema), async (req: Aut
       FROM events e
       JOIN pixels p ON e.pixel_id = p.id
       WHERE e.id = $1`,
-      [id]
+      [ingested.id]
     );
 
+    // Repeats of an already stored event return the original
+    if (ingested.duplicate) {
+      res.json({
+        success: true,
+        deduplicated: true,
+        data: createdEvent.rows[0]
+      });
+
+      logger.info(`Duplicate event ${eventId} deduplicated: ${eventName} for pixel ${pixelId}`);
+      return;
+    }
+
     res.status(201).json({
       success: true,
       data: createdEvent.rows[0]
@@ -226,122 +266,165 @@ router.post('/bulk', authenticateToken, validate(bulkCreateEventsSchema), async
       throw createError('One or more pixels not found', 404);
     }
 
-    // Start transaction
-    await query('BEGIN');
+    // Each event is stored in its own transaction, so the batch is not atomic: events stored
+    // before a failure are kept
+    const ingested = await ingestEvents(events);
+    const createdEvents = ingested.filter((e) => !e.duplicate);
 
-    try {
-      const createdEvents = [];
+    res.status(201).json({
+      success: true,
+      data: {
+        created: createdEvents.length,
+        deduplicated: ingested.length - createdEvents.length,
+        events: ingested
+      }
+    });
 
-      for (const event of events) {
-        const { pixelId, eventName, eventType = 'standard', parameters = {}, source = 'web', userAgent, ipAddress } = event;
-        
-        const id = uuidv4();
-        await query(
-          `INSERT INTO events (id, pixel_id, event_name, event_type, parameters, source, user_agent, ip_address, created_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
-          [id, pixelId, eventName, eventType, parameters, source, userAgent, ipAddress]
-        );
+    logger.info(`Bulk events created: ${createdEvents.length} events (${ingested.length - createdEvents.length} deduplicated)`);
+  } catch (error) {
+    next(error);
+  }
+});
 
-        createdEvents.push({ id, pixelId, eventName });
-      }
+// Retry delivery of a single event
+router.post('/:id/retry', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
 
-      // Update pixel last activities
-      await query(
-        'UPDATE pixels SET last_activity = NOW(), status = $1 WHERE id = ANY($2)',
-        ['active', pixelIds]
-      );
+    // Check if event exists and belongs to workspace
+    const eventResult = await query(
+      `SELECT e.id, e.status FROM events e
+       JOIN pixels p ON e.pixel_id = p.id
+       WHERE e.id = $1 AND p.workspace_id = $2`,
+      [id, req.user!.workspaceId]
+    );
 
-      await query('COMMIT');
+    if (eventResult.rows.length === 0) {
+      throw createError('Event not found', 404);
+    }
 
-      res.status(201).json({
-        success: true,
-        data: {
-          created: createdEvents.length,
-          events: createdEvents
-        }
-      });
+    const deliveryResult = await query(
+      'SELECT status FROM event_deliveries WHERE event_id = $1',
+      [id]
+    );
 
-      logger.info(`Bulk events created: ${createdEvents.length} events`);
-    } catch (error) {
-      await query('ROLLBACK');
-      throw error;
+    if (deliveryResult.rows[0]?.status === 'processing') {
+      throw createError('Event delivery is already in progress', 409);
     }
+
+    await enqueueEvents([id]);
+
+    res.json({
+      success: true,
+      message: 'Event queued for delivery'
+    });
+
+    logger.info(`Event delivery retry requested: ${id} by user ${req.user!.id}`);
   } catch (error) {
     next(error);
   }
 });
 
+// Replay dead-lettered events in bulk
+router.post('/dead-letter/replay', authenticateToken, requireRole(['admin', 'manager']), validate(replaySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { pixelId, eventName, startDate, endDate, limit = 1000 } = req.body;
+
+    const eventIds = await replayDeadLetters(req.user!.workspaceId, { pixelId, eventName, startDate, endDate, limit });
+
+    res.json({
+      success: true,
+      data: {
+        replayed: eventIds.length,
+        eventIds
+      }
+    });
+
+    logger.info(`Dead-lettered events replayed: ${eventIds.length} events by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Pixels of the workspace in $1, or only the pixel in $4 when set, to scope event rollups
+const SUMMARY_PIXELS = 'SELECT id FROM pixels WHERE workspace_id = $1 AND ($4::uuid IS NULL OR id = $4)';
+
+// Event totals of a workspace in [from, to), optionally for one pixel
+const getEventTotals = async (workspaceId: string, from: Date, to: Date, pixelId?: string) => {
+  const summaryResult = await query(
+    `SELECT 
+      COALESCE(SUM(e.events), 0) as total_events,
+      COALESCE(SUM(e.events) FILTER (WHERE e.status = 'success'), 0) as successful_events,
+      COALESCE(SUM(e.events) FILTER (WHERE e.status = 'error'), 0) as failed_events,
+      COUNT(DISTINCT e.pixel_id) as active_pixels,
+      COUNT(DISTINCT e.event_name) as unique_events,
+      COALESCE(SUM(e.duplicates), 0) as deduplicated_events,
+      COALESCE(SUM(e.duplicated_events), 0) as events_with_duplicates
+    FROM ${eventCountsSql('hour', '$2', '$3', SUMMARY_PIXELS)} e`,
+    [workspaceId, from, to, pixelId || null]
+  );
+
+  return Object.fromEntries(
+    Object.entries(summaryResult.rows[0]).map(([key, value]) => [key, parseInt(value as string)])
+  ) as Record<string, number>;
+};
+
 // Get events analytics summary
-router.get('/analytics/summary', authenticateToken, async (req: AuthRequest, res, next) => {
+router.get('/analytics/summary', authenticateToken, validateQuery(summaryQuerySchema), async (req: AuthRequest, res, next) => {
   try {
-    const { timeframe = '7d', pixelId } = req.query;
-
-    // Calculate date range based on timeframe
-    let dateFilter = '';
-    switch (timeframe) {
-      case '1h':
-        dateFilter = "AND e.created_at >= NOW() - INTERVAL '1 hour'";
-        break;
-      case '24h':
-        dateFilter = "AND e.created_at >= NOW() - INTERVAL '24 hours'";
-        break;
-      case '7d':
-        dateFilter = "AND e.created_at >= NOW() - INTERVAL '7 days'";
-        break;
-      case '30d':
-        dateFilter = "AND e.created_at >= NOW() - INTERVAL '30 days'";
-        break;
-      default:
-        dateFilter = "AND e.created_at >= NOW() - INTERVAL '7 days'";
+    const { pixelId } = req.query as any;
+    const period = await resolveAnalyticsPeriod(req.user!.workspaceId, req.query);
+
+    if (period.from >= period.to) {
+      throw createError('from must be before to', 400);
     }
 
-    let pixelFilter = '';
-    const queryParams = [req.user!.workspaceId];
-    if (pixelId) {
-      pixelFilter = 'AND e.pixel_id = $2';
-      if (typeof pixelId === 'string') {
-        queryParams.push(pixelId);
-      }
+    if (getTimelineBucketCount(period) > MAX_TIMELINE_BUCKETS) {
+      throw createError(`Timeline cannot have more than ${MAX_TIMELINE_BUCKETS} buckets, use a larger granularity`, 400);
     }
 
+    const eventCounts = eventCountsSql('hour', '$2', '$3', SUMMARY_PIXELS);
+    // Counts grouped into days and buckets of the timezone
+    const localResolution = eventCountResolution(period.timezone);
+    const queryParams = [req.user!.workspaceId, period.from, period.to, pixelId || null];
+
     // Get summary statistics
-    const summaryResult = await query(
-      `SELECT 
-        COUNT(*) as total_events,
-        COUNT(*) FILTER (WHERE e.status = 'success') as successful_events,
-        COUNT(*) FILTER (WHERE e.status = 'error') as failed_events,
-        COUNT(*) FILTER (WHERE DATE(e.created_at) = CURRENT_DATE) as events_today,
-        COUNT(DISTINCT e.pixel_id) as active_pixels,
-        COUNT(DISTINCT e.event_name) as unique_events
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 ${dateFilter} ${pixelFilter}`,
-      queryParams
+    const totals = await getEventTotals(req.user!.workspaceId, period.from, period.to, pixelId);
+
+    const todayResult = await query(
+      `SELECT COALESCE(SUM(e.events), 0) as events_today
+      FROM ${eventCountsSql(localResolution, startOfTodaySql('$2'), '$3', SUMMARY_PIXELS)} e`,
+      [req.user!.workspaceId, period.timezone, 'infinity', pixelId || null]
     );
 
-    // Get events by day
+    // Get events by bucket, in the requested timezone
     const timelineResult = await query(
       `SELECT 
-        DATE(e.created_at) as date,
-        COUNT(*) as events,
-        COUNT(*) FILTER (WHERE e.status = 'error') as errors
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 ${dateFilter} ${pixelFilter}
-      GROUP BY DATE(e.created_at)
-      ORDER BY date`,
-      queryParams
+        b.bucket as date,
+        COALESCE(t.events, 0) as events,
+        COALESCE(t.errors, 0) as errors,
+        COALESCE(t.deduplicated, 0) as deduplicated
+      FROM ${bucketSeriesSql(period.granularity, '$2', '$3', '$5')} b
+      LEFT JOIN (
+        SELECT 
+          ${bucketSql('e.bucket', period.granularity, '$5')} as bucket,
+          SUM(e.events) as events,
+          COALESCE(SUM(e.events) FILTER (WHERE e.status = 'error'), 0) as errors,
+          SUM(e.duplicates) as deduplicated
+        FROM ${eventCountsSql(localResolution, '$2', '$3', SUMMARY_PIXELS)} e
+        GROUP BY 1
+      ) t ON t.bucket = b.bucket
+      ORDER BY b.bucket`,
+      [...queryParams, period.timezone]
     );
 
     // Get top events
     const topEventsResult = await query(
       `SELECT 
         e.event_name,
-        COUNT(*) as count,
-        ROUND((COUNT(*) * 100.0 / SUM(COUNT(*)) OVER()), 2) as percentage
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 ${dateFilter} ${pixelFilter}
+        SUM(e.events) as count,
+        ROUND((SUM(e.events) * 100.0 / SUM(SUM(e.events)) OVER()), 2) as percentage
+      FROM ${eventCounts} e
       GROUP BY e.event_name
       ORDER BY count DESC
       LIMIT 10`,
@@ -352,19 +435,31 @@ router.get('/analytics/summary', authenticateToken, async (req: AuthRequest, res
     const sourceResult = await query(
       `SELECT 
         e.source,
-        COUNT(*) as count
-      FROM events e
-      JOIN pixels p ON e.pixel_id = p.id
-      WHERE p.workspace_id = $1 ${dateFilter} ${pixelFilter}
+        SUM(e.events) as count
+      FROM ${eventCounts} e
       GROUP BY e.source
       ORDER BY count DESC`,
       queryParams
     );
 
+    let comparison = null;
+    if (period.comparison) {
+      const previousTotals = await getEventTotals(req.user!.workspaceId, period.comparison.from, period.comparison.to, pixelId);
+      comparison = {
+        ...period.comparison,
+        deltas: compareTotals(totals, previousTotals)
+      };
+    }
+
     res.json({
       success: true,
       data: {
-        summary: summaryResult.rows[0],
+        period: describePeriod(period),
+        summary: {
+          ...totals,
+          events_today: parseInt(todayResult.rows[0].events_today)
+        },
+        comparison,
         timeline: timelineResult.rows,
         topEvents: topEventsResult.rows,
         bySource: sourceResult.rows
@@ -375,4 +470,4 @@ router.get('/analytics/summary', authenticateToken, async (req: AuthRequest, res
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
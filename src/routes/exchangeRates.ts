@@ -0,0 +1,159 @@
+import { Router } from 'express';
+import { query } from '../config/database';
+import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth';
+import { validate, validateQuery, validateParams } from '../middleware/validation';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { saveExchangeRates } from '../services/exchangeRates';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const currencySchema = Joi.string().pattern(/^[A-Z]{3}$/);
+
+const uploadRatesSchema = Joi.object({
+  rates: Joi.array().items(Joi.object({
+    baseCurrency: currencySchema.required(),
+    quoteCurrency: currencySchema.invalid(Joi.ref('baseCurrency')).required(),
+    rate: Joi.number().positive().required(),
+    date: Joi.date().iso().required()
+  })).min(1).max(1000).required()
+});
+
+const querySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+  baseCurrency: currencySchema.optional(),
+  quoteCurrency: currencySchema.optional(),
+  startDate: Joi.date().iso().optional(),
+  endDate: Joi.date().iso().optional()
+});
+
+const paramsSchema = Joi.object({
+  id: Joi.string().uuid().required()
+});
+
+// Get exchange rates available to the workspace (its own and shared rates)
+router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const page = parseInt((req.query.page as string) || '1');
+    const limit = parseInt((req.query.limit as string) || '50');
+    const { baseCurrency, quoteCurrency, startDate, endDate } = req.query;
+    const offset = (page - 1) * limit;
+
+    let whereClause = 'WHERE (r.workspace_id = $1 OR r.workspace_id IS NULL)';
+    const queryParams: any[] = [req.user!.workspaceId];
+    let paramCount = 2;
+
+    if (baseCurrency) {
+      whereClause += ` AND r.base_currency = $${paramCount}`;
+      queryParams.push(baseCurrency);
+      paramCount++;
+    }
+
+    if (quoteCurrency) {
+      whereClause += ` AND r.quote_currency = $${paramCount}`;
+      queryParams.push(quoteCurrency);
+      paramCount++;
+    }
+
+    if (startDate) {
+      whereClause += ` AND r.rate_date >= $${paramCount}`;
+      queryParams.push(startDate);
+      paramCount++;
+    }
+
+    if (endDate) {
+      whereClause += ` AND r.rate_date <= $${paramCount}`;
+      queryParams.push(endDate);
+      paramCount++;
+    }
+
+    const ratesResult = await query(
+      `SELECT r.*, (r.workspace_id IS NULL) as is_shared
+      FROM exchange_rates r
+      ${whereClause}
+      ORDER BY r.rate_date DESC, r.base_currency, r.quote_currency
+      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
+      [...queryParams, limit, offset]
+    );
+
+    // Get total count
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM exchange_rates r ${whereClause}`,
+      queryParams
+    );
+
+    const currencyResult = await query('SELECT reporting_currency FROM workspaces WHERE id = $1', [req.user!.workspaceId]);
+
+    const total = parseInt(countResult.rows[0].total);
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: {
+        reportingCurrency: currencyResult.rows[0]?.reporting_currency,
+        rates: ratesResult.rows,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Upload workspace exchange rates (replaces rates for the same pair and date)
+router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(uploadRatesSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { rates } = req.body;
+
+    const saved = await saveExchangeRates(rates, req.user!.workspaceId, 'manual');
+
+    res.status(201).json({
+      success: true,
+      data: { saved }
+    });
+
+    logger.info(`Exchange rates uploaded: ${saved} rates for workspace ${req.user!.workspaceId} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete workspace exchange rate
+router.delete('/:id', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Shared rates come from the provider and cannot be deleted by a workspace
+    const existingRate = await query(
+      'SELECT id FROM exchange_rates WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (existingRate.rows.length === 0) {
+      throw createError('Exchange rate not found', 404);
+    }
+
+    await query('DELETE FROM exchange_rates WHERE id = $1', [id]);
+
+    res.json({
+      success: true,
+      message: 'Exchange rate deleted successfully'
+    });
+
+    logger.info(`Exchange rate deleted: ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
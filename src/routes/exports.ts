@@ -0,0 +1,167 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { authenticateToken, AuthRequest } from '../middleware/auth';
+import { validate, validateQuery, validateParams } from '../middleware/validation';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  EXPORT_FORMATS,
+  getExportConfig,
+  formatExport,
+  getExportFile,
+  isExportAvailable,
+  verifyDownloadSignature
+} from '../services/eventExports';
+import { getExportStorage } from '../services/exportStorage';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const createExportSchema = Joi.object({
+  format: Joi.string().valid(...EXPORT_FORMATS).required(),
+  // Same filters as GET /events
+  search: Joi.string().max(100).optional(),
+  pixelId: Joi.string().uuid().optional(),
+  eventName: Joi.string().max(100).optional(),
+  status: Joi.string().valid('success', 'error', 'pending', 'imported').optional(),
+  startDate: Joi.date().optional(),
+  endDate: Joi.date().optional()
+});
+
+const listQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const paramsSchema = Joi.object({
+  id: Joi.string().uuid().required()
+});
+
+const downloadQuerySchema = Joi.object({
+  expires: Joi.number().integer().required(),
+  signature: Joi.string().hex().required()
+});
+
+// Queue an export of the events matching the filters
+router.post('/', authenticateToken, validate(createExportSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { format, ...filters } = req.body;
+
+    const activeResult = await query(
+      `SELECT COUNT(*) as total FROM event_exports WHERE workspace_id = $1 AND status IN ('queued', 'running')`,
+      [req.user!.workspaceId]
+    );
+    if (parseInt(activeResult.rows[0].total) >= getExportConfig().maxActivePerWorkspace) {
+      throw createError('Too many exports in progress for this workspace', 429);
+    }
+
+    if (filters.pixelId) {
+      const pixelResult = await query(
+        'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+        [filters.pixelId, req.user!.workspaceId]
+      );
+      if (pixelResult.rows.length === 0) {
+        throw createError('Pixel not found', 404);
+      }
+    }
+
+    const exportId = uuidv4();
+    const createdResult = await query(
+      `INSERT INTO event_exports (id, workspace_id, format, filters, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+       RETURNING *`,
+      [exportId, req.user!.workspaceId, format, filters, req.user!.id]
+    );
+
+    res.status(202).json({
+      success: true,
+      data: formatExport(createdResult.rows[0])
+    });
+
+    logger.info(`Event export queued: ${exportId} (${format}) by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List recent exports of the workspace
+router.get('/', authenticateToken, validateQuery(listQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const limit = parseInt((req.query.limit as string) || '20');
+
+    const exportsResult = await query(
+      `SELECT * FROM event_exports
+       WHERE workspace_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [req.user!.workspaceId, limit]
+    );
+
+    res.json({
+      success: true,
+      data: exportsResult.rows.map(formatExport)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get export status, with a fresh download link once completed
+router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const exportResult = await query(
+      'SELECT * FROM event_exports WHERE id = $1 AND workspace_id = $2',
+      [req.params.id, req.user!.workspaceId]
+    );
+
+    if (exportResult.rows.length === 0) {
+      throw createError('Export not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: formatExport(exportResult.rows[0])
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Download an export file. Authenticated by the signed link instead of a token.
+router.get('/:id/download', validateParams(paramsSchema), validateQuery(downloadQuerySchema), async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const expires = parseInt(req.query.expires as string);
+
+    if (!verifyDownloadSignature(id, expires, req.query.signature as string)) {
+      throw createError('Invalid or expired download link', 403);
+    }
+
+    const exportResult = await query('SELECT * FROM event_exports WHERE id = $1', [id]);
+    const exportJob = exportResult.rows[0];
+
+    if (!exportJob || !isExportAvailable(exportJob)) {
+      throw createError('Export is no longer available', 410);
+    }
+
+    const stream = await getExportStorage().read(exportJob.storage_key);
+    const { contentType, fileName } = getExportFile(exportJob);
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    if (exportJob.file_size) {
+      res.setHeader('Content-Length', exportJob.file_size);
+    }
+
+    stream.on('error', (error) => {
+      logger.error(`Error streaming event export ${id}:`, error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,275 @@
+import { Router } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth';
+import { validate, validateQuery, validateParams } from '../middleware/validation';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { funnelStepsSchema, MAX_CONVERSION_WINDOW_HOURS } from '../services/funnels';
+import Joi from 'joi';
+
+const router = Router();
+
+// Validation schemas
+const createFunnelSchema = Joi.object({
+  name: Joi.string().min(2).max(100).required(),
+  pixelId: Joi.string().uuid().required(),
+  description: Joi.string().max(500).optional(),
+  steps: funnelStepsSchema.required(),
+  conversionWindowHours: Joi.number().integer().min(1).max(MAX_CONVERSION_WINDOW_HOURS).default(168)
+});
+
+const updateFunnelSchema = Joi.object({
+  name: Joi.string().min(2).max(100).optional(),
+  description: Joi.string().max(500).allow(null).optional(),
+  steps: funnelStepsSchema.optional(),
+  conversionWindowHours: Joi.number().integer().min(1).max(MAX_CONVERSION_WINDOW_HOURS).optional()
+});
+
+const querySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  pixelId: Joi.string().uuid().optional(),
+  search: Joi.string().max(100).optional()
+});
+
+const paramsSchema = Joi.object({
+  id: Joi.string().uuid().required()
+});
+
+// Get all saved funnels for workspace
+router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { page = 1, limit = 20, pixelId, search } = req.query as any;
+    const offset = (page - 1) * limit;
+
+    let whereClause = 'WHERE f.workspace_id = $1';
+    const queryParams: any[] = [req.user!.workspaceId];
+    let paramCount = 2;
+
+    if (pixelId) {
+      whereClause += ` AND f.pixel_id = $${paramCount}`;
+      queryParams.push(pixelId);
+      paramCount++;
+    }
+
+    if (search) {
+      whereClause += ` AND (f.name ILIKE $${paramCount} OR f.description ILIKE $${paramCount})`;
+      queryParams.push(`%${search}%`);
+      paramCount++;
+    }
+
+    const funnelsResult = await query(
+      `SELECT f.*, p.name as pixel_name
+      FROM funnels f
+      JOIN pixels p ON f.pixel_id = p.id
+      ${whereClause}
+      ORDER BY f.name
+      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
+      [...queryParams, limit, offset]
+    );
+
+    // Get total count
+    const countResult = await query(
+      `SELECT COUNT(*) as total FROM funnels f ${whereClause}`,
+      queryParams
+    );
+
+    const total = parseInt(countResult.rows[0].total);
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: {
+        funnels: funnelsResult.rows,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get single funnel
+router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const funnelResult = await query(
+      `SELECT f.*, p.name as pixel_name
+      FROM funnels f
+      JOIN pixels p ON f.pixel_id = p.id
+      WHERE f.id = $1 AND f.workspace_id = $2`,
+      [id, req.user!.workspaceId]
+    );
+
+    if (funnelResult.rows.length === 0) {
+      throw createError('Funnel not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: funnelResult.rows[0]
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Create funnel
+router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(createFunnelSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { name, pixelId, description, steps, conversionWindowHours = 168 } = req.body;
+
+    // Check if pixel exists and belongs to workspace
+    const pixelResult = await query(
+      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [pixelId, req.user!.workspaceId]
+    );
+
+    if (pixelResult.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
+
+    // Check if a funnel with the same name already exists in workspace
+    const existingFunnel = await query(
+      'SELECT id FROM funnels WHERE name = $1 AND workspace_id = $2',
+      [name, req.user!.workspaceId]
+    );
+
+    if (existingFunnel.rows.length > 0) {
+      throw createError('Funnel with this name already exists in this workspace', 400);
+    }
+
+    const id = uuidv4();
+    await query(
+      `INSERT INTO funnels (id, workspace_id, pixel_id, name, description, steps, conversion_window_hours, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
+      [id, req.user!.workspaceId, pixelId, name, description, JSON.stringify(steps), conversionWindowHours, req.user!.id]
+    );
+
+    const createdFunnel = await query('SELECT * FROM funnels WHERE id = $1', [id]);
+
+    res.status(201).json({
+      success: true,
+      data: createdFunnel.rows[0]
+    });
+
+    logger.info(`Funnel created: ${name} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update funnel
+router.put('/:id', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), validate(updateFunnelSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { name, description, steps, conversionWindowHours } = req.body;
+
+    // Check if funnel exists and belongs to workspace
+    const existingFunnel = await query(
+      'SELECT id FROM funnels WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (existingFunnel.rows.length === 0) {
+      throw createError('Funnel not found', 404);
+    }
+
+    if (name) {
+      const duplicateFunnel = await query(
+        'SELECT id FROM funnels WHERE name = $1 AND workspace_id = $2 AND id != $3',
+        [name, req.user!.workspaceId, id]
+      );
+
+      if (duplicateFunnel.rows.length > 0) {
+        throw createError('Funnel with this name already exists in this workspace', 400);
+      }
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (name) {
+      updates.push(`name = $${paramCount++}`);
+      values.push(name);
+    }
+
+    if (description !== undefined) {
+      updates.push(`description = $${paramCount++}`);
+      values.push(description);
+    }
+
+    if (steps) {
+      updates.push(`steps = $${paramCount++}`);
+      values.push(JSON.stringify(steps));
+    }
+
+    if (conversionWindowHours !== undefined) {
+      updates.push(`conversion_window_hours = $${paramCount++}`);
+      values.push(conversionWindowHours);
+    }
+
+    if (updates.length === 0) {
+      throw createError('No fields to update', 400);
+    }
+
+    updates.push(`updated_at = NOW()`);
+    values.push(id);
+
+    await query(
+      `UPDATE funnels SET ${updates.join(', ')} WHERE id = $${paramCount}`,
+      values
+    );
+
+    const updatedFunnel = await query('SELECT * FROM funnels WHERE id = $1', [id]);
+
+    res.json({
+      success: true,
+      data: updatedFunnel.rows[0]
+    });
+
+    logger.info(`Funnel updated: ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Delete funnel
+router.delete('/:id', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Check if funnel exists and belongs to workspace
+    const existingFunnel = await query(
+      'SELECT id, name FROM funnels WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (existingFunnel.rows.length === 0) {
+      throw createError('Funnel not found', 404);
+    }
+
+    await query('DELETE FROM funnels WHERE id = $1', [id]);
+
+    res.json({
+      success: true,
+      message: 'Funnel deleted successfully'
+    });
+
+    logger.info(`Funnel deleted: ${existingFunnel.rows[0].name} (${id}) by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,226 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import multer from 'multer';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth';
+import { validateQuery, validateParams } from '../middleware/validation';
+import { createError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import {
+  IMPORT_FORMATS,
+  getImportConfig,
+  importMappingSchema,
+  detectImportFormat,
+  formatImport
+} from '../services/eventImports';
+import Joi from 'joi';
+
+const router = Router();
+
+const { uploadDir, maxFileSizeMb } = getImportConfig();
+const upload = multer({
+  dest: uploadDir,
+  limits: { fileSize: maxFileSizeMb * 1024 * 1024, files: 1 }
+});
+
+// Accept a single file field, turning upload errors into client errors
+const uploadFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (error: any) => {
+    if (error instanceof multer.MulterError) {
+      return next(error.code === 'LIMIT_FILE_SIZE'
+        ? createError(`File is larger than ${maxFileSizeMb} MB`, 413)
+        : createError(error.message, 400));
+    }
+    return next(error);
+  });
+};
+
+// Validation schemas
+const importSchema = Joi.object({
+  pixelId: Joi.string().uuid().required(),
+  // Detected from the file extension when omitted
+  format: Joi.string().valid(...IMPORT_FORMATS).optional(),
+  // JSON encoded, see ImportMapping
+  mapping: Joi.string().required(),
+  // Also deliver the imported events to the Conversions API
+  forward: Joi.boolean().default(false)
+});
+
+const listQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).default(20)
+});
+
+const paramsSchema = Joi.object({
+  id: Joi.string().uuid().required()
+});
+
+const errorsQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(50)
+});
+
+// Upload a CSV or NDJSON file of historical events to import in the background
+router.post('/', authenticateToken, requireRole(['admin', 'manager']), uploadFile, async (req: AuthRequest, res, next) => {
+  try {
+    if (!req.file) {
+      throw createError('A CSV or NDJSON file is required in the "file" field', 400);
+    }
+
+    // Multipart fields arrive as strings, so the body is validated here instead of by validate()
+    const { error, value: body } = importSchema.validate(req.body);
+    if (error) {
+      throw createError(error.details.map((detail) => detail.message).join(', '), 400);
+    }
+
+    let mapping: any;
+    try {
+      mapping = JSON.parse(body.mapping);
+    } catch (parseError) {
+      throw createError('mapping must be a JSON object', 400);
+    }
+    const mappingValidation = importMappingSchema.validate(mapping);
+    if (mappingValidation.error) {
+      throw createError(`Invalid mapping: ${mappingValidation.error.details.map((detail) => detail.message).join(', ')}`, 400);
+    }
+
+    const format = body.format || detectImportFormat(req.file.originalname);
+    if (!format) {
+      throw createError('Could not detect the file format, set format to csv or ndjson', 400);
+    }
+
+    const pixelResult = await query(
+      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [body.pixelId, req.user!.workspaceId]
+    );
+    if (pixelResult.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
+
+    const importId = uuidv4();
+    const createdResult = await query(
+      `INSERT INTO event_imports (id, workspace_id, pixel_id, format, mapping, forward, file_name, file_path, file_size, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+       RETURNING *`,
+      [
+        importId, req.user!.workspaceId, body.pixelId, format, mappingValidation.value, body.forward,
+        req.file.originalname, req.file.path, req.file.size, req.user!.id
+      ]
+    );
+
+    res.status(202).json({
+      success: true,
+      data: formatImport(createdResult.rows[0])
+    });
+
+    logger.info(`Event import queued: ${importId} (${format}, ${req.file.size} bytes) for pixel ${body.pixelId} by user ${req.user!.id}`);
+  } catch (error) {
+    if (req.file) {
+      await fs.promises.rm(req.file.path, { force: true });
+    }
+    next(error);
+  }
+});
+
+// List recent imports of the workspace
+router.get('/', authenticateToken, validateQuery(listQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const limit = parseInt((req.query.limit as string) || '20');
+
+    const importsResult = await query(
+      `SELECT ei.*, p.name as pixel_name
+       FROM event_imports ei
+       JOIN pixels p ON ei.pixel_id = p.id
+       WHERE ei.workspace_id = $1
+       ORDER BY ei.created_at DESC
+       LIMIT $2`,
+      [req.user!.workspaceId, limit]
+    );
+
+    res.json({
+      success: true,
+      data: importsResult.rows.map(formatImport)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get import progress
+router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const importResult = await query(
+      `SELECT ei.*, p.name as pixel_name
+       FROM event_imports ei
+       JOIN pixels p ON ei.pixel_id = p.id
+       WHERE ei.id = $1 AND ei.workspace_id = $2`,
+      [req.params.id, req.user!.workspaceId]
+    );
+
+    if (importResult.rows.length === 0) {
+      throw createError('Import not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: formatImport(importResult.rows[0])
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get the row errors of an import
+router.get('/:id/errors', authenticateToken, validateParams(paramsSchema), validateQuery(errorsQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const page = parseInt((req.query.page as string) || '1');
+    const limit = parseInt((req.query.limit as string) || '50');
+
+    const importResult = await query(
+      'SELECT id, failed_rows FROM event_imports WHERE id = $1 AND workspace_id = $2',
+      [req.params.id, req.user!.workspaceId]
+    );
+
+    if (importResult.rows.length === 0) {
+      throw createError('Import not found', 404);
+    }
+
+    const errorsResult = await query(
+      `SELECT row_number, errors, event_id, created_at
+       FROM event_import_errors
+       WHERE import_id = $1
+       ORDER BY row_number
+       LIMIT $2 OFFSET $3`,
+      [req.params.id, limit, (page - 1) * limit]
+    );
+
+    const countResult = await query(
+      'SELECT COUNT(*) as total FROM event_import_errors WHERE import_id = $1',
+      [req.params.id]
+    );
+
+    const total = parseInt(countResult.rows[0].total);
+    const totalPages = Math.ceil(total / limit);
+
+    res.json({
+      success: true,
+      data: {
+        errors: errorsResult.rows,
+        // Rows with errors, including those past the stored error limit
+        failedRows: importResult.rows[0].failed_rows,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
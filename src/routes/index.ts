@@ -2,22 +2,32 @@ import { Router } from 'express';
 import authRoutes from './auth';
 import pixelRoutes from './pixels';
 import eventRoutes from './events';
+import exportRoutes from './exports';
+import importRoutes from './imports';
+import customEventRoutes from './customEvents';
 import analyticsRoutes from './analytics';
 import conversionRoutes from './conversions';
 import diagnosticRoutes from './diagnostics';
 import integrationRoutes from './integrations';
 import workspaceRoutes from './workspaces';
+import exchangeRateRoutes from './exchangeRates';
+import funnelRoutes from './funnels';
 
 const router = Router();
 
 // Mount routes
 router.use('/auth', authRoutes);
 router.use('/pixels', pixelRoutes);
+router.use('/events/exports', exportRoutes);
+router.use('/events/import', importRoutes);
 router.use('/events', eventRoutes);
+router.use('/custom-events', customEventRoutes);
 router.use('/analytics', analyticsRoutes);
 router.use('/conversions', conversionRoutes);
 router.use('/diagnostics', diagnosticRoutes);
 router.use('/integrations', integrationRoutes);
 router.use('/workspaces', workspaceRoutes);
+router.use('/exchange-rates', exchangeRateRoutes);
+router.use('/funnels', funnelRoutes);
 
 export default router;
\ No newline at end of file
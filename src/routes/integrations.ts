@@ -5,6 +5,7 @@ import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth'
 import { validate, validateQuery, validateParams } from '../middleware/validation';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { SortSpec, paginationKeys, resolvePageRequest, pageSql, buildPage } from '../services/pagination';
 import Joi from 'joi';
 
 const router = Router();
@@ -24,12 +25,21 @@ const updateIntegrationSchema = Joi.object({
   isActive: Joi.boolean().optional()
 });
 
+const integrationSort: SortSpec = {
+  fields: {
+    createdAt: { column: 'i.created_at', type: 'timestamp' },
+    name: { column: 'i.name', type: 'text' }
+  },
+  idColumn: 'i.id',
+  defaultSort: 'createdAt',
+  defaultOrder: 'desc'
+};
+
 const querySchema = Joi.object({
-  page: Joi.number().integer().min(1).default(1),
-  limit: Joi.number().integer().min(1).max(100).default(20),
+  ...paginationKeys(integrationSort),
   search: Joi.string().max(100).optional(),
   type: Joi.string().valid('gtm', 'wordpress', 'shopify', 'webhook').optional()
-});
+}).oxor('page', 'cursor');
 
 const paramsSchema = Joi.object({
   id: Joi.string().uuid().required()
@@ -38,8 +48,12 @@ const paramsSchema = Joi.object({
 // Get all integrations for workspace
 router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
   try {
-    const { page = 1, limit = 20, search, type } = req.query as any;
-    const offset = (page - 1) * limit;
+    const { search, type } = req.query as any;
+
+    const pageRequest = resolvePageRequest(integrationSort, req.query);
+    if (!pageRequest) {
+      throw createError('Invalid cursor', 400);
+    }
 
     let whereClause = 'WHERE workspace_id = $1';
     const queryParams: any[] = [req.user!.workspaceId];
@@ -57,41 +71,40 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
       paramCount++;
     }
 
+    const page = pageSql(pageRequest, paramCount);
+
     // Get integrations
     const integrationsResult = await query(
       `SELECT 
         i.*,
-        COUNT(ip.pixel_id) as connected_pixels
+        COUNT(ip.pixel_id) as connected_pixels,
+        ${page.cursorColumn}
       FROM integrations i
       LEFT JOIN integration_pixels ip ON i.id = ip.integration_id
-      ${whereClause}
+      ${whereClause} ${page.keyset}
       GROUP BY i.id
-      ORDER BY i.created_at DESC
-      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
-      [...queryParams, limit, offset]
+      ${page.orderBy}
+      ${page.limit}`,
+      [...queryParams, ...page.params]
     );
 
-    // Get total count
-    const countResult = await query(
-      `SELECT COUNT(*) as total FROM integrations ${whereClause}`,
-      queryParams
-    );
+    // Only callers paginating by page get the total
+    let total: number | undefined;
+    if (pageRequest.page !== null) {
+      const countResult = await query(
+        `SELECT COUNT(*) as total FROM integrations ${whereClause}`,
+        queryParams
+      );
+      total = parseInt(countResult.rows[0].total);
+    }
 
-    const total = parseInt(countResult.rows[0].total);
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(integrationsResult.rows, pageRequest, total);
 
     res.json({
       success: true,
       data: {
-        integrations: integrationsResult.rows,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        integrations: items,
+        pagination
       }
     });
   } catch (error) {
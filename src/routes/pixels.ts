@@ -1,10 +1,28 @@
 import { Router } from 'express';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { query } from '../config/database';
-import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth';
+import { authenticateToken, AuthRequest, requireRole, acceptQueryToken } from '../middleware/auth';
 import { validate, validateQuery, validateParams } from '../middleware/validation';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { getPixelMatchQuality } from '../services/matchQuality';
+import { getPixelAccessToken } from '../services/metaConversions';
+import {
+  resolveAnalyticsPeriod,
+  getTimelineBucketCount,
+  bucketSql,
+  bucketSeriesSql,
+  compareTotals,
+  describePeriod,
+  analyticsPeriodKeys,
+  eventCountResolution,
+  MAX_TIMELINE_BUCKETS
+} from '../services/analyticsPeriod';
+import { eventCountsSql } from '../services/eventRollups';
+import { ingestEvents } from '../services/ingestion';
+import { streamRealtime, TEST_MESSAGE_TYPES } from '../services/realtime';
+import { SortSpec, paginationKeys, resolvePageRequest, pageSql, buildPage } from '../services/pagination';
 import Joi from 'joi';
 
 const router = Router();
@@ -15,7 +33,8 @@ const createPixelSchema = Joi.object({
   pixelId: Joi.string().min(10).max(20).required(),
   metaAccount: Joi.string().min(2).max(100).required(),
   description: Joi.string().max(500).optional(),
-  settings: Joi.object().optional()
+  settings: Joi.object().optional(),
+  allowedOrigins: Joi.array().items(Joi.string().max(255)).max(50).optional()
 });
 
 const updatePixelSchema = Joi.object({
@@ -23,25 +42,63 @@ const updatePixelSchema = Joi.object({
   metaAccount: Joi.string().min(2).max(100).optional(),
   description: Joi.string().max(500).optional(),
   settings: Joi.object().optional(),
+  allowedOrigins: Joi.array().items(Joi.string().max(255)).max(50).optional(),
   isActive: Joi.boolean().optional()
 });
 
+const pixelSort: SortSpec = {
+  fields: {
+    createdAt: { column: 'p.created_at', type: 'timestamp' },
+    name: { column: 'p.name', type: 'text' }
+  },
+  idColumn: 'p.id',
+  defaultSort: 'createdAt',
+  defaultOrder: 'desc'
+};
+
 const querySchema = Joi.object({
-  page: Joi.number().integer().min(1).default(1),
-  limit: Joi.number().integer().min(1).max(100).default(20),
+  ...paginationKeys(pixelSort),
   search: Joi.string().max(100).optional(),
   status: Joi.string().valid('active', 'inactive', 'error').optional()
-});
+}).oxor('page', 'cursor');
+
+const analyticsQuerySchema = Joi.object(analyticsPeriodKeys);
 
 const paramsSchema = Joi.object({
   id: Joi.string().uuid().required()
 });
 
+const testEventsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(200).default(50),
+  eventName: Joi.string().max(100).optional()
+});
+
+const testEventsStreamQuerySchema = Joi.object({
+  eventName: Joi.string().max(100).optional(),
+  token: Joi.string().optional()
+});
+
+// Publishable key used by the public collect endpoint
+const generatePublicKey = (): string => `pk_${crypto.randomBytes(24).toString('hex')}`;
+
+// Code sent with events to mark them as test traffic, in the format of Meta test event codes
+const generateTestEventCode = (): string => `TEST${crypto.randomInt(10000, 100000)}`;
+
+// The Conversions API access token is write-only: responses only tell whether one is set
+const formatPixel = (pixel: any) => {
+  const { accessToken, access_token, ...settings } = pixel.settings || {};
+  return { ...pixel, settings, hasAccessToken: !!getPixelAccessToken(pixel.settings) };
+};
+
 // Get all pixels for workspace
 router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
   try {
-    const { page = 1, limit = 20, search, status } = req.query as any;
-    const offset = (page - 1) * limit;
+    const { search, status } = req.query as any;
+
+    const pageRequest = resolvePageRequest(pixelSort, req.query);
+    if (!pageRequest) {
+      throw createError('Invalid cursor', 400);
+    }
 
     let whereClause = 'WHERE p.workspace_id = $1';
     const queryParams: any[] = [req.user!.workspaceId];
@@ -59,6 +116,8 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
       paramCount++;
     }
 
+    const page = pageSql(pageRequest, paramCount);
+
     // Get pixels with analytics
     const pixelsResult = await query(
       `SELECT 
@@ -68,54 +127,55 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
         COALESCE(c.conversions_today, 0) as conversions_today,
         COALESCE(c.conversions_total, 0) as conversions_total,
         COALESCE(c.revenue_today, 0) as revenue_today,
-        COALESCE(c.revenue_total, 0) as revenue_total
+        COALESCE(c.revenue_total, 0) as revenue_total,
+        ${page.cursorColumn}
       FROM pixels p
       LEFT JOIN (
         SELECT 
           pixel_id,
-          COUNT(*) FILTER (WHERE DATE(created_at) = CURRENT_DATE) as events_today,
-          COUNT(*) as events_total
-        FROM events 
+          SUM(events) FILTER (WHERE bucket >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') as events_today,
+          SUM(events) as events_total
+        FROM ${eventCountsSql('day', "'-infinity'", "'infinity'", 'SELECT id FROM pixels WHERE workspace_id = $1')} counts
         GROUP BY pixel_id
       ) e ON p.id = e.pixel_id
       LEFT JOIN (
         SELECT 
           pixel_id,
-          COUNT(*) FILTER (WHERE DATE(created_at) = CURRENT_DATE AND event_name = 'Purchase') as conversions_today,
-          COUNT(*) FILTER (WHERE event_name = 'Purchase') as conversions_total,
-          COALESCE(SUM(CASE WHEN DATE(created_at) = CURRENT_DATE AND event_name = 'Purchase' THEN (parameters->>'value')::numeric END), 0) as revenue_today,
-          COALESCE(SUM(CASE WHEN event_name = 'Purchase' THEN (parameters->>'value')::numeric END), 0) as revenue_total
-        FROM events 
-        WHERE parameters->>'value' IS NOT NULL
+          COUNT(*) FILTER (WHERE DATE(event_time) = CURRENT_DATE) as conversions_today,
+          COUNT(*) as conversions_total,
+          COALESCE(SUM(CASE WHEN DATE(event_time) = CURRENT_DATE THEN reporting_value END), 0) as revenue_today,
+          COALESCE(SUM(reporting_value), 0) as revenue_total
+        FROM (
+          SELECT cm.*, convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, $1) as reporting_value
+          FROM conversion_matches cm
+          JOIN pixels mp ON cm.pixel_id = mp.id
+          WHERE mp.workspace_id = $1
+        ) matches
         GROUP BY pixel_id
       ) c ON p.id = c.pixel_id
-      ${whereClause}
-      ORDER BY p.created_at DESC
-      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
-      [...queryParams, limit, offset]
+      ${whereClause} ${page.keyset}
+      ${page.orderBy}
+      ${page.limit}`,
+      [...queryParams, ...page.params]
     );
 
-    // Get total count
-    const countResult = await query(
-      `SELECT COUNT(*) as total FROM pixels p ${whereClause}`,
-      queryParams
-    );
+    // Only callers paginating by page get the total
+    let total: number | undefined;
+    if (pageRequest.page !== null) {
+      const countResult = await query(
+        `SELECT COUNT(*) as total FROM pixels p ${whereClause}`,
+        queryParams
+      );
+      total = parseInt(countResult.rows[0].total);
+    }
 
-    const total = parseInt(countResult.rows[0].total);
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(pixelsResult.rows, pageRequest, total);
 
     res.json({
       success: true,
       data: {
-        pixels: pixelsResult.rows,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        pixels: items.map(formatPixel),
+        pagination
       }
     });
   } catch (error) {
@@ -141,21 +201,23 @@ router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req:
       LEFT JOIN (
         SELECT 
           pixel_id,
-          COUNT(*) FILTER (WHERE DATE(created_at) = CURRENT_DATE) as events_today,
-          COUNT(*) as events_total
-        FROM events 
-        WHERE pixel_id = $1
+          SUM(events) FILTER (WHERE bucket >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') as events_today,
+          SUM(events) as events_total
+        FROM ${eventCountsSql('day', "'-infinity'", "'infinity'", 'SELECT $1::uuid')} counts
         GROUP BY pixel_id
       ) e ON p.id = e.pixel_id
       LEFT JOIN (
         SELECT 
           pixel_id,
-          COUNT(*) FILTER (WHERE DATE(created_at) = CURRENT_DATE AND event_name = 'Purchase') as conversions_today,
-          COUNT(*) FILTER (WHERE event_name = 'Purchase') as conversions_total,
-          COALESCE(SUM(CASE WHEN DATE(created_at) = CURRENT_DATE AND event_name = 'Purchase' THEN (parameters->>'value')::numeric END), 0) as revenue_today,
-          COALESCE(SUM(CASE WHEN event_name = 'Purchase' THEN (parameters->>'value')::numeric END), 0) as revenue_total
-        FROM events 
-        WHERE pixel_id = $1 AND parameters->>'value' IS NOT NULL
+          COUNT(*) FILTER (WHERE DATE(event_time) = CURRENT_DATE) as conversions_today,
+          COUNT(*) as conversions_total,
+          COALESCE(SUM(CASE WHEN DATE(event_time) = CURRENT_DATE THEN reporting_value END), 0) as revenue_today,
+          COALESCE(SUM(reporting_value), 0) as revenue_total
+        FROM (
+          SELECT *, convert_to_reporting_currency(value, currency, event_time::date, $2) as reporting_value
+          FROM conversion_matches
+          WHERE pixel_id = $1
+        ) matches
         GROUP BY pixel_id
       ) c ON p.id = c.pixel_id
       WHERE p.id = $1 AND p.workspace_id = $2`,
@@ -168,7 +230,7 @@ router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req:
 
     res.json({
       success: true,
-      data: pixelResult.rows[0]
+      data: formatPixel(pixelResult.rows[0])
     });
   } catch (error) {
     next(error);
@@ -178,7 +240,7 @@ router.get('/:id', authenticateToken, validateParams(paramsSchema), async (req:
 // Create pixel
 router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(createPixelSchema), async (req: AuthRequest, res, next) => {
   try {
-    const { name, pixelId, metaAccount, description, settings } = req.body;
+    const { name, pixelId, metaAccount, description, settings, allowedOrigins } = req.body;
 
     // Check if pixel ID already exists in workspace
     const existingPixel = await query(
@@ -192,9 +254,9 @@ router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(
 
     const id = uuidv4();
     await query(
-      `INSERT INTO pixels (id, name, pixel_id, meta_account, description, settings, workspace_id, created_by, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
-      [id, name, pixelId, metaAccount, description, settings || {}, req.user!.workspaceId, req.user!.id]
+      `INSERT INTO pixels (id, name, pixel_id, meta_account, description, settings, public_key, allowed_origins, workspace_id, created_by, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())`,
+      [id, name, pixelId, metaAccount, description, settings || {}, generatePublicKey(), allowedOrigins || [], req.user!.workspaceId, req.user!.id]
     );
 
     // Get created pixel
@@ -202,7 +264,7 @@ router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(
 
     res.status(201).json({
       success: true,
-      data: createdPixel.rows[0]
+      data: formatPixel(createdPixel.rows[0])
     });
 
     logger.info(`Pixel created: ${name} (${pixelId}) by user ${req.user!.id}`);
@@ -215,11 +277,11 @@ router.post('/', authenticateToken, requireRole(['admin', 'manager']), validate(
 router.put('/:id', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), validate(updatePixelSchema), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const { name, metaAccount, description, settings, isActive } = req.body;
+    const { name, metaAccount, description, settings, allowedOrigins, isActive } = req.body;
 
     // Check if pixel exists and belongs to workspace
     const existingPixel = await query(
-      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+      'SELECT id, settings FROM pixels WHERE id = $1 AND workspace_id = $2',
       [id, req.user!.workspaceId]
     );
 
@@ -247,8 +309,16 @@ router.put('/:id', authenticateToken, requireRole(['admin', 'manager']), validat
     }
 
     if (settings) {
+      // Responses never include the access token, so settings sent without one keep it
+      const storedToken = getPixelAccessToken(existingPixel.rows[0].settings);
+      const keepToken = storedToken && !('accessToken' in settings) && !('access_token' in settings);
       updates.push(`settings = $${paramCount++}`);
-      values.push(settings);
+      values.push(keepToken ? { ...settings, accessToken: storedToken } : settings);
+    }
+
+    if (allowedOrigins) {
+      updates.push(`allowed_origins = $${paramCount++}`);
+      values.push(allowedOrigins);
     }
 
     if (isActive !== undefined) {
@@ -275,7 +345,7 @@ router.put('/:id', authenticateToken, requireRole(['admin', 'manager']), validat
 
     res.json({
       success: true,
-      data: updatedPixel.rows[0]
+      data: formatPixel(updatedPixel.rows[0])
     });
 
     logger.info(`Pixel updated: ${id} by user ${req.user!.id}`);
@@ -332,11 +402,33 @@ router.delete('/:id', authenticateToken, requireRole(['admin']), validateParams(
   }
 });
 
+// Event and conversion totals of a pixel in [from, to), revenue in the workspace reporting currency
+const getPixelTotals = async (pixelId: string, workspaceId: string, from: Date, to: Date, timezone: string) => {
+  const summaryResult = await query(
+    `SELECT 
+      COALESCE(SUM(e.events), 0) as total_events,
+      (SELECT COUNT(*) FROM conversion_matches WHERE pixel_id = $1 AND event_time >= $3 AND event_time < $4) as total_conversions,
+      (SELECT COALESCE(SUM(convert_to_reporting_currency(value, currency, event_time::date, $2)), 0)
+       FROM conversion_matches WHERE pixel_id = $1 AND event_time >= $3 AND event_time < $4) as total_revenue,
+      COUNT(DISTINCT (e.bucket AT TIME ZONE $5::text)::date) as active_days
+    FROM ${eventCountsSql(eventCountResolution(timezone), '$3', '$4', 'SELECT $1::uuid')} e`,
+    [pixelId, workspaceId, from, to, timezone]
+  );
+
+  const summary = summaryResult.rows[0];
+
+  return {
+    total_events: parseInt(summary.total_events),
+    total_conversions: parseInt(summary.total_conversions),
+    total_revenue: parseFloat(summary.total_revenue),
+    active_days: parseInt(summary.active_days)
+  };
+};
+
 // Get pixel analytics
-router.get('/:id/analytics', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+router.get('/:id/analytics', authenticateToken, validateParams(paramsSchema), validateQuery(analyticsQuerySchema), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const { timeframe = '7d' } = req.query;
 
     // Check if pixel exists and belongs to workspace
     const pixelResult = await query(
@@ -348,71 +440,83 @@ router.get('/:id/analytics', authenticateToken, validateParams(paramsSchema), as
       throw createError('Pixel not found', 404);
     }
 
-    // Calculate date range based on timeframe
-    let dateFilter = '';
-    switch (timeframe) {
-      case '1h':
-        dateFilter = "AND created_at >= NOW() - INTERVAL '1 hour'";
-        break;
-      case '24h':
-        dateFilter = "AND created_at >= NOW() - INTERVAL '24 hours'";
-        break;
-      case '7d':
-        dateFilter = "AND created_at >= NOW() - INTERVAL '7 days'";
-        break;
-      case '30d':
-        dateFilter = "AND created_at >= NOW() - INTERVAL '30 days'";
-        break;
-      default:
-        dateFilter = "AND created_at >= NOW() - INTERVAL '7 days'";
+    const period = await resolveAnalyticsPeriod(req.user!.workspaceId, req.query);
+
+    if (period.from >= period.to) {
+      throw createError('from must be before to', 400);
     }
 
-    // Get events analytics
+    if (getTimelineBucketCount(period) > MAX_TIMELINE_BUCKETS) {
+      throw createError(`Timeline cannot have more than ${MAX_TIMELINE_BUCKETS} buckets, use a larger granularity`, 400);
+    }
+
+    // Get events analytics, with conversions and revenue (in the reporting currency) from conversion matches
     const eventsAnalytics = await query(
       `SELECT 
-        DATE(created_at) as date,
-        COUNT(*) as events,
-        COUNT(DISTINCT CASE WHEN event_name = 'Purchase' THEN id END) as conversions,
-        COALESCE(SUM(CASE WHEN event_name = 'Purchase' THEN (parameters->>'value')::numeric END), 0) as revenue
-      FROM events 
-      WHERE pixel_id = $1 ${dateFilter}
-      GROUP BY DATE(created_at)
-      ORDER BY date`,
-      [id]
+        b.bucket as date,
+        COALESCE(d.events, 0) as events,
+        COALESCE(c.conversions, 0) as conversions,
+        COALESCE(c.revenue, 0) as revenue
+      FROM ${bucketSeriesSql(period.granularity, '$3', '$4', '$5')} b
+      LEFT JOIN (
+        SELECT ${bucketSql('e.bucket', period.granularity, '$5')} as bucket, SUM(e.events) as events
+        FROM ${eventCountsSql(eventCountResolution(period.timezone), '$3', '$4', 'SELECT $1::uuid')} e
+        GROUP BY 1
+      ) d ON d.bucket = b.bucket
+      LEFT JOIN (
+        SELECT
+          ${bucketSql('event_time', period.granularity, '$5')} as bucket,
+          COUNT(*) as conversions,
+          SUM(convert_to_reporting_currency(value, currency, event_time::date, $2)) as revenue
+        FROM conversion_matches
+        WHERE pixel_id = $1 AND event_time >= $3 AND event_time < $4
+        GROUP BY 1
+      ) c ON c.bucket = b.bucket
+      ORDER BY b.bucket`,
+      [id, req.user!.workspaceId, period.from, period.to, period.timezone]
     );
 
     // Get top events
     const topEvents = await query(
       `SELECT 
-        event_name,
-        COUNT(*) as count,
-        ROUND((COUNT(*) * 100.0 / SUM(COUNT(*)) OVER()), 2) as percentage
-      FROM events 
-      WHERE pixel_id = $1 ${dateFilter}
-      GROUP BY event_name
+        e.event_name,
+        SUM(e.events) as count,
+        ROUND((SUM(e.events) * 100.0 / SUM(SUM(e.events)) OVER()), 2) as percentage
+      FROM ${eventCountsSql('hour', '$2', '$3', 'SELECT $1::uuid')} e
+      GROUP BY e.event_name
       ORDER BY count DESC
       LIMIT 10`,
-      [id]
+      [id, period.from, period.to]
     );
 
     // Get summary stats
-    const summary = await query(
-      `SELECT 
-        COUNT(*) as total_events,
-        COUNT(DISTINCT CASE WHEN event_name = 'Purchase' THEN id END) as total_conversions,
-        COALESCE(SUM(CASE WHEN event_name = 'Purchase' THEN (parameters->>'value')::numeric END), 0) as total_revenue,
-        COUNT(DISTINCT DATE(created_at)) as active_days
-      FROM events 
-      WHERE pixel_id = $1 ${dateFilter}`,
-      [id]
-    );
+    const totals = await getPixelTotals(id, req.user!.workspaceId, period.from, period.to, period.timezone);
+    const currencyResult = await query('SELECT reporting_currency FROM workspaces WHERE id = $1', [req.user!.workspaceId]);
+
+    let comparison = null;
+    if (period.comparison) {
+      const previousTotals = await getPixelTotals(id, req.user!.workspaceId, period.comparison.from, period.comparison.to, period.timezone);
+      comparison = {
+        ...period.comparison,
+        deltas: compareTotals(totals, previousTotals)
+      };
+    }
+
+    // Get event match quality
+    const matchQuality = await getPixelMatchQuality(id, period.from, period.to);
 
     res.json({
       success: true,
       data: {
-        summary: summary.rows[0],
+        period: describePeriod(period),
+        summary: {
+          ...totals,
+          reporting_currency: currencyResult.rows[0]?.reporting_currency
+        },
+        comparison,
         timeline: eventsAnalytics.rows,
-        topEvents: topEvents.rows
+        topEvents: topEvents.rows,
+        matchQuality
       }
     });
   } catch (error) {
@@ -420,50 +524,219 @@ router.get('/:id/analytics', authenticateToken, validateParams(paramsSchema), as
   }
 });
 
-// Test pixel connection
-router.post('/:id/test', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+// Rotate pixel publishable key
+router.post('/:id/public-key/rotate', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
 
     // Check if pixel exists and belongs to workspace
-    const pixelResult = await query(
-      'SELECT id, name, pixel_id FROM pixels WHERE id = $1 AND workspace_id = $2',
+    const existingPixel = await query(
+      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
       [id, req.user!.workspaceId]
     );
 
-    if (pixelResult.rows.length === 0) {
+    if (existingPixel.rows.length === 0) {
       throw createError('Pixel not found', 404);
     }
 
-    const pixel = pixelResult.rows[0];
+    const publicKey = generatePublicKey();
+    await query(
+      'UPDATE pixels SET public_key = $1, updated_at = NOW() WHERE id = $2',
+      [publicKey, id]
+    );
+
+    res.json({
+      success: true,
+      data: { publicKey }
+    });
+
+    logger.info(`Pixel public key rotated: ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Generate or rotate pixel test event code
+router.post('/:id/test-code', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Check if pixel exists and belongs to workspace
+    const existingPixel = await query(
+      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (existingPixel.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
 
-    // Create a test event
-    const testEventId = uuidv4();
+    const testEventCode = generateTestEventCode();
     await query(
-      `INSERT INTO events (id, pixel_id, event_name, event_type, parameters, source, user_agent, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
-      [
-        testEventId,
-        id,
-        'TestEvent',
-        'custom',
-        { test: true, timestamp: new Date().toISOString() },
-        'test',
-        'Meta Pixel Admin Test'
-      ]
+      'UPDATE pixels SET test_event_code = $1, updated_at = NOW() WHERE id = $2',
+      [testEventCode, id]
+    );
+
+    res.json({
+      success: true,
+      data: { testEventCode }
+    });
+
+    logger.info(`Pixel test event code rotated: ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Disable pixel test mode
+router.delete('/:id/test-code', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Check if pixel exists and belongs to workspace
+    const existingPixel = await query(
+      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
     );
 
-    // Update pixel status to active if test successful
+    if (existingPixel.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
+
     await query(
-      'UPDATE pixels SET status = $1, last_activity = NOW(), updated_at = NOW() WHERE id = $2',
-      ['active', id]
+      'UPDATE pixels SET test_event_code = NULL, updated_at = NOW() WHERE id = $1',
+      [id]
     );
 
+    res.json({
+      success: true,
+      message: 'Test mode disabled successfully'
+    });
+
+    logger.info(`Pixel test mode disabled: ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get recent test events with their validation, hashing and delivery results
+router.get('/:id/test-events', authenticateToken, validateParams(paramsSchema), validateQuery(testEventsQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { limit = 50, eventName } = req.query as any;
+
+    // Check if pixel exists and belongs to workspace
+    const pixelResult = await query(
+      'SELECT id, test_event_code FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (pixelResult.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
+
+    const eventsResult = await query(
+      `SELECT
+        e.id,
+        e.event_name,
+        e.event_id,
+        e.source,
+        e.status,
+        e.error_message,
+        e.parameters,
+        e.match_score,
+        e.duplicate_count,
+        e.test_event_code,
+        e.debug_info,
+        e.created_at,
+        d.status as delivery_status,
+        d.attempts as delivery_attempts,
+        d.last_error as delivery_error,
+        d.delivered_at
+      FROM events e
+      LEFT JOIN event_deliveries d ON d.event_id = e.id
+      WHERE e.pixel_id = $1 AND e.is_test = true AND ($2::varchar IS NULL OR e.event_name = $2::varchar)
+      ORDER BY e.created_at DESC
+      LIMIT $3`,
+      [id, eventName || null, parseInt(limit)]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        testEventCode: pixelResult.rows[0].test_event_code,
+        events: eventsResult.rows
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Stream test events and their delivery updates as Server-Sent Events
+router.get('/:id/test-events/stream', acceptQueryToken, authenticateToken, validateParams(paramsSchema), validateQuery(testEventsStreamQuerySchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+    const { eventName } = req.query as any;
+
+    // Check if pixel exists and belongs to workspace
+    const pixelResult = await query(
+      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (pixelResult.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
+
+    streamRealtime(req, res, req.user!.workspaceId, { types: TEST_MESSAGE_TYPES, pixelId: id, eventName });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Test pixel connection by sending a test event through the ingestion pipeline
+router.post('/:id/test', authenticateToken, requireRole(['admin', 'manager']), validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Check if pixel exists and belongs to workspace
+    const pixelResult = await query(
+      'SELECT id, name, pixel_id, test_event_code FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [id, req.user!.workspaceId]
+    );
+
+    if (pixelResult.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
+
+    const pixel = pixelResult.rows[0];
+
+    // Testing turns test mode on if it is not already
+    let testEventCode = pixel.test_event_code;
+    if (!testEventCode) {
+      testEventCode = generateTestEventCode();
+      await query(
+        'UPDATE pixels SET test_event_code = $1, updated_at = NOW() WHERE id = $2',
+        [testEventCode, id]
+      );
+    }
+
+    const [ingested] = await ingestEvents([{
+      pixelId: id,
+      eventName: 'TestEvent',
+      parameters: { test: true, timestamp: new Date().toISOString() },
+      source: 'server',
+      userAgent: 'Meta Pixel Admin Test',
+      testEventCode
+    }]);
+
     res.json({
       success: true,
       message: 'Pixel test successful',
       data: {
-        testEventId,
+        testEventId: ingested.id,
+        testEventCode,
         pixelId: pixel.pixel_id,
         timestamp: new Date().toISOString()
       }
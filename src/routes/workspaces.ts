@@ -5,6 +5,9 @@ import { authenticateToken, AuthRequest, requireRole } from '../middleware/auth'
 import { validate, validateQuery, validateParams } from '../middleware/validation';
 import { createError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
+import { timezoneSchema } from '../services/analyticsPeriod';
+import { retentionWindowsSchema, getWorkspaceRetention, saveRetentionPolicy, getRetentionPreview } from '../services/retention';
+import { SortSpec, paginationKeys, resolvePageRequest, pageSql, buildPage } from '../services/pagination';
 import Joi from 'joi';
 
 const router = Router();
@@ -17,7 +20,9 @@ const createWorkspaceSchema = Joi.object({
 
 const updateWorkspaceSchema = Joi.object({
   name: Joi.string().min(2).max(100).optional(),
-  description: Joi.string().max(500).optional()
+  description: Joi.string().max(500).optional(),
+  reportingCurrency: Joi.string().pattern(/^[A-Z]{3}$/).optional(),
+  timezone: timezoneSchema.optional()
 });
 
 const inviteMemberSchema = Joi.object({
@@ -29,21 +34,44 @@ const updateMemberSchema = Joi.object({
   role: Joi.string().valid('admin', 'manager', 'viewer').required()
 });
 
+const workspaceSort: SortSpec = {
+  fields: {
+    createdAt: { column: 'w.created_at', type: 'timestamp' },
+    name: { column: 'w.name', type: 'text' }
+  },
+  idColumn: 'w.id',
+  defaultSort: 'createdAt',
+  defaultOrder: 'desc'
+};
+
 const querySchema = Joi.object({
-  page: Joi.number().integer().min(1).default(1),
-  limit: Joi.number().integer().min(1).max(100).default(20),
+  ...paginationKeys(workspaceSort),
   search: Joi.string().max(100).optional()
+}).oxor('page', 'cursor');
+
+const membersQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20)
 });
 
 const paramsSchema = Joi.object({
   id: Joi.string().uuid().required()
 });
 
+const retentionPixelParamsSchema = Joi.object({
+  id: Joi.string().uuid().required(),
+  pixelId: Joi.string().uuid().required()
+});
+
 // Get all workspaces for user
 router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthRequest, res, next) => {
   try {
-    const { page = 1, limit = 20, search } = req.query as any;
-    const offset = (page - 1) * limit;
+    const { search } = req.query as any;
+
+    const pageRequest = resolvePageRequest(workspaceSort, req.query);
+    if (!pageRequest) {
+      throw createError('Invalid cursor', 400);
+    }
 
     let whereClause = 'WHERE wm.user_id = $1';
     const queryParams: any[] = [req.user!.id];
@@ -55,6 +83,8 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
       paramCount++;
     }
 
+    const page = pageSql(pageRequest, paramCount);
+
     // Get workspaces with member info
     const workspacesResult = await query(
       `SELECT 
@@ -63,42 +93,39 @@ router.get('/', authenticateToken, validateQuery(querySchema), async (req: AuthR
         wm.created_at as joined_at,
         (w.owner_id = $1) as is_owner,
         COUNT(DISTINCT wm2.user_id) as member_count,
-        COUNT(DISTINCT p.id) as pixel_count
+        COUNT(DISTINCT p.id) as pixel_count,
+        ${page.cursorColumn}
       FROM workspaces w
       JOIN workspace_members wm ON w.id = wm.workspace_id
       LEFT JOIN workspace_members wm2 ON w.id = wm2.workspace_id
       LEFT JOIN pixels p ON w.id = p.workspace_id
-      ${whereClause}
+      ${whereClause} ${page.keyset}
       GROUP BY w.id, wm.role, wm.created_at
-      ORDER BY w.created_at DESC
-      LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
-      [...queryParams, limit, offset]
+      ${page.orderBy}
+      ${page.limit}`,
+      [...queryParams, ...page.params]
     );
 
-    // Get total count
-    const countResult = await query(
-      `SELECT COUNT(*) as total 
-       FROM workspaces w
-       JOIN workspace_members wm ON w.id = wm.workspace_id
-       ${whereClause}`,
-      queryParams
-    );
+    // Only callers paginating by page get the total
+    let total: number | undefined;
+    if (pageRequest.page !== null) {
+      const countResult = await query(
+        `SELECT COUNT(*) as total 
+         FROM workspaces w
+         JOIN workspace_members wm ON w.id = wm.workspace_id
+         ${whereClause}`,
+        queryParams
+      );
+      total = parseInt(countResult.rows[0].total);
+    }
 
-    const total = parseInt(countResult.rows[0].total);
-    const totalPages = Math.ceil(total / limit);
+    const { items, pagination } = buildPage(workspacesResult.rows, pageRequest, total);
 
     res.json({
       success: true,
       data: {
-        workspaces: workspacesResult.rows,
-        pagination: {
-          page,
-          limit,
-          total,
-          totalPages,
-          hasNext: page < totalPages,
-          hasPrev: page > 1
-        }
+        workspaces: items,
+        pagination
       }
     });
   } catch (error) {
@@ -205,7 +232,7 @@ router.post('/', authenticateToken, validate(createWorkspaceSchema), async (req:
 router.put('/:id', authenticateToken, requireRole(['admin']), validateParams(paramsSchema), validate(updateWorkspaceSchema), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
-    const { name, description } = req.body;
+    const { name, description, reportingCurrency, timezone } = req.body;
 
     // Check if user is workspace owner or admin
     const workspaceResult = await query(
@@ -244,6 +271,16 @@ router.put('/:id', authenticateToken, requireRole(['admin']), validateParams(par
       values.push(description);
     }
 
+    if (reportingCurrency) {
+      updates.push(`reporting_currency = $${paramCount++}`);
+      values.push(reportingCurrency);
+    }
+
+    if (timezone) {
+      updates.push(`timezone = $${paramCount++}`);
+      values.push(timezone);
+    }
+
     if (updates.length === 0) {
       throw createError('No fields to update', 400);
     }
@@ -282,6 +319,166 @@ router.put('/:id', authenticateToken, requireRole(['admin']), validateParams(par
   }
 });
 
+// Get workspace retention settings
+router.get('/:id/retention', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Check if user has access to workspace
+    const workspaceResult = await query(
+      'SELECT workspace_id FROM workspace_members WHERE workspace_id = $1 AND user_id = $2',
+      [id, req.user!.id]
+    );
+
+    if (workspaceResult.rows.length === 0) {
+      throw createError('Workspace not found', 404);
+    }
+
+    const retention = await getWorkspaceRetention(id);
+
+    res.json({
+      success: true,
+      data: retention
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Preview what the next cleanup run would delete
+router.get('/:id/retention/preview', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Check if user has access to workspace
+    const workspaceResult = await query(
+      'SELECT workspace_id FROM workspace_members WHERE workspace_id = $1 AND user_id = $2',
+      [id, req.user!.id]
+    );
+
+    if (workspaceResult.rows.length === 0) {
+      throw createError('Workspace not found', 404);
+    }
+
+    const preview = await getRetentionPreview(id);
+
+    res.json({
+      success: true,
+      data: preview
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Update workspace retention settings
+router.put('/:id/retention', authenticateToken, requireRole(['admin']), validateParams(paramsSchema), validate(retentionWindowsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Check if user is workspace owner or admin
+    const workspaceResult = await query(
+      `SELECT w.id FROM workspaces w
+       JOIN workspace_members wm ON w.id = wm.workspace_id
+       WHERE w.id = $1 AND wm.user_id = $2 AND (w.owner_id = $2 OR wm.role = 'admin')`,
+      [id, req.user!.id]
+    );
+
+    if (workspaceResult.rows.length === 0) {
+      throw createError('Workspace not found or insufficient permissions', 404);
+    }
+
+    await saveRetentionPolicy(id, null, req.body);
+    const retention = await getWorkspaceRetention(id);
+
+    res.json({
+      success: true,
+      data: retention
+    });
+
+    logger.info(`Retention settings updated for workspace ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Set pixel retention override
+router.put('/:id/retention/pixels/:pixelId', authenticateToken, requireRole(['admin']), validateParams(retentionPixelParamsSchema), validate(retentionWindowsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id, pixelId } = req.params;
+
+    // Check if user is workspace owner or admin
+    const workspaceResult = await query(
+      `SELECT w.id FROM workspaces w
+       JOIN workspace_members wm ON w.id = wm.workspace_id
+       WHERE w.id = $1 AND wm.user_id = $2 AND (w.owner_id = $2 OR wm.role = 'admin')`,
+      [id, req.user!.id]
+    );
+
+    if (workspaceResult.rows.length === 0) {
+      throw createError('Workspace not found or insufficient permissions', 404);
+    }
+
+    // Check if pixel belongs to workspace
+    const pixelResult = await query(
+      'SELECT id FROM pixels WHERE id = $1 AND workspace_id = $2',
+      [pixelId, id]
+    );
+
+    if (pixelResult.rows.length === 0) {
+      throw createError('Pixel not found', 404);
+    }
+
+    const windows = await saveRetentionPolicy(id, pixelId, req.body);
+
+    res.json({
+      success: true,
+      data: { pixelId, ...windows }
+    });
+
+    logger.info(`Retention override updated for pixel ${pixelId} in workspace ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove pixel retention override
+router.delete('/:id/retention/pixels/:pixelId', authenticateToken, requireRole(['admin']), validateParams(retentionPixelParamsSchema), async (req: AuthRequest, res, next) => {
+  try {
+    const { id, pixelId } = req.params;
+
+    // Check if user is workspace owner or admin
+    const workspaceResult = await query(
+      `SELECT w.id FROM workspaces w
+       JOIN workspace_members wm ON w.id = wm.workspace_id
+       WHERE w.id = $1 AND wm.user_id = $2 AND (w.owner_id = $2 OR wm.role = 'admin')`,
+      [id, req.user!.id]
+    );
+
+    if (workspaceResult.rows.length === 0) {
+      throw createError('Workspace not found or insufficient permissions', 404);
+    }
+
+    const deleteResult = await query(
+      'DELETE FROM retention_policies WHERE workspace_id = $1 AND pixel_id = $2',
+      [id, pixelId]
+    );
+
+    if (deleteResult.rowCount === 0) {
+      throw createError('Retention override not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Retention override removed successfully'
+    });
+
+    logger.info(`Retention override removed for pixel ${pixelId} in workspace ${id} by user ${req.user!.id}`);
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Delete workspace
 router.delete('/:id', authenticateToken, validateParams(paramsSchema), async (req: AuthRequest, res, next) => {
   try {
@@ -307,6 +504,7 @@ router.delete('/:id', authenticateToken, validateParams(paramsSchema), async (re
       await query('DELETE FROM diagnostics WHERE pixel_id IN (SELECT id FROM pixels WHERE workspace_id = $1)', [id]);
       await query('DELETE FROM conversions WHERE pixel_id IN (SELECT id FROM pixels WHERE workspace_id = $1)', [id]);
       await query('DELETE FROM events WHERE pixel_id IN (SELECT id FROM pixels WHERE workspace_id = $1)', [id]);
+      await query('DELETE FROM custom_event_definitions WHERE workspace_id = $1', [id]);
       await query('DELETE FROM pixels WHERE workspace_id = $1', [id]);
       await query('DELETE FROM workspace_members WHERE workspace_id = $1', [id]);
       await query('DELETE FROM workspaces WHERE id = $1', [id]);
@@ -329,7 +527,7 @@ router.delete('/:id', authenticateToken, validateParams(paramsSchema), async (re
 });
 
 // Get workspace members
-router.get('/:id/members', authenticateToken, validateParams(paramsSchema), validateQuery(querySchema), async (req: AuthRequest, res, next) => {
+router.get('/:id/members', authenticateToken, validateParams(paramsSchema), validateQuery(membersQuerySchema), async (req: AuthRequest, res, next) => {
   try {
     const { id } = req.params;
     const { page = 1, limit = 20 } = req.query as any;
@@ -144,6 +144,802 @@ const migrations = [
       CREATE INDEX IF NOT EXISTS idx_conversions_pixel_id ON conversions(pixel_id);
       CREATE INDEX IF NOT EXISTS idx_integrations_workspace_id ON integrations(workspace_id);
     `
+  },
+  {
+    name: 'create_event_deliveries',
+    sql: `
+      -- Outbound Conversions API delivery queue
+      CREATE TABLE IF NOT EXISTS event_deliveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        event_id UUID UNIQUE NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+        status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'delivered', 'dead_letter')),
+        attempts INTEGER DEFAULT 0,
+        max_attempts INTEGER DEFAULT 8,
+        next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        last_error TEXT,
+        locked_at TIMESTAMP WITH TIME ZONE,
+        delivered_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_deliveries_status_next_attempt ON event_deliveries(status, next_attempt_at);
+    `
+  },
+  {
+    name: 'add_pixel_public_keys',
+    sql: `
+      -- Publishable keys and allowed origins for the public collect endpoint
+      ALTER TABLE pixels ADD COLUMN IF NOT EXISTS public_key VARCHAR(100) UNIQUE;
+      ALTER TABLE pixels ADD COLUMN IF NOT EXISTS allowed_origins TEXT[] DEFAULT '{}';
+
+      UPDATE pixels
+      SET public_key = 'pk_' || replace(gen_random_uuid()::text, '-', '') || substr(md5(random()::text), 1, 16)
+      WHERE public_key IS NULL;
+    `
+  },
+  {
+    name: 'add_event_deduplication',
+    sql: `
+      -- Client supplied event_id used to deduplicate browser and server events
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS event_id VARCHAR(100);
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS duplicate_count INTEGER DEFAULT 0;
+
+      CREATE INDEX IF NOT EXISTS idx_events_pixel_event_id ON events(pixel_id, event_id) WHERE event_id IS NOT NULL;
+    `
+  },
+  {
+    name: 'add_event_match_score',
+    sql: `
+      -- Match quality score (0-10) computed from the customer information on each event
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS match_score DECIMAL(4,2);
+    `
+  },
+  {
+    name: 'create_custom_event_definitions',
+    sql: `
+      -- Workspace registry of custom events and their parameter schemas
+      CREATE TABLE IF NOT EXISTS custom_event_definitions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        parameters JSONB DEFAULT '{}',
+        standard_event VARCHAR(100),
+        is_active BOOLEAN DEFAULT true,
+        created_by UUID NOT NULL REFERENCES users(id),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE(name, workspace_id)
+      );
+    `
+  },
+  {
+    name: 'create_conversion_matches',
+    sql: `
+      -- Events that satisfied a conversion's event name and rules
+      CREATE TABLE IF NOT EXISTS conversion_matches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        conversion_id UUID NOT NULL REFERENCES conversions(id) ON DELETE CASCADE,
+        event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+        pixel_id UUID NOT NULL REFERENCES pixels(id) ON DELETE CASCADE,
+        value DECIMAL(12,2),
+        currency VARCHAR(3),
+        event_time TIMESTAMP WITH TIME ZONE NOT NULL,
+        matched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE(conversion_id, event_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_conversion_matches_conversion_time ON conversion_matches(conversion_id, event_time);
+      CREATE INDEX IF NOT EXISTS idx_conversion_matches_event_id ON conversion_matches(event_id);
+    `
+  },
+  {
+    name: 'create_conversion_backfills',
+    sql: `
+      -- Background re-evaluation of conversion rules over historical events
+      CREATE TABLE IF NOT EXISTS conversion_backfills (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        conversion_id UUID NOT NULL REFERENCES conversions(id) ON DELETE CASCADE,
+        status VARCHAR(20) DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+        start_date TIMESTAMP WITH TIME ZONE NOT NULL,
+        end_date TIMESTAMP WITH TIME ZONE NOT NULL,
+        total_events INTEGER DEFAULT 0,
+        processed_events INTEGER DEFAULT 0,
+        matched_events INTEGER DEFAULT 0,
+        cursor_time TIMESTAMP WITH TIME ZONE,
+        cursor_id UUID,
+        error_message TEXT,
+        locked_at TIMESTAMP WITH TIME ZONE,
+        created_by UUID NOT NULL REFERENCES users(id),
+        started_at TIMESTAMP WITH TIME ZONE,
+        completed_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_conversion_backfills_conversion_id ON conversion_backfills(conversion_id);
+      CREATE INDEX IF NOT EXISTS idx_conversion_backfills_status ON conversion_backfills(status, created_at);
+    `
+  },
+  {
+    name: 'convert_conversion_rules_to_groups',
+    sql: `
+      -- Flat rule lists become an AND group of the same conditions
+      UPDATE conversions
+      SET rules = jsonb_build_object('combinator', 'and', 'rules', rules)
+      WHERE jsonb_typeof(rules) = 'array';
+
+      ALTER TABLE conversions ALTER COLUMN rules SET DEFAULT '{"combinator": "and", "rules": []}';
+    `
+  },
+  {
+    name: 'add_conversion_value_config',
+    sql: `
+      -- Where a conversion's value comes from: an event parameter or a fixed amount, times a multiplier
+      ALTER TABLE conversions ADD COLUMN IF NOT EXISTS value_config JSONB DEFAULT '{"type": "parameter", "parameter": "value", "multiplier": 1}';
+    `
+  },
+  {
+    name: 'create_exchange_rates',
+    sql: `
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS reporting_currency VARCHAR(3) DEFAULT 'BRL';
+
+      -- Daily exchange rates: 1 base_currency = rate quote_currency.
+      -- Rows without workspace_id are shared; workspace rows override them for that workspace.
+      CREATE TABLE IF NOT EXISTS exchange_rates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE,
+        base_currency VARCHAR(3) NOT NULL,
+        quote_currency VARCHAR(3) NOT NULL,
+        rate DECIMAL(20,10) NOT NULL CHECK (rate > 0),
+        rate_date DATE NOT NULL,
+        source VARCHAR(50) DEFAULT 'manual',
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_workspace_pair_date
+        ON exchange_rates(workspace_id, base_currency, quote_currency, rate_date) WHERE workspace_id IS NOT NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_rates_shared_pair_date
+        ON exchange_rates(base_currency, quote_currency, rate_date) WHERE workspace_id IS NULL;
+
+      -- Convert an amount to a workspace's reporting currency using the closest rate on or before
+      -- the date (or the earliest later rate if none). Amounts without a currency are assumed to be
+      -- in the reporting currency; NULL is returned when no rate is available.
+      CREATE OR REPLACE FUNCTION convert_to_reporting_currency(amount NUMERIC, currency VARCHAR, at_date DATE, ws_id UUID)
+      RETURNS NUMERIC AS $$
+        SELECT CASE
+          WHEN amount IS NULL THEN NULL
+          WHEN currency IS NULL OR currency = w.reporting_currency THEN amount
+          ELSE amount * (
+            SELECT CASE WHEN r.base_currency = w.reporting_currency THEN 1 / r.rate ELSE r.rate END
+            FROM exchange_rates r
+            WHERE ((r.base_currency = w.reporting_currency AND r.quote_currency = currency)
+                OR (r.base_currency = currency AND r.quote_currency = w.reporting_currency))
+              AND (r.workspace_id = ws_id OR r.workspace_id IS NULL)
+            ORDER BY (r.rate_date <= at_date) DESC, ABS(r.rate_date - at_date), (r.workspace_id IS NULL)
+            LIMIT 1
+          )
+        END
+        FROM workspaces w
+        WHERE w.id = ws_id
+      $$ LANGUAGE SQL STABLE;
+    `
+  },
+  {
+    name: 'add_event_attribution_fields',
+    sql: `
+      -- Visitor identifier and marketing touch extracted on ingestion
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS visitor_id VARCHAR(255);
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS utm_source VARCHAR(255);
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS utm_medium VARCHAR(255);
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS utm_campaign VARCHAR(255);
+
+      CREATE INDEX IF NOT EXISTS idx_events_visitor_id_created_at ON events(visitor_id, created_at);
+    `
+  },
+  {
+    name: 'create_funnels',
+    sql: `
+      -- Saved funnel definitions: ordered event steps of a pixel
+      CREATE TABLE IF NOT EXISTS funnels (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        pixel_id UUID NOT NULL REFERENCES pixels(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        steps JSONB NOT NULL DEFAULT '[]',
+        conversion_window_hours INTEGER NOT NULL DEFAULT 168,
+        created_by UUID NOT NULL REFERENCES users(id),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        UNIQUE(name, workspace_id)
+      );
+    `
+  },
+  {
+    name: 'add_workspace_timezone',
+    sql: `
+      -- IANA timezone used to bucket analytics by hour, day, week and month
+      ALTER TABLE workspaces ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+    `
+  },
+  {
+    name: 'create_event_rollups',
+    sql: `
+      -- Event counts per pixel, UTC hour, event name, source and status
+      CREATE TABLE IF NOT EXISTS event_rollups_hourly (
+        pixel_id UUID NOT NULL REFERENCES pixels(id) ON DELETE CASCADE,
+        bucket TIMESTAMP WITH TIME ZONE NOT NULL,
+        event_name VARCHAR(100) NOT NULL,
+        source VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        events BIGINT NOT NULL DEFAULT 0,
+        duplicates BIGINT NOT NULL DEFAULT 0,
+        duplicated_events BIGINT NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (pixel_id, bucket, event_name, source, status)
+      );
+
+      -- The same counts per UTC day
+      CREATE TABLE IF NOT EXISTS event_rollups_daily (
+        pixel_id UUID NOT NULL REFERENCES pixels(id) ON DELETE CASCADE,
+        bucket DATE NOT NULL,
+        event_name VARCHAR(100) NOT NULL,
+        source VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL,
+        events BIGINT NOT NULL DEFAULT 0,
+        duplicates BIGINT NOT NULL DEFAULT 0,
+        duplicated_events BIGINT NOT NULL DEFAULT 0,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (pixel_id, bucket, event_name, source, status)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_rollups_hourly_bucket ON event_rollups_hourly(bucket);
+      CREATE INDEX IF NOT EXISTS idx_event_rollups_daily_bucket ON event_rollups_daily(bucket);
+
+      -- Progress of incremental jobs: everything before the watermark has been processed
+      CREATE TABLE IF NOT EXISTS rollup_watermarks (
+        name VARCHAR(100) PRIMARY KEY,
+        watermark TIMESTAMP WITH TIME ZONE NOT NULL,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+    `
+  },
+  {
+    name: 'partition_events_by_month',
+    sql: `
+      -- Create the monthly partitions of events (UTC months, named events_pYYYY_MM) covering
+      -- [from_date, to_date]. Returns the number of partitions created.
+      CREATE OR REPLACE FUNCTION ensure_event_partitions(from_date TIMESTAMPTZ, to_date TIMESTAMPTZ)
+      RETURNS INTEGER AS $$
+      DECLARE
+        month_start TIMESTAMP := date_trunc('month', from_date AT TIME ZONE 'UTC');
+        partition_name TEXT;
+        created INTEGER := 0;
+      BEGIN
+        WHILE month_start <= to_date AT TIME ZONE 'UTC' LOOP
+          partition_name := 'events_p' || to_char(month_start, 'YYYY_MM');
+          IF to_regclass(partition_name) IS NULL THEN
+            EXECUTE format(
+              'CREATE TABLE %I PARTITION OF events FOR VALUES FROM (%L) TO (%L)',
+              partition_name,
+              month_start AT TIME ZONE 'UTC',
+              (month_start + INTERVAL '1 month') AT TIME ZONE 'UTC'
+            );
+            created := created + 1;
+          END IF;
+          month_start := month_start + INTERVAL '1 month';
+        END LOOP;
+        RETURN created;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      -- Move an unpartitioned events table into a partitioned one. Foreign keys cannot point at
+      -- a partitioned table without its partition key, so deliveries and conversion matches lose
+      -- theirs and are removed by the trigger below instead.
+      DO $$
+      DECLARE
+        first_event TIMESTAMPTZ;
+      BEGIN
+        IF (SELECT relkind FROM pg_class WHERE oid = to_regclass('events')) = 'r' THEN
+          ALTER TABLE event_deliveries DROP CONSTRAINT IF EXISTS event_deliveries_event_id_fkey;
+          ALTER TABLE conversion_matches DROP CONSTRAINT IF EXISTS conversion_matches_event_id_fkey;
+
+          ALTER TABLE events RENAME TO events_unpartitioned;
+          ALTER TABLE events_unpartitioned RENAME CONSTRAINT events_pkey TO events_unpartitioned_pkey;
+          ALTER INDEX IF EXISTS idx_events_pixel_id RENAME TO idx_events_unpartitioned_pixel_id;
+          ALTER INDEX IF EXISTS idx_events_created_at RENAME TO idx_events_unpartitioned_created_at;
+          ALTER INDEX IF EXISTS idx_events_event_name RENAME TO idx_events_unpartitioned_event_name;
+          ALTER INDEX IF EXISTS idx_events_pixel_event_id RENAME TO idx_events_unpartitioned_pixel_event_id;
+          ALTER INDEX IF EXISTS idx_events_visitor_id_created_at RENAME TO idx_events_unpartitioned_visitor_id_created_at;
+
+          CREATE TABLE events (LIKE events_unpartitioned INCLUDING DEFAULTS INCLUDING CONSTRAINTS)
+            PARTITION BY RANGE (created_at);
+          ALTER TABLE events ALTER COLUMN created_at SET NOT NULL;
+          ALTER TABLE events ADD CONSTRAINT events_pkey PRIMARY KEY (id, created_at);
+          ALTER TABLE events ADD CONSTRAINT events_pixel_id_fkey
+            FOREIGN KEY (pixel_id) REFERENCES pixels(id) ON DELETE CASCADE;
+
+          UPDATE events_unpartitioned SET created_at = NOW() WHERE created_at IS NULL;
+          SELECT MIN(created_at) INTO first_event FROM events_unpartitioned;
+          PERFORM ensure_event_partitions(COALESCE(first_event, NOW()), NOW() + INTERVAL '3 months');
+
+          INSERT INTO events SELECT * FROM events_unpartitioned;
+          DROP TABLE events_unpartitioned;
+        END IF;
+      END $$;
+
+      CREATE INDEX IF NOT EXISTS idx_events_pixel_id ON events(pixel_id);
+      CREATE INDEX IF NOT EXISTS idx_events_created_at ON events(created_at);
+      CREATE INDEX IF NOT EXISTS idx_events_event_name ON events(event_name);
+      CREATE INDEX IF NOT EXISTS idx_events_pixel_event_id ON events(pixel_id, event_id) WHERE event_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_events_visitor_id_created_at ON events(visitor_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_events_id ON events(id);
+
+      -- Keep deliveries and conversion matches in step with deleted events
+      CREATE OR REPLACE FUNCTION delete_event_dependents() RETURNS TRIGGER AS $$
+      BEGIN
+        DELETE FROM event_deliveries WHERE event_id = OLD.id;
+        DELETE FROM conversion_matches WHERE event_id = OLD.id;
+        RETURN OLD;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS events_delete_dependents ON events;
+      CREATE TRIGGER events_delete_dependents
+        AFTER DELETE ON events
+        FOR EACH ROW EXECUTE FUNCTION delete_event_dependents();
+
+      SELECT ensure_event_partitions(NOW(), NOW() + INTERVAL '3 months');
+    `
+  },
+  {
+    name: 'create_retention_policies',
+    sql: `
+      -- Retention windows in days: one row per workspace (pixel_id NULL) plus per-pixel overrides.
+      -- NULL windows are inherited from the workspace, then from the server defaults.
+      CREATE TABLE IF NOT EXISTS retention_policies (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        pixel_id UUID REFERENCES pixels(id) ON DELETE CASCADE,
+        events_days INTEGER CHECK (events_days > 0),
+        rollups_days INTEGER CHECK (rollups_days > 0),
+        diagnostics_days INTEGER CHECK (diagnostics_days > 0),
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_retention_policies_workspace
+        ON retention_policies(workspace_id) WHERE pixel_id IS NULL;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_retention_policies_pixel
+        ON retention_policies(pixel_id) WHERE pixel_id IS NOT NULL;
+    `
+  },
+  {
+    name: 'create_realtime_notifications',
+    sql: `
+      -- Publish new events, diagnostics and pixel status changes on the realtime channel.
+      -- Notifications are sent on commit and must stay under 8000 bytes, so event parameters
+      -- are left out.
+      CREATE OR REPLACE FUNCTION notify_realtime_event() RETURNS TRIGGER AS $$
+      BEGIN
+        PERFORM pg_notify('realtime', json_build_object(
+          'type', 'event',
+          'workspace_id', (SELECT workspace_id FROM pixels WHERE id = NEW.pixel_id),
+          'pixel_id', NEW.pixel_id,
+          'data', json_build_object(
+            'id', NEW.id,
+            'pixel_id', NEW.pixel_id,
+            'event_name', NEW.event_name,
+            'event_type', NEW.event_type,
+            'source', NEW.source,
+            'status', NEW.status,
+            'visitor_id', NEW.visitor_id,
+            'utm_source', NEW.utm_source,
+            'created_at', NEW.created_at
+          )
+        )::text);
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE OR REPLACE FUNCTION notify_realtime_diagnostic() RETURNS TRIGGER AS $$
+      BEGIN
+        PERFORM pg_notify('realtime', json_build_object(
+          'type', 'diagnostic',
+          'workspace_id', (SELECT workspace_id FROM pixels WHERE id = NEW.pixel_id),
+          'pixel_id', NEW.pixel_id,
+          'data', json_build_object(
+            'id', NEW.id,
+            'pixel_id', NEW.pixel_id,
+            'action', LOWER(TG_OP),
+            'severity', NEW.severity,
+            'category', NEW.category,
+            'title', NEW.title,
+            'status', NEW.status,
+            'created_at', NEW.created_at,
+            'updated_at', NEW.updated_at
+          )
+        )::text);
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE OR REPLACE FUNCTION notify_realtime_pixel_status() RETURNS TRIGGER AS $$
+      BEGIN
+        PERFORM pg_notify('realtime', json_build_object(
+          'type', 'pixel_status',
+          'workspace_id', NEW.workspace_id,
+          'pixel_id', NEW.id,
+          'data', json_build_object(
+            'id', NEW.id,
+            'name', NEW.name,
+            'status', NEW.status,
+            'previous_status', OLD.status,
+            'is_active', NEW.is_active,
+            'updated_at', NEW.updated_at
+          )
+        )::text);
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS events_notify_realtime ON events;
+      CREATE TRIGGER events_notify_realtime
+        AFTER INSERT ON events
+        FOR EACH ROW EXECUTE FUNCTION notify_realtime_event();
+
+      DROP TRIGGER IF EXISTS diagnostics_notify_realtime ON diagnostics;
+      CREATE TRIGGER diagnostics_notify_realtime
+        AFTER INSERT OR UPDATE OF status ON diagnostics
+        FOR EACH ROW EXECUTE FUNCTION notify_realtime_diagnostic();
+
+      DROP TRIGGER IF EXISTS pixels_notify_realtime ON pixels;
+      CREATE TRIGGER pixels_notify_realtime
+        AFTER UPDATE OF status, is_active ON pixels
+        FOR EACH ROW
+        WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.is_active IS DISTINCT FROM NEW.is_active)
+        EXECUTE FUNCTION notify_realtime_pixel_status();
+    `
+  },
+  {
+    name: 'add_event_test_mode',
+    sql: `
+      -- Events sent with the pixel's test event code are test traffic, kept out of analytics
+      ALTER TABLE pixels ADD COLUMN IF NOT EXISTS test_event_code VARCHAR(50);
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM information_schema.columns
+                       WHERE table_name = 'events' AND column_name = 'is_test') THEN
+          ALTER TABLE events ADD COLUMN is_test BOOLEAN NOT NULL DEFAULT false;
+          -- Events created by the former pixel test endpoint, converted once when the column is added
+          UPDATE events SET is_test = true
+          WHERE event_name = 'TestEvent' AND user_agent = 'Meta Pixel Admin Test' AND parameters->>'test' = 'true';
+        END IF;
+      END $$;
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS test_event_code VARCHAR(50);
+      -- Validation, hashing and test code results, recorded for test events only
+      ALTER TABLE events ADD COLUMN IF NOT EXISTS debug_info JSONB;
+
+      CREATE INDEX IF NOT EXISTS idx_events_pixel_id_test ON events(pixel_id, created_at) WHERE is_test;
+
+      -- Test events are published as test_event, with their debug annotations
+      CREATE OR REPLACE FUNCTION notify_realtime_event() RETURNS TRIGGER AS $$
+      BEGIN
+        PERFORM pg_notify('realtime', json_build_object(
+          'type', CASE WHEN NEW.is_test THEN 'test_event' ELSE 'event' END,
+          'workspace_id', (SELECT workspace_id FROM pixels WHERE id = NEW.pixel_id),
+          'pixel_id', NEW.pixel_id,
+          'data', json_build_object(
+            'id', NEW.id,
+            'pixel_id', NEW.pixel_id,
+            'event_name', NEW.event_name,
+            'event_type', NEW.event_type,
+            'source', NEW.source,
+            'status', NEW.status,
+            'error_message', NEW.error_message,
+            'visitor_id', NEW.visitor_id,
+            'utm_source', NEW.utm_source,
+            'match_score', NEW.match_score,
+            'test_event_code', NEW.test_event_code,
+            'debug_info', NEW.debug_info,
+            'created_at', NEW.created_at
+          )
+        )::text);
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      -- Delivery outcomes of test events, for the debugger
+      CREATE OR REPLACE FUNCTION notify_realtime_test_delivery() RETURNS TRIGGER AS $$
+      DECLARE
+        event_pixel_id UUID;
+      BEGIN
+        SELECT pixel_id INTO event_pixel_id FROM events WHERE id = NEW.event_id AND is_test;
+        IF event_pixel_id IS NOT NULL THEN
+          PERFORM pg_notify('realtime', json_build_object(
+            'type', 'test_delivery',
+            'workspace_id', (SELECT workspace_id FROM pixels WHERE id = event_pixel_id),
+            'pixel_id', event_pixel_id,
+            'data', json_build_object(
+              'event_id', NEW.event_id,
+              'pixel_id', event_pixel_id,
+              'status', NEW.status,
+              'attempts', NEW.attempts,
+              'last_error', NEW.last_error,
+              'next_attempt_at', NEW.next_attempt_at,
+              'delivered_at', NEW.delivered_at
+            )
+          )::text);
+        END IF;
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS event_deliveries_notify_realtime ON event_deliveries;
+      CREATE TRIGGER event_deliveries_notify_realtime
+        AFTER INSERT OR UPDATE OF status ON event_deliveries
+        FOR EACH ROW EXECUTE FUNCTION notify_realtime_test_delivery();
+    `
+  },
+  {
+    name: 'create_event_exports',
+    sql: `
+      -- Asynchronous exports of filtered events to a downloadable file
+      CREATE TABLE IF NOT EXISTS event_exports (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        format VARCHAR(20) NOT NULL CHECK (format IN ('csv', 'ndjson', 'parquet')),
+        filters JSONB DEFAULT '{}',
+        status VARCHAR(20) DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'expired')),
+        row_count INTEGER DEFAULT 0,
+        file_size BIGINT,
+        storage_key VARCHAR(500),
+        error_message TEXT,
+        locked_at TIMESTAMP WITH TIME ZONE,
+        created_by UUID NOT NULL REFERENCES users(id),
+        started_at TIMESTAMP WITH TIME ZONE,
+        completed_at TIMESTAMP WITH TIME ZONE,
+        expires_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_exports_workspace_id ON event_exports(workspace_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_event_exports_status ON event_exports(status, created_at);
+    `
+  },
+  {
+    name: 'create_event_imports',
+    sql: `
+      -- Background imports of historical events from uploaded CSV or NDJSON files
+      CREATE TABLE IF NOT EXISTS event_imports (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+        pixel_id UUID NOT NULL REFERENCES pixels(id) ON DELETE CASCADE,
+        format VARCHAR(20) NOT NULL CHECK (format IN ('csv', 'ndjson')),
+        mapping JSONB NOT NULL,
+        forward BOOLEAN DEFAULT false,
+        file_name VARCHAR(255) NOT NULL,
+        file_path VARCHAR(500) NOT NULL,
+        file_size BIGINT,
+        status VARCHAR(20) DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+        processed_rows INTEGER DEFAULT 0,
+        imported_rows INTEGER DEFAULT 0,
+        duplicate_rows INTEGER DEFAULT 0,
+        failed_rows INTEGER DEFAULT 0,
+        first_event_at TIMESTAMP WITH TIME ZONE,
+        last_event_at TIMESTAMP WITH TIME ZONE,
+        error_message TEXT,
+        locked_at TIMESTAMP WITH TIME ZONE,
+        created_by UUID NOT NULL REFERENCES users(id),
+        started_at TIMESTAMP WITH TIME ZONE,
+        completed_at TIMESTAMP WITH TIME ZONE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_imports_workspace_id ON event_imports(workspace_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_event_imports_status ON event_imports(status, created_at);
+
+      -- Rows that could not be imported, or were stored as error events (event_id set)
+      CREATE TABLE IF NOT EXISTS event_import_errors (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        import_id UUID NOT NULL REFERENCES event_imports(id) ON DELETE CASCADE,
+        row_number INTEGER NOT NULL,
+        errors JSONB NOT NULL DEFAULT '[]',
+        event_id UUID,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_import_errors_import_id ON event_import_errors(import_id, row_number);
+    `
+  },
+  {
+    name: 'create_event_dedup_keys',
+    sql: `
+      -- Latest event stored for each client event_id. Events are partitioned by created_at, so
+      -- uniqueness of the event_id is enforced here: a concurrent repeat waits on the key and is
+      -- then recorded as a duplicate.
+      CREATE TABLE IF NOT EXISTS event_dedup_keys (
+        pixel_id UUID NOT NULL REFERENCES pixels(id) ON DELETE CASCADE,
+        event_name VARCHAR(100) NOT NULL,
+        event_id VARCHAR(100) NOT NULL,
+        is_test BOOLEAN NOT NULL,
+        -- id and created_at of the event holding the key
+        event_ref UUID NOT NULL,
+        event_time TIMESTAMP WITH TIME ZONE NOT NULL,
+        PRIMARY KEY (pixel_id, event_name, event_id, is_test)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_event_dedup_keys_event_ref ON event_dedup_keys(event_ref);
+      CREATE INDEX IF NOT EXISTS idx_event_dedup_keys_event_time ON event_dedup_keys(event_time);
+
+      -- Keys of recent events stored before the table existed
+      INSERT INTO event_dedup_keys (pixel_id, event_name, event_id, is_test, event_ref, event_time)
+      SELECT DISTINCT ON (pixel_id, event_name, event_id, is_test) pixel_id, event_name, event_id, is_test, id, created_at
+      FROM events
+      WHERE event_id IS NOT NULL
+        AND created_at > NOW() - INTERVAL '7 days'
+        AND NOT EXISTS (SELECT 1 FROM event_dedup_keys)
+      ORDER BY pixel_id, event_name, event_id, is_test, created_at DESC
+      ON CONFLICT DO NOTHING;
+
+      CREATE OR REPLACE FUNCTION delete_event_dependents() RETURNS TRIGGER AS $$
+      BEGIN
+        DELETE FROM event_deliveries WHERE event_id = OLD.id;
+        DELETE FROM conversion_matches WHERE event_id = OLD.id;
+        DELETE FROM event_dedup_keys WHERE event_ref = OLD.id;
+        RETURN OLD;
+      END;
+      $$ LANGUAGE plpgsql;
+    `
+  },
+  {
+    name: 'widen_conversion_values',
+    sql: `
+      -- Values in currencies such as IDR or VND overflow DECIMAL(12,2)
+      DO $$
+      BEGIN
+        IF (SELECT numeric_precision FROM information_schema.columns
+            WHERE table_name = 'conversion_matches' AND column_name = 'value') < 18 THEN
+          ALTER TABLE conversion_matches ALTER COLUMN value TYPE NUMERIC(18,2);
+        END IF;
+        IF (SELECT numeric_precision FROM information_schema.columns
+            WHERE table_name = 'pixels' AND column_name = 'revenue') < 18 THEN
+          ALTER TABLE pixels ALTER COLUMN revenue TYPE NUMERIC(18,2);
+        END IF;
+      END $$;
+    `
+  },
+  {
+    name: 'queue_conversion_history_backfills',
+    sql: `
+      -- Conversions and revenue are read from conversion_matches, which only holds events
+      -- evaluated since it was created. Conversions with earlier events and neither matches
+      -- nor backfills get a backfill over their pixel's history. Runs once: the watermark row
+      -- records that conversions created before it were queued.
+      DO $$
+      BEGIN
+        INSERT INTO rollup_watermarks (name, watermark) VALUES ('conversion_history_backfills', NOW())
+        ON CONFLICT (name) DO NOTHING;
+        IF FOUND THEN
+          INSERT INTO conversion_backfills (conversion_id, start_date, end_date, created_by)
+          SELECT c.id, history.first_event, NOW(), c.created_by
+          FROM conversions c
+          JOIN LATERAL (
+            SELECT MIN(e.created_at) as first_event FROM events e WHERE e.pixel_id = c.pixel_id
+          ) history ON history.first_event < c.created_at
+          WHERE NOT EXISTS (SELECT 1 FROM conversion_backfills b WHERE b.conversion_id = c.id)
+            AND NOT EXISTS (SELECT 1 FROM conversion_matches cm WHERE cm.conversion_id = c.id);
+        END IF;
+      END $$;
+    `
+  },
+  {
+    name: 'apply_event_changes_to_rollups',
+    sql: `
+      -- Add one event (sign 1) or take it away (sign -1) from the hourly and daily rollups
+      CREATE OR REPLACE FUNCTION add_to_event_rollups(
+        event_pixel_id UUID, event_created_at TIMESTAMPTZ, event_name VARCHAR, event_source VARCHAR,
+        event_status VARCHAR, sign INTEGER, duplicate_count INTEGER
+      ) RETURNS VOID AS $$
+        INSERT INTO event_rollups_hourly AS r (pixel_id, bucket, event_name, source, status, events, duplicates, duplicated_events, updated_at)
+        VALUES (
+          event_pixel_id, date_trunc('hour', event_created_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC', event_name, event_source,
+          event_status, sign, sign * duplicate_count, CASE WHEN duplicate_count > 0 THEN sign ELSE 0 END, NOW()
+        )
+        ON CONFLICT (pixel_id, bucket, event_name, source, status) DO UPDATE SET
+          events = r.events + EXCLUDED.events,
+          duplicates = r.duplicates + EXCLUDED.duplicates,
+          duplicated_events = r.duplicated_events + EXCLUDED.duplicated_events,
+          updated_at = NOW();
+
+        INSERT INTO event_rollups_daily AS r (pixel_id, bucket, event_name, source, status, events, duplicates, duplicated_events, updated_at)
+        VALUES (
+          event_pixel_id, (event_created_at AT TIME ZONE 'UTC')::date, event_name, event_source,
+          event_status, sign, sign * duplicate_count, CASE WHEN duplicate_count > 0 THEN sign ELSE 0 END, NOW()
+        )
+        ON CONFLICT (pixel_id, bucket, event_name, source, status) DO UPDATE SET
+          events = r.events + EXCLUDED.events,
+          duplicates = r.duplicates + EXCLUDED.duplicates,
+          duplicated_events = r.duplicated_events + EXCLUDED.duplicated_events,
+          updated_at = NOW();
+      $$ LANGUAGE sql;
+
+      -- Apply changes to events before the rollup watermark as they happen: delivery outcomes,
+      -- dead-letter replays and repeats counted by deduplication, and inserted events on
+      -- INSERT. Later events are left to the next rollup run.
+      CREATE OR REPLACE FUNCTION apply_event_rollup_changes() RETURNS TRIGGER AS $$
+      BEGIN
+        -- The watermark never passes the current hour
+        IF NEW.is_test OR NEW.created_at >= date_trunc('hour', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC' THEN
+          RETURN NULL;
+        END IF;
+
+        -- Rollup runs take this lock exclusively, so they see either all or none of the change
+        PERFORM pg_advisory_xact_lock_shared(hashtext('event_rollups'));
+        IF NOT COALESCE(NEW.created_at < (SELECT watermark FROM rollup_watermarks WHERE name = 'event_rollups'), false) THEN
+          RETURN NULL;
+        END IF;
+
+        IF TG_OP = 'UPDATE' THEN
+          PERFORM add_to_event_rollups(OLD.pixel_id, OLD.created_at, OLD.event_name, OLD.source, OLD.status, -1, COALESCE(OLD.duplicate_count, 0));
+        END IF;
+        PERFORM add_to_event_rollups(NEW.pixel_id, NEW.created_at, NEW.event_name, NEW.source, NEW.status, 1, COALESCE(NEW.duplicate_count, 0));
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS events_apply_rollup_changes ON events;
+      CREATE TRIGGER events_apply_rollup_changes
+        AFTER UPDATE OF status, duplicate_count ON events
+        FOR EACH ROW
+        WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.duplicate_count IS DISTINCT FROM NEW.duplicate_count)
+        EXECUTE FUNCTION apply_event_rollup_changes();
+    `
+  },
+  {
+    name: 'publish_realtime_events_in_batches',
+    sql: `
+      -- New events are published by ingestion, one notification per batch: a notification per
+      -- inserted row serialized ingestion on the commit lock and flooded streams with imports
+      DROP TRIGGER IF EXISTS events_notify_realtime ON events;
+      DROP FUNCTION IF EXISTS notify_realtime_event();
+    `
+  },
+  {
+    name: 'add_inserted_events_to_rollups',
+    sql: `
+      -- Events inserted before the watermark, such as imported history, are added to the
+      -- rollups as they are stored. Rebuilding their hours from raw events instead would drop
+      -- the counts of events already removed by retention.
+      DROP TRIGGER IF EXISTS events_add_to_rollups ON events;
+      CREATE TRIGGER events_add_to_rollups
+        AFTER INSERT ON events
+        FOR EACH ROW EXECUTE FUNCTION apply_event_rollup_changes();
+    `
+  },
+  {
+    name: 'add_imported_event_status',
+    sql: `
+      -- Events imported without forwarding were never delivered, so they are kept apart from
+      -- successful deliveries
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM pg_constraint
+          WHERE conrelid = 'events'::regclass AND conname = 'events_status_check'
+            AND pg_get_constraintdef(oid) LIKE '%imported%'
+        ) THEN
+          ALTER TABLE events DROP CONSTRAINT IF EXISTS events_status_check;
+          ALTER TABLE events ADD CONSTRAINT events_status_check
+            CHECK (status IN ('success', 'error', 'pending', 'imported'));
+        END IF;
+      END $$;
+    `
   }
 ];
 
@@ -0,0 +1,42 @@
+import { connectDatabase, closeDatabase } from '../config/database';
+import { logger } from '../utils/logger';
+import { rebuildEventRollups } from '../services/eventRollups';
+
+// Usage: npm run rollups:rebuild -- <from> <to>, with ISO dates such as 2024-01-01
+async function rebuildRollups(fromArg?: string, toArg?: string) {
+  const from = new Date(fromArg || '');
+  const to = new Date(toArg || '');
+
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    throw new Error('Usage: rebuildRollups <from> <to> (ISO dates, from before to)');
+  }
+
+  try {
+    await connectDatabase();
+    logger.info(`Rebuilding event rollups from ${from.toISOString()} to ${to.toISOString()}...`);
+
+    const rows = await rebuildEventRollups(from, to);
+
+    logger.info(`Event rollups rebuilt: ${rows} hourly rows`);
+  } catch (error) {
+    logger.error('Rollup rebuild failed:', error);
+    throw error;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+// Run the rebuild if this file is executed directly
+if (require.main === module) {
+  rebuildRollups(process.argv[2], process.argv[3])
+    .then(() => {
+      console.log('Rollup rebuild completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Rollup rebuild failed:', error);
+      process.exit(1);
+    });
+}
+
+export { rebuildRollups };
@@ -0,0 +1,178 @@
+import { query } from '../config/database';
+import {
+  AnalyticsPeriod,
+  analyticsPeriodKeys,
+  bucketSeriesSql,
+  bucketSql,
+  compareTotals,
+  eventCountResolution,
+  getTimelineBucketCount,
+  isValidTimezone,
+  isWholeHourTimezone,
+  resolveAnalyticsPeriod,
+  startOfTodaySql
+} from './analyticsPeriod';
+import Joi from 'joi';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockedQuery = query as jest.Mock;
+
+describe('resolveAnalyticsPeriod', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedQuery.mockResolvedValue({ rows: [{ timezone: 'Europe/Berlin' }] });
+  });
+
+  it('uses an explicit range and timezone without reading the workspace', async () => {
+    const period = await resolveAnalyticsPeriod('workspace', {
+      from: '2024-01-01T00:00:00Z',
+      to: '2024-01-31T00:00:00Z',
+      timezone: 'America/Sao_Paulo'
+    });
+
+    expect(period).toEqual({
+      from: new Date('2024-01-01T00:00:00Z'),
+      to: new Date('2024-01-31T00:00:00Z'),
+      granularity: 'day',
+      timezone: 'America/Sao_Paulo',
+      comparison: null
+    });
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+
+  it('defaults to the last 7 days in the workspace timezone', async () => {
+    const period = await resolveAnalyticsPeriod('workspace', {});
+
+    expect(period.to.getTime() - period.from.getTime()).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(period.timezone).toBe('Europe/Berlin');
+    expect(mockedQuery).toHaveBeenCalledWith(expect.stringContaining('FROM workspaces'), ['workspace']);
+  });
+
+  it('falls back to UTC when the workspace has no timezone', async () => {
+    mockedQuery.mockResolvedValue({ rows: [{ timezone: null }] });
+
+    expect((await resolveAnalyticsPeriod('workspace', { timeframe: '24h' })).timezone).toBe('UTC');
+  });
+
+  it.each([
+    ['1h', 'hour'],
+    ['30d', 'day']
+  ])('picks a granularity for the %s timeframe', async (timeframe, granularity) => {
+    expect((await resolveAnalyticsPeriod('workspace', { timeframe })).granularity).toBe(granularity);
+  });
+
+  it.each([
+    ['2022-01-01T00:00:00Z', 'week'],
+    ['2020-01-01T00:00:00Z', 'month']
+  ])('picks a coarser granularity for long ranges from %s', async (from, granularity) => {
+    const period = await resolveAnalyticsPeriod('workspace', { from, to: '2024-01-01T00:00:00Z', timezone: 'UTC' });
+
+    expect(period.granularity).toBe(granularity);
+  });
+
+  it('compares with the previous period', async () => {
+    const period = await resolveAnalyticsPeriod('workspace', {
+      from: '2024-03-08T00:00:00Z',
+      to: '2024-03-15T00:00:00Z',
+      timezone: 'UTC',
+      compare: 'previous_period'
+    });
+
+    expect(period.comparison).toEqual({
+      mode: 'previous_period',
+      from: new Date('2024-03-01T00:00:00Z'),
+      to: new Date('2024-03-08T00:00:00Z')
+    });
+  });
+
+  it('compares with the same dates of the previous year', async () => {
+    const period = await resolveAnalyticsPeriod('workspace', {
+      from: '2024-02-01T00:00:00Z',
+      to: '2024-03-01T00:00:00Z',
+      timezone: 'UTC',
+      compare: 'previous_year'
+    });
+
+    expect(period.comparison).toEqual({
+      mode: 'previous_year',
+      from: new Date('2023-02-01T00:00:00Z'),
+      to: new Date('2023-03-01T00:00:00Z')
+    });
+  });
+});
+
+describe('analyticsPeriodKeys', () => {
+  const schema = Joi.object(analyticsPeriodKeys);
+
+  it('accepts IANA timezones only', () => {
+    expect(isValidTimezone('Asia/Kolkata')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus')).toBe(false);
+    expect(schema.validate({ timezone: 'Mars/Olympus' }).error?.message).toContain('is not a valid timezone');
+  });
+
+  it('requires to after from', () => {
+    expect(schema.validate({ from: '2024-03-02T00:00:00Z', to: '2024-03-01T00:00:00Z' }).error).toBeDefined();
+    expect(schema.validate({ from: '2024-03-01T00:00:00Z', to: '2024-03-02T00:00:00Z' }).error).toBeUndefined();
+  });
+});
+
+describe('eventCountResolution', () => {
+  it.each(['UTC', 'America/Sao_Paulo', 'Europe/Berlin', 'Asia/Tokyo'])('reads hourly rollups in %s', (timezone) => {
+    expect(isWholeHourTimezone(timezone)).toBe(true);
+    expect(eventCountResolution(timezone)).toBe('hour');
+  });
+
+  it.each(['Asia/Kolkata', 'Asia/Kathmandu', 'Australia/Adelaide', 'Australia/Lord_Howe'])('reads raw events in %s', (timezone) => {
+    expect(isWholeHourTimezone(timezone)).toBe(false);
+    expect(eventCountResolution(timezone)).toBe('minute');
+  });
+});
+
+describe('getTimelineBucketCount', () => {
+  const period = (granularity: AnalyticsPeriod['granularity'], days: number): AnalyticsPeriod => ({
+    from: new Date('2024-01-01T00:00:00Z'),
+    to: new Date(Date.UTC(2024, 0, 1 + days)),
+    granularity,
+    timezone: 'UTC',
+    comparison: null
+  });
+
+  it('counts the buckets of the period, rounding up', () => {
+    expect(getTimelineBucketCount(period('hour', 2))).toBe(48);
+    expect(getTimelineBucketCount(period('day', 31))).toBe(31);
+    expect(getTimelineBucketCount(period('week', 10))).toBe(2);
+  });
+});
+
+describe('bucket SQL', () => {
+  it('truncates in the requested timezone and converts back to a timestamp', () => {
+    expect(bucketSql('e.created_at', 'day', '$3')).toBe(
+      `(date_trunc('day', e.created_at AT TIME ZONE $3::text) AT TIME ZONE $3::text)`
+    );
+  });
+
+  it('generates every bucket of the range, excluding the end', () => {
+    const sql = bucketSeriesSql('week', '$1', '$2', '$3');
+
+    expect(sql).toContain(`date_trunc('week', $1::timestamptz AT TIME ZONE $3::text)`);
+    expect(sql).toContain(`$2::timestamptz AT TIME ZONE $3::text - INTERVAL '1 microsecond'`);
+    expect(sql).toContain(`INTERVAL '1 week'`);
+    expect(sql).toMatch(/^\(SELECT bucket AT TIME ZONE \$3::text as bucket/);
+  });
+
+  it('starts today in the requested timezone', () => {
+    expect(startOfTodaySql('$4')).toBe(`(date_trunc('day', NOW() AT TIME ZONE $4::text) AT TIME ZONE $4::text)`);
+  });
+});
+
+describe('compareTotals', () => {
+  it('reports the change of each metric', () => {
+    expect(compareTotals({ events: 150, revenue: 10 }, { events: 100, revenue: 0 })).toEqual({
+      events: { current: 150, previous: 100, change: 50, changePercent: 50 },
+      revenue: { current: 10, previous: 0, change: 10, changePercent: null }
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import Joi from 'joi';
+import { query } from '../config/database';
+import { EventCountResolution } from './eventRollups';
+
+export const ANALYTICS_GRANULARITIES = ['hour', 'day', 'week', 'month'] as const;
+
+export type AnalyticsGranularity = typeof ANALYTICS_GRANULARITIES[number];
+
+export const COMPARISON_MODES = ['previous_period', 'previous_year'] as const;
+
+export type ComparisonMode = typeof COMPARISON_MODES[number];
+
+export interface AnalyticsPeriod {
+  from: Date;
+  to: Date;
+  granularity: AnalyticsGranularity;
+  timezone: string;
+  comparison: { mode: ComparisonMode; from: Date; to: Date } | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Relative periods accepted before explicit from/to existed, ending now
+const TIMEFRAMES: Record<string, number> = {
+  '1h': HOUR_MS,
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS
+};
+
+const GRANULARITY_MS: Record<AnalyticsGranularity, number> = {
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS
+};
+
+// Longest timeline returned in one response
+export const MAX_TIMELINE_BUCKETS = 1000;
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Offset from UTC in minutes of a timezone at a date
+const getUtcOffsetMinutes = (timezone: string, date: Date): number => {
+  const offset = new Intl.DateTimeFormat('en-US', { timeZone: timezone, timeZoneName: 'longOffset' })
+    .formatToParts(date)
+    .find((part) => part.type === 'timeZoneName')?.value;
+  const match = /^GMT([+-])(\d{2}):(\d{2})$/.exec(offset || '');
+  return match ? (match[1] === '-' ? -1 : 1) * (parseInt(match[2]) * 60 + parseInt(match[3])) : 0;
+};
+
+// Whether the timezone is a whole number of hours from UTC, in winter and in summer
+export const isWholeHourTimezone = (timezone: string): boolean => {
+  const year = new Date().getUTCFullYear();
+  return [0, 6].every((month) => getUtcOffsetMinutes(timezone, new Date(Date.UTC(year, month, 1))) % 60 === 0);
+};
+
+// Resolution of the event counts to group into buckets of the timezone. Rollups are bucketed
+// by UTC hour, which only lines up with local hours in whole-hour timezones; others, such as
+// Asia/Kolkata (+5:30), Asia/Kathmandu (+5:45) or Australia/Adelaide (+9:30), are counted
+// from raw events.
+export const eventCountResolution = (timezone: string): EventCountResolution =>
+  isWholeHourTimezone(timezone) ? 'hour' : 'minute';
+
+// IANA timezone name, such as America/Sao_Paulo
+export const timezoneSchema = Joi.string().max(64).custom((value, helpers) =>
+  isValidTimezone(value) ? value : helpers.message({ custom: `"${value}" is not a valid timezone` })
+);
+
+// Query parameters shared by the analytics endpoints
+export const analyticsPeriodKeys = {
+  timeframe: Joi.string().valid(...Object.keys(TIMEFRAMES)).optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().when('from', { is: Joi.exist(), then: Joi.date().greater(Joi.ref('from')) }).optional(),
+  granularity: Joi.string().valid(...ANALYTICS_GRANULARITIES).optional(),
+  timezone: timezoneSchema.optional(),
+  compare: Joi.string().valid(...COMPARISON_MODES).optional()
+};
+
+const getDefaultGranularity = (from: Date, to: Date): AnalyticsGranularity => {
+  const span = to.getTime() - from.getTime();
+  if (span <= 2 * DAY_MS) {
+    return 'hour';
+  }
+  if (span <= 180 * DAY_MS) {
+    return 'day';
+  }
+  return span <= 730 * DAY_MS ? 'week' : 'month';
+};
+
+const getComparisonRange = (mode: ComparisonMode, from: Date, to: Date) => {
+  if (mode === 'previous_year') {
+    const shift = (date: Date) => {
+      const shifted = new Date(date);
+      shifted.setUTCFullYear(shifted.getUTCFullYear() - 1);
+      return shifted;
+    };
+    return { mode, from: shift(from), to: shift(to) };
+  }
+  return { mode, from: new Date(from.getTime() - (to.getTime() - from.getTime())), to: new Date(from) };
+};
+
+// Timezone analytics of the workspace are reported in, UTC when unset
+export const getWorkspaceTimezone = async (workspaceId: string): Promise<string> => {
+  const workspaceResult = await query('SELECT timezone FROM workspaces WHERE id = $1', [workspaceId]);
+  return workspaceResult.rows[0]?.timezone || 'UTC';
+};
+
+// Resolve the requested period. Without from/to the timeframe (default 7d) ending now is used,
+// and without a timezone the workspace timezone.
+export const resolveAnalyticsPeriod = async (workspaceId: string, params: Record<string, any>): Promise<AnalyticsPeriod> => {
+  const to = params.to ? new Date(params.to) : new Date();
+  const from = params.from
+    ? new Date(params.from)
+    : new Date(to.getTime() - (TIMEFRAMES[params.timeframe] || TIMEFRAMES['7d']));
+
+  return {
+    from,
+    to,
+    granularity: params.granularity || getDefaultGranularity(from, to),
+    timezone: params.timezone || await getWorkspaceTimezone(workspaceId),
+    comparison: params.compare ? getComparisonRange(params.compare, from, to) : null
+  };
+};
+
+export const getTimelineBucketCount = (period: AnalyticsPeriod): number =>
+  Math.ceil((period.to.getTime() - period.from.getTime()) / GRANULARITY_MS[period.granularity]);
+
+// Start of the bucket holding a timestamp column, bucketed in the timezone held by tzParam
+export const bucketSql = (column: string, granularity: AnalyticsGranularity, tzParam: string): string =>
+  `(date_trunc('${granularity}', ${column} AT TIME ZONE ${tzParam}::text) AT TIME ZONE ${tzParam}::text)`;
+
+// Every bucket start between two timestamp parameters, so the timeline has no gaps
+export const bucketSeriesSql = (granularity: AnalyticsGranularity, fromParam: string, toParam: string, tzParam: string): string =>
+  `(SELECT bucket AT TIME ZONE ${tzParam}::text as bucket
+    FROM generate_series(
+      date_trunc('${granularity}', ${fromParam}::timestamptz AT TIME ZONE ${tzParam}::text),
+      ${toParam}::timestamptz AT TIME ZONE ${tzParam}::text - INTERVAL '1 microsecond',
+      INTERVAL '1 ${granularity}'
+    ) as series(bucket))`;
+
+// Start of the current day in the timezone held by tzParam
+export const startOfTodaySql = (tzParam: string): string =>
+  `(date_trunc('day', NOW() AT TIME ZONE ${tzParam}::text) AT TIME ZONE ${tzParam}::text)`;
+
+// Change of each metric against the comparison period
+export const compareTotals = (current: Record<string, number>, previous: Record<string, number>) =>
+  Object.fromEntries(Object.keys(current).map((key) => {
+    const change = current[key] - previous[key];
+    return [key, {
+      current: current[key],
+      previous: previous[key],
+      change: Math.round(change * 100) / 100,
+      changePercent: previous[key] ? Math.round((change / previous[key]) * 10000) / 100 : null
+    }];
+  }));
+
+// Period metadata included in analytics responses
+export const describePeriod = (period: AnalyticsPeriod) => ({
+  from: period.from,
+  to: period.to,
+  granularity: period.granularity,
+  timezone: period.timezone
+});
@@ -0,0 +1,151 @@
+import { query } from '../config/database';
+import { AttributionOptions, extractTouch, getAttributionReport, getTouchWeights, getVisitorId } from './attribution';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockedQuery = query as jest.Mock;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONVERSION_TIME = new Date('2024-03-10T12:00:00Z').getTime();
+
+// Touches 9, 5 and 1 days before the conversion, oldest first
+const touchTimes = [9, 5, 1].map((days) => CONVERSION_TIME - days * DAY_MS);
+
+const sum = (weights: number[]) => weights.reduce((total, weight) => total + weight, 0);
+
+describe('getTouchWeights', () => {
+  it('credits the first or the last touch only', () => {
+    expect(getTouchWeights('first_touch', touchTimes, CONVERSION_TIME, 7)).toEqual([1, 0, 0]);
+    expect(getTouchWeights('last_touch', touchTimes, CONVERSION_TIME, 7)).toEqual([0, 0, 1]);
+  });
+
+  it('splits the credit evenly for linear', () => {
+    expect(getTouchWeights('linear', touchTimes, CONVERSION_TIME, 7)).toEqual([1 / 3, 1 / 3, 1 / 3]);
+  });
+
+  it('halves the credit for every half-life before the conversion', () => {
+    const weights = getTouchWeights('time_decay', [CONVERSION_TIME - 14 * DAY_MS, CONVERSION_TIME - 7 * DAY_MS, CONVERSION_TIME], CONVERSION_TIME, 7);
+
+    expect(weights.map((weight) => weight * 7)).toEqual([1, 2, 4].map((expected) => expect.closeTo(expected, 10)));
+    expect(sum(weights)).toBeCloseTo(1, 10);
+  });
+
+  it('gives 40% to the first and last touches and splits the rest for position-based', () => {
+    expect(getTouchWeights('position_based', touchTimes, CONVERSION_TIME, 7)).toEqual([0.4, expect.closeTo(0.2, 10), 0.4]);
+
+    const fourTouches = getTouchWeights('position_based', [...touchTimes, CONVERSION_TIME], CONVERSION_TIME, 7);
+    expect(fourTouches).toEqual([0.4, expect.closeTo(0.1, 10), expect.closeTo(0.1, 10), 0.4]);
+    expect(sum(fourTouches)).toBeCloseTo(1, 10);
+  });
+
+  it('splits evenly between one or two touches for position-based', () => {
+    expect(getTouchWeights('position_based', touchTimes.slice(0, 1), CONVERSION_TIME, 7)).toEqual([1]);
+    expect(getTouchWeights('position_based', touchTimes.slice(0, 2), CONVERSION_TIME, 7)).toEqual([0.5, 0.5]);
+  });
+
+  it('returns no weights without touches', () => {
+    expect(getTouchWeights('linear', [], CONVERSION_TIME, 7)).toEqual([]);
+  });
+});
+
+describe('extractTouch', () => {
+  it('reads UTM parameters from the event or its page URL', () => {
+    expect(extractTouch({ utm_source: 'Google', utm_medium: 'CPC', utm_campaign: 'Spring' }))
+      .toEqual({ source: 'google', medium: 'cpc', campaign: 'Spring' });
+    expect(extractTouch({ event_source_url: 'https://shop.example.com/?utm_source=newsletter&utm_campaign=march' }))
+      .toEqual({ source: 'newsletter', medium: null, campaign: 'march' });
+  });
+
+  it('attributes Meta click ids to paid social', () => {
+    expect(extractTouch({ url: 'https://shop.example.com/?fbclid=abc' })).toEqual({ source: 'facebook', medium: 'paid_social', campaign: null });
+  });
+
+  it('returns null without a source', () => {
+    expect(extractTouch({ utm_campaign: 'march' })).toBeNull();
+    expect(extractTouch({ event_source_url: 'not a url' })).toBeNull();
+  });
+});
+
+describe('getVisitorId', () => {
+  it('prefers the visitor id, then the external id, then the browser cookie', () => {
+    expect(getVisitorId({ visitor_id: 'v1', user_data: { external_id: ['x1'], fbp: 'fb.1' } })).toBe('v1');
+    expect(getVisitorId({ user_data: { external_id: ['x1'], fbp: 'fb.1' } })).toBe('x1');
+    expect(getVisitorId({ user_data: { fbp: 'fb.1' } })).toBe('fb.1');
+    expect(getVisitorId({})).toBeNull();
+  });
+});
+
+describe('getAttributionReport', () => {
+  const options: AttributionOptions = {
+    startDate: new Date('2024-03-01T00:00:00Z'),
+    endDate: new Date('2024-03-31T00:00:00Z'),
+    lookbackDays: 30,
+    halfLifeDays: 7,
+    groupBy: 'source',
+    maxConversions: 10
+  };
+
+  const daysBefore = (days: number) => new Date(CONVERSION_TIME - days * DAY_MS);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const mockJourneys = (conversions: any[], touches: any[]) => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: conversions })
+      .mockResolvedValueOnce({ rows: touches });
+  };
+
+  const modelsOf = (report: any, source: string) => report.results.find((row: any) => row.source === source)?.models;
+
+  it('credits the touches of the lookback window under every model', async () => {
+    mockJourneys(
+      [{ id: 'c1', event_time: new Date(CONVERSION_TIME), visitor_id: 'v1', value: '100.00' }],
+      [
+        // Older than the lookback window
+        { visitor_id: 'v1', created_at: daysBefore(45), utm_source: 'bing' },
+        { visitor_id: 'v1', created_at: daysBefore(9), utm_source: 'google' },
+        { visitor_id: 'v1', created_at: daysBefore(5), utm_source: 'newsletter' },
+        { visitor_id: 'v1', created_at: daysBefore(1), utm_source: 'facebook' }
+      ]
+    );
+
+    const report = await getAttributionReport('workspace', options);
+
+    expect(report).toMatchObject({ totalConversions: 1, attributedConversions: 1, truncated: false });
+    expect(modelsOf(report, 'bing')).toBeUndefined();
+    expect(modelsOf(report, 'google')).toMatchObject({
+      first_touch: { conversions: 1, revenue: 100 },
+      last_touch: { conversions: 0, revenue: 0 },
+      linear: { conversions: 0.33, revenue: 33.33 },
+      position_based: { conversions: 0.4, revenue: 40 }
+    });
+    expect(modelsOf(report, 'newsletter').position_based).toEqual({ conversions: 0.2, revenue: 20 });
+    expect(modelsOf(report, 'facebook').last_touch).toEqual({ conversions: 1, revenue: 100 });
+    expect(report.results[0].source).toBe('facebook');
+  });
+
+  it('credits conversions without touches to direct', async () => {
+    mockJourneys([{ id: 'c1', event_time: new Date(CONVERSION_TIME), visitor_id: null, value: null }], []);
+
+    const report = await getAttributionReport('workspace', options);
+
+    expect(report.attributedConversions).toBe(0);
+    expect(modelsOf(report, '(direct)').time_decay).toEqual({ conversions: 1, revenue: 0 });
+  });
+
+  it('reports when the period has more conversions than analyzed', async () => {
+    mockJourneys(
+      [1, 2, 3].map((index) => ({ id: `c${index}`, event_time: new Date(CONVERSION_TIME), visitor_id: null, value: '1' })),
+      []
+    );
+
+    const report = await getAttributionReport('workspace', { ...options, maxConversions: 2 });
+
+    expect(report).toMatchObject({ totalConversions: 2, truncated: true });
+    expect(mockedQuery.mock.calls[0][1]).toEqual(['workspace', options.startDate, options.endDate, 3]);
+  });
+});
@@ -0,0 +1,243 @@
+import { query } from '../config/database';
+
+export const ATTRIBUTION_MODELS = ['first_touch', 'last_touch', 'linear', 'time_decay', 'position_based'] as const;
+
+export type AttributionModel = typeof ATTRIBUTION_MODELS[number];
+
+export interface Touch {
+  source: string | null;
+  medium: string | null;
+  campaign: string | null;
+}
+
+export interface AttributionOptions {
+  startDate: Date;
+  endDate: Date;
+  pixelId?: string;
+  conversionId?: string;
+  lookbackDays: number;
+  halfLifeDays: number;
+  groupBy: 'source' | 'campaign';
+  maxConversions: number;
+}
+
+// Conversions without any earlier touch are credited to this source
+const DIRECT_SOURCE = '(direct)';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Position-based credit of the first and of the last touch; the middle touches share the rest
+const POSITION_ENDS_WEIGHT = 0.4;
+
+const firstValue = (value: any): string | null => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return typeof first === 'string' && first.trim() !== '' ? first.trim() : null;
+};
+
+// Visitor ids and touches are stored in VARCHAR(255) columns
+const MAX_STORED_LENGTH = 255;
+
+const truncate = (value: string | null): string | null => value && value.slice(0, MAX_STORED_LENGTH);
+
+// Identifier that ties a visitor's events together: an explicit visitor_id, else the
+// advertiser's external_id, else the Meta browser cookie (fbp)
+export const getVisitorId = (parameters: Record<string, any> = {}): string | null => truncate(
+  firstValue(parameters.visitor_id) ||
+  firstValue(parameters.user_data?.external_id) ||
+  firstValue(parameters.user_data?.fbp)
+);
+
+const getUrlParameters = (parameters: Record<string, any>): URLSearchParams | null => {
+  const url = firstValue(parameters.event_source_url) || firstValue(parameters.url) || firstValue(parameters.page_url);
+  if (!url) {
+    return null;
+  }
+  try {
+    return new URL(url).searchParams;
+  } catch {
+    return null;
+  }
+};
+
+// Marketing touch carried by an event: UTM parameters and the Meta click id, read from
+// the event parameters or from the query string of the page URL. Null when there is none.
+export const extractTouch = (parameters: Record<string, any> = {}): Touch | null => {
+  const urlParameters = getUrlParameters(parameters);
+  const read = (key: string) => truncate(firstValue(parameters[key]) || firstValue(urlParameters?.get(key)));
+
+  const clickId = read('fbclid');
+  const source = read('utm_source') || (clickId ? 'facebook' : null);
+
+  if (!source) {
+    return null;
+  }
+
+  return {
+    source: source.toLowerCase(),
+    medium: (read('utm_medium') || (clickId ? 'paid_social' : null))?.toLowerCase() || null,
+    campaign: read('utm_campaign')
+  };
+};
+
+// Share of the credit for one conversion given to each of its touches (oldest first)
+export const getTouchWeights = (
+  model: AttributionModel,
+  touchTimes: number[],
+  conversionTime: number,
+  halfLifeDays: number
+): number[] => {
+  const count = touchTimes.length;
+  if (count === 0) {
+    return [];
+  }
+
+  switch (model) {
+    case 'first_touch':
+      return touchTimes.map((_, index) => (index === 0 ? 1 : 0));
+    case 'last_touch':
+      return touchTimes.map((_, index) => (index === count - 1 ? 1 : 0));
+    case 'linear':
+      return touchTimes.map(() => 1 / count);
+    case 'time_decay': {
+      // Credit halves for every halfLifeDays between the touch and the conversion
+      const weights = touchTimes.map((time) => Math.pow(0.5, (conversionTime - time) / (halfLifeDays * DAY_MS)));
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      return weights.map((weight) => weight / total);
+    }
+    case 'position_based': {
+      if (count <= 2) {
+        return touchTimes.map(() => 1 / count);
+      }
+      const middleWeight = (1 - 2 * POSITION_ENDS_WEIGHT) / (count - 2);
+      return touchTimes.map((_, index) => (index === 0 || index === count - 1 ? POSITION_ENDS_WEIGHT : middleWeight));
+    }
+    default:
+      return [];
+  }
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Credit conversions in a workspace to the touches that preceded them, for every model.
+// Revenue is in the workspace reporting currency.
+export const getAttributionReport = async (workspaceId: string, options: AttributionOptions) => {
+  let filters = '';
+  const params: any[] = [workspaceId, options.startDate, options.endDate];
+
+  if (options.pixelId) {
+    params.push(options.pixelId);
+    filters += ` AND cm.pixel_id = $${params.length}`;
+  }
+
+  if (options.conversionId) {
+    params.push(options.conversionId);
+    filters += ` AND cm.conversion_id = $${params.length}`;
+  }
+
+  params.push(options.maxConversions + 1);
+
+  const conversionsResult = await query(
+    `SELECT
+      cm.id,
+      cm.event_time,
+      e.visitor_id,
+      convert_to_reporting_currency(cm.value, cm.currency, cm.event_time::date, $1) as value
+    FROM conversion_matches cm
+    JOIN events e ON cm.event_id = e.id
+    JOIN pixels p ON cm.pixel_id = p.id
+    WHERE p.workspace_id = $1 AND cm.event_time >= $2 AND cm.event_time < $3 ${filters}
+    ORDER BY cm.event_time
+    LIMIT $${params.length}`,
+    params
+  );
+
+  const truncated = conversionsResult.rows.length > options.maxConversions;
+  const conversions = conversionsResult.rows.slice(0, options.maxConversions);
+
+  // Touches of the converting visitors, from the start of the lookback window
+  const visitorIds = [...new Set(conversions.map((c: any) => c.visitor_id).filter(Boolean))];
+  const touchesResult = await query(
+    `SELECT e.visitor_id, e.created_at, e.utm_source, e.utm_medium, e.utm_campaign
+    FROM events e
+    JOIN pixels p ON e.pixel_id = p.id
+    WHERE p.workspace_id = $1 AND e.visitor_id = ANY($2) AND e.utm_source IS NOT NULL AND e.is_test = false
+      AND e.created_at >= $3 AND e.created_at < $4
+    ORDER BY e.visitor_id, e.created_at`,
+    [workspaceId, visitorIds, new Date(options.startDate.getTime() - options.lookbackDays * DAY_MS), options.endDate]
+  );
+
+  const journeys = new Map<string, any[]>();
+  for (const touch of touchesResult.rows) {
+    const journey = journeys.get(touch.visitor_id) || [];
+    journey.push(touch);
+    journeys.set(touch.visitor_id, journey);
+  }
+
+  const rows = new Map<string, any>();
+  const getRow = (touch: any) => {
+    const source = touch?.utm_source || DIRECT_SOURCE;
+    const campaign = touch?.utm_campaign || null;
+    const key = options.groupBy === 'campaign' ? `${source}|${touch?.utm_medium || ''}|${campaign || ''}` : source;
+
+    if (!rows.has(key)) {
+      rows.set(key, {
+        source,
+        ...(options.groupBy === 'campaign' && { medium: touch?.utm_medium || null, campaign }),
+        models: Object.fromEntries(ATTRIBUTION_MODELS.map((model) => [model, { conversions: 0, revenue: 0 }]))
+      });
+    }
+    return rows.get(key);
+  };
+
+  let attributedConversions = 0;
+
+  for (const conversion of conversions) {
+    const conversionTime = new Date(conversion.event_time).getTime();
+    const windowStart = conversionTime - options.lookbackDays * DAY_MS;
+    const touches = (journeys.get(conversion.visitor_id) || []).filter((touch) => {
+      const time = new Date(touch.created_at).getTime();
+      return time >= windowStart && time <= conversionTime;
+    });
+    const value = conversion.value !== null ? parseFloat(conversion.value) : 0;
+
+    if (touches.length === 0) {
+      const row = getRow(null);
+      for (const model of ATTRIBUTION_MODELS) {
+        row.models[model].conversions += 1;
+        row.models[model].revenue += value;
+      }
+      continue;
+    }
+
+    attributedConversions++;
+    const touchTimes = touches.map((touch) => new Date(touch.created_at).getTime());
+
+    for (const model of ATTRIBUTION_MODELS) {
+      const weights = getTouchWeights(model, touchTimes, conversionTime, options.halfLifeDays);
+      touches.forEach((touch, index) => {
+        const row = getRow(touch);
+        row.models[model].conversions += weights[index];
+        row.models[model].revenue += weights[index] * value;
+      });
+    }
+  }
+
+  const results = [...rows.values()].map((row) => ({
+    ...row,
+    models: Object.fromEntries(
+      Object.entries(row.models).map(([model, credit]: [string, any]) => [
+        model,
+        { conversions: round(credit.conversions), revenue: round(credit.revenue) }
+      ])
+    )
+  }));
+  results.sort((a, b) => b.models.last_touch.conversions - a.models.last_touch.conversions);
+
+  return {
+    totalConversions: conversions.length,
+    attributedConversions,
+    // True when the period had more conversions than were analyzed
+    truncated,
+    results
+  };
+};
@@ -0,0 +1,115 @@
+import { query } from '../config/database';
+import { CohortOptions, getCohortReport } from './cohorts';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockedQuery = query as jest.Mock;
+
+const NOW = new Date('2024-03-20T12:00:00Z');
+
+const options: CohortOptions = {
+  startDate: new Date('2024-03-01T00:00:00Z'),
+  endDate: NOW,
+  granularity: 'week',
+  metric: 'activity',
+  periods: 3,
+  timezone: 'America/Sao_Paulo'
+};
+
+// Weeks starting at midnight in Sao Paulo
+const FIRST_WEEK = new Date('2024-03-04T03:00:00Z');
+const SECOND_WEEK = new Date('2024-03-11T03:00:00Z');
+
+describe('getCohortReport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('computes retention rates per period and leaves future periods empty', async () => {
+    mockedQuery.mockResolvedValue({
+      rows: [
+        { cohort: FIRST_WEEK, size: '8', period: 0, visitors: '8' },
+        { cohort: FIRST_WEEK, size: '8', period: 1, visitors: '3' },
+        { cohort: FIRST_WEEK, size: '8', period: 2, visitors: '1' },
+        { cohort: SECOND_WEEK, size: '3', period: 0, visitors: '3' }
+      ]
+    });
+
+    const report = await getCohortReport('workspace', options);
+
+    expect(report).toMatchObject({ granularity: 'week', metric: 'activity', periods: 3 });
+    expect(report.cohorts).toEqual([
+      {
+        cohort: FIRST_WEEK,
+        size: 8,
+        retention: [
+          { period: 0, visitors: 8, rate: 100 },
+          { period: 1, visitors: 3, rate: 37.5 },
+          { period: 2, visitors: 1, rate: 12.5 },
+          // Starts on March 25
+          { period: 3, visitors: null, rate: null }
+        ]
+      },
+      {
+        cohort: SECOND_WEEK,
+        size: 3,
+        retention: [
+          { period: 0, visitors: 3, rate: 100 },
+          // Started, but nobody came back yet
+          { period: 1, visitors: 0, rate: 0 },
+          { period: 2, visitors: null, rate: null },
+          { period: 3, visitors: null, rate: null }
+        ]
+      }
+    ]);
+  });
+
+  it('rounds rates to two decimals', async () => {
+    mockedQuery.mockResolvedValue({
+      rows: [
+        { cohort: FIRST_WEEK, size: '3', period: 0, visitors: '3' },
+        { cohort: FIRST_WEEK, size: '3', period: 1, visitors: '1' }
+      ]
+    });
+
+    const report = await getCohortReport('workspace', options);
+
+    expect(report.cohorts[0].retention[1]).toEqual({ period: 1, visitors: 1, rate: 33.33 });
+  });
+
+  it('keeps cohorts without returning visitors', async () => {
+    mockedQuery.mockResolvedValue({ rows: [{ cohort: SECOND_WEEK, size: '2', period: null, visitors: '0' }] });
+
+    const report = await getCohortReport('workspace', options);
+
+    expect(report.cohorts[0].size).toBe(2);
+    expect(report.cohorts[0].retention[0]).toEqual({ period: 0, visitors: 0, rate: 0 });
+  });
+
+  it('truncates periods in the timezone and passes the filters', async () => {
+    mockedQuery.mockResolvedValue({ rows: [] });
+
+    await getCohortReport('workspace', {
+      ...options,
+      granularity: 'day',
+      metric: 'purchase',
+      periods: 7,
+      pixelId: 'pixel',
+      source: 'google',
+      cohortEvent: 'Lead'
+    });
+
+    const [sql, params] = mockedQuery.mock.calls[0];
+    expect(params).toEqual(['workspace', 'day', options.startDate, NOW, 'America/Sao_Paulo', 'pixel', 'Lead', 'google', 1, 7]);
+    expect(sql).toContain('date_trunc($2, first_seen AT TIME ZONE $5::text) as cohort');
+    expect(sql).toContain('date_trunc($2, e.created_at AT TIME ZONE $5::text) - c.cohort');
+    expect(sql).toContain(`AND e.event_name = 'Purchase'`);
+  });
+});
@@ -0,0 +1,137 @@
+import { query } from '../config/database';
+
+export const COHORT_GRANULARITIES = ['day', 'week'] as const;
+
+export type CohortGranularity = typeof COHORT_GRANULARITIES[number];
+
+// What brings a visitor back: any event, or a purchase
+export const RETENTION_METRICS = ['activity', 'purchase'] as const;
+
+export type RetentionMetric = typeof RETENTION_METRICS[number];
+
+export interface CohortOptions {
+  startDate: Date;
+  endDate: Date;
+  granularity: CohortGranularity;
+  metric: RetentionMetric;
+  // Number of periods after the cohort period to report
+  periods: number;
+  pixelId?: string;
+  // Only visitors whose first event has this utm_source
+  source?: string;
+  // Cohorts are formed on the first event with this name instead of the first event of any kind
+  cohortEvent?: string;
+  // IANA timezone the days and weeks are counted in
+  timezone: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIOD_DAYS: Record<CohortGranularity, number> = { day: 1, week: 7 };
+
+const percentage = (part: number, total: number): number =>
+  total > 0 ? Math.round((part / total) * 10000) / 100 : 0;
+
+// Retention matrix of a workspace: visitors grouped by the day or week of their first event,
+// with the number of them active (or purchasing) in each following period. Periods that have
+// not started yet are null. Periods are truncated as local timestamps of the timezone.
+export const getCohortReport = async (workspaceId: string, options: CohortOptions) => {
+  const params: any[] = [workspaceId, options.granularity, options.startDate, options.endDate, options.timezone];
+  let eventFilters = '';
+  let cohortFilters = '';
+  let returnFilters = '';
+
+  if (options.pixelId) {
+    params.push(options.pixelId);
+    eventFilters += ` AND e.pixel_id = $${params.length}`;
+  }
+
+  if (options.cohortEvent) {
+    params.push(options.cohortEvent);
+    cohortFilters += ` AND e.event_name = $${params.length}`;
+  }
+
+  if (options.metric === 'purchase') {
+    returnFilters += ` AND e.event_name = 'Purchase'`;
+  }
+
+  params.push(options.source || null);
+  const sourceParam = params.length;
+
+  params.push(PERIOD_DAYS[options.granularity]);
+  const periodDaysParam = params.length;
+
+  params.push(options.periods);
+  const periodsParam = params.length;
+
+  const result = await query(
+    `WITH first_events AS (
+      SELECT DISTINCT ON (e.visitor_id) e.visitor_id, e.created_at as first_seen, e.utm_source
+      FROM events e
+      JOIN pixels p ON e.pixel_id = p.id
+      WHERE p.workspace_id = $1 AND e.visitor_id IS NOT NULL AND e.is_test = false ${eventFilters} ${cohortFilters}
+      ORDER BY e.visitor_id, e.created_at
+    ),
+    cohort_visitors AS (
+      SELECT visitor_id, first_seen, date_trunc($2, first_seen AT TIME ZONE $5::text) as cohort
+      FROM first_events
+      WHERE first_seen >= $3 AND first_seen < $4
+        AND ($${sourceParam}::varchar IS NULL OR LOWER(utm_source) = LOWER($${sourceParam}::varchar))
+    ),
+    returns AS (
+      SELECT DISTINCT
+        c.cohort,
+        c.visitor_id,
+        (EXTRACT(EPOCH FROM date_trunc($2, e.created_at AT TIME ZONE $5::text) - c.cohort) / 86400 / $${periodDaysParam}::int)::int as period
+      FROM cohort_visitors c
+      JOIN events e ON e.visitor_id = c.visitor_id
+      JOIN pixels p ON e.pixel_id = p.id
+      WHERE p.workspace_id = $1 AND e.is_test = false ${eventFilters} ${returnFilters}
+        AND e.created_at >= c.first_seen
+        AND e.created_at < (c.cohort + ($${periodsParam}::int + 1) * $${periodDaysParam}::int * INTERVAL '1 day') AT TIME ZONE $5::text
+    )
+    SELECT
+      c.cohort AT TIME ZONE $5::text as cohort,
+      c.size,
+      r.period,
+      COUNT(r.visitor_id) as visitors
+    FROM (
+      SELECT cohort, COUNT(*) as size FROM cohort_visitors GROUP BY cohort
+    ) c
+    LEFT JOIN returns r ON r.cohort = c.cohort
+    GROUP BY c.cohort, c.size, r.period
+    ORDER BY c.cohort, r.period`,
+    params
+  );
+
+  const cohorts = new Map<string, { cohort: Date; size: number; counts: Map<number, number> }>();
+  for (const row of result.rows) {
+    const key = new Date(row.cohort).toISOString();
+    if (!cohorts.has(key)) {
+      cohorts.set(key, { cohort: row.cohort, size: parseInt(row.size), counts: new Map() });
+    }
+    if (row.period !== null) {
+      cohorts.get(key)!.counts.set(row.period, parseInt(row.visitors));
+    }
+  }
+
+  const now = Date.now();
+  const periodMs = PERIOD_DAYS[options.granularity] * DAY_MS;
+
+  return {
+    granularity: options.granularity,
+    metric: options.metric,
+    periods: options.periods,
+    cohorts: [...cohorts.values()].map(({ cohort, size, counts }) => ({
+      cohort,
+      size,
+      retention: Array.from({ length: options.periods + 1 }, (_, period) => {
+        if (new Date(cohort).getTime() + period * periodMs > now) {
+          return { period, visitors: null, rate: null };
+        }
+        const visitors = counts.get(period) || 0;
+        return { period, visitors, rate: percentage(visitors, size) };
+      })
+    }))
+  };
+};
@@ -0,0 +1,135 @@
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+import { recordConversionMatches, ELIGIBLE_EVENTS_FILTER } from './conversionRules';
+
+export const getBackfillConfig = () => ({
+  batchSize: parseInt(process.env.BACKFILL_BATCH_SIZE || '1000'),
+  // Backfills locked longer than this are claimed again (crashed worker)
+  lockTimeoutMs: parseInt(process.env.BACKFILL_LOCK_TIMEOUT_MS || '300000') // 5 minutes
+});
+
+// Add progress percentage to a conversion_backfills row
+export const formatBackfill = (backfill: any) => {
+  const total = parseInt(backfill.total_events || 0);
+  const processed = parseInt(backfill.processed_events || 0);
+
+  return {
+    ...backfill,
+    progress: backfill.status === 'completed' ? 100 : total > 0 ? Math.min(Math.round((processed / total) * 10000) / 100, 100) : 0
+  };
+};
+
+// Claim one queued or running backfill that no worker is processing
+const claimBackfill = async (): Promise<any | null> => {
+  const { lockTimeoutMs } = getBackfillConfig();
+
+  const claimedResult = await query(
+    `UPDATE conversion_backfills
+     SET status = 'running', locked_at = NOW(), started_at = COALESCE(started_at, NOW()), updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM conversion_backfills
+       WHERE status IN ('queued', 'running')
+         AND (locked_at IS NULL OR locked_at < NOW() - ($1 || ' milliseconds')::interval)
+       ORDER BY created_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [lockTimeoutMs]
+  );
+
+  return claimedResult.rows[0] || null;
+};
+
+const failBackfill = async (backfillId: string, errorMessage: string): Promise<void> => {
+  await query(
+    `UPDATE conversion_backfills
+     SET status = 'failed', error_message = $2, locked_at = NULL, completed_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'running'`,
+    [backfillId, errorMessage]
+  );
+};
+
+// Re-evaluate one batch of historical events for a claimed backfill
+const runBackfillBatch = async (backfill: any): Promise<number> => {
+  const { batchSize } = getBackfillConfig();
+
+  const conversionResult = await query(
+    'SELECT id, pixel_id, event_name, rules, value_config FROM conversions WHERE id = $1',
+    [backfill.conversion_id]
+  );
+  const conversion = conversionResult.rows[0];
+
+  const rangeParams = [conversion.pixel_id, conversion.event_name, backfill.start_date, backfill.end_date];
+
+  // First batch: size the job and drop matches from earlier rules within the range
+  if (!backfill.cursor_id) {
+    const totalResult = await query(
+      `SELECT COUNT(*) as total FROM events e WHERE ${ELIGIBLE_EVENTS_FILTER}`,
+      rangeParams
+    );
+    await query(
+      'DELETE FROM conversion_matches WHERE conversion_id = $1 AND event_time >= $2 AND event_time < $3',
+      [conversion.id, backfill.start_date, backfill.end_date]
+    );
+    await query(
+      'UPDATE conversion_backfills SET total_events = $2, updated_at = NOW() WHERE id = $1',
+      [backfill.id, parseInt(totalResult.rows[0].total)]
+    );
+  }
+
+  // Keyset pagination on (created_at, id) so the job can resume where it stopped. The cursor
+  // stays in the database and goes out as text, as JavaScript dates drop microseconds.
+  const eventsResult = await query(
+    `SELECT e.id, e.pixel_id, e.event_name, e.parameters, e.created_at, e.created_at::text as cursor_time
+     FROM events e
+     WHERE ${ELIGIBLE_EVENTS_FILTER}
+       ${backfill.cursor_id ? 'AND (e.created_at, e.id) > (SELECT cursor_time, cursor_id FROM conversion_backfills WHERE id = $5)' : ''}
+     ORDER BY e.created_at, e.id
+     LIMIT ${batchSize}`,
+    backfill.cursor_id ? [...rangeParams, backfill.id] : rangeParams
+  );
+  const events = eventsResult.rows;
+
+  const matched = await recordConversionMatches(events, [conversion]);
+  const last = events[events.length - 1];
+  const done = events.length < batchSize;
+
+  // Guarded on status so a cancellation made during the batch is kept
+  await query(
+    `UPDATE conversion_backfills
+     SET processed_events = processed_events + $2,
+         matched_events = matched_events + $3,
+         cursor_time = COALESCE($4::timestamptz, cursor_time),
+         cursor_id = COALESCE($5, cursor_id),
+         status = CASE WHEN $6 THEN 'completed' ELSE status END,
+         completed_at = CASE WHEN $6 THEN NOW() ELSE completed_at END,
+         locked_at = NULL,
+         updated_at = NOW()
+     WHERE id = $1 AND status = 'running'`,
+    [backfill.id, events.length, matched, last?.cursor_time || null, last?.id || null, done]
+  );
+
+  if (done) {
+    logger.info(`Conversion backfill completed: ${backfill.id} (conversion ${conversion.id})`);
+  }
+
+  return events.length;
+};
+
+// Process one batch of the oldest pending backfill. Returns the number of events evaluated.
+export const processBackfills = async (): Promise<number> => {
+  const backfill = await claimBackfill();
+
+  if (!backfill) {
+    return 0;
+  }
+
+  try {
+    return await runBackfillBatch(backfill);
+  } catch (error) {
+    logger.error(`Conversion backfill failed: ${backfill.id}`, error);
+    await failBackfill(backfill.id, error instanceof Error ? error.message : 'Unknown error');
+    return 0;
+  }
+};
@@ -0,0 +1,293 @@
+import { query } from '../config/database';
+import {
+  ConversionRule,
+  ConversionRuleGroup,
+  MatchableEvent,
+  evaluateRule,
+  evaluateRuleNode,
+  getConversionCurrency,
+  getConversionValue,
+  matchesConversion,
+  normalizeRules,
+  previewConversion,
+  recordConversionMatches,
+  rulesSchema
+} from './conversionRules';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockedQuery = query as jest.Mock;
+
+const inUsdRule: ConversionRule = { type: 'parameter', parameter: 'currency', operator: 'equals', value: 'USD' };
+
+const createEvent = (parameters: Record<string, any> = {}, eventName = 'Purchase'): MatchableEvent => ({
+  id: '00000000-0000-0000-0000-0000000000e1',
+  pixel_id: '00000000-0000-0000-0000-000000000003',
+  event_name: eventName,
+  parameters,
+  created_at: new Date('2024-03-01T10:00:00Z')
+});
+
+describe('evaluateRule', () => {
+  const event = createEvent({
+    event_source_url: 'https://shop.example.com/checkout/thank-you',
+    value: '49.90',
+    currency: 'USD',
+    contents: [{ id: 'sku-1', quantity: 2 }]
+  });
+
+  it.each<[string, ConversionRule, boolean]>([
+    ['url contains', { type: 'url', operator: 'contains', value: '/thank-you' }, true],
+    ['url starts_with', { type: 'url', operator: 'starts_with', value: 'https://shop.' }, true],
+    ['url ends_with', { type: 'url', operator: 'ends_with', value: '/cart' }, false],
+    ['event equals', { type: 'event', operator: 'equals', value: 'Purchase' }, true],
+    ['numeric string equals number', { type: 'parameter', parameter: 'value', operator: 'equals', value: 49.9 }, true],
+    ['greater_than compares numbers', { type: 'parameter', parameter: 'value', operator: 'greater_than', value: '9' }, true],
+    ['less_than compares numbers', { type: 'parameter', parameter: 'value', operator: 'less_than', value: 10 }, false],
+    ['nested parameter path', { type: 'parameter', parameter: 'contents.0.id', operator: 'equals', value: 'sku-1' }, true],
+    ['not_equals', { type: 'parameter', parameter: 'currency', operator: 'not_equals', value: 'EUR' }, true]
+  ])('%s', (_, rule, expected) => {
+    expect(evaluateRule(rule, event)).toBe(expected);
+  });
+
+  it('fails every operator but not_equals on a missing value', () => {
+    expect(evaluateRule({ type: 'parameter', parameter: 'coupon', operator: 'equals', value: 'X' }, event)).toBe(false);
+    expect(evaluateRule({ type: 'parameter', parameter: 'coupon', operator: 'contains', value: '' }, event)).toBe(false);
+    expect(evaluateRule({ type: 'parameter', parameter: 'coupon', operator: 'not_equals', value: 'X' }, event)).toBe(true);
+  });
+
+  it('does not order values that are neither numbers nor dates', () => {
+    expect(evaluateRule({ type: 'parameter', parameter: 'currency', operator: 'greater_than', value: 'AAA' }, event)).toBe(false);
+  });
+});
+
+describe('evaluateRule operators', () => {
+  const event = createEvent({
+    value: 75,
+    category: 'shoes',
+    order_date: '2024-03-01T09:00:00Z',
+    sku: 'SKU-2024-0042',
+    coupon: ''
+  });
+
+  it.each<[string, ConversionRule, boolean]>([
+    ['between numbers', { type: 'parameter', parameter: 'value', operator: 'between', value: [50, 100] }, true],
+    ['between is inclusive', { type: 'parameter', parameter: 'value', operator: 'between', value: [75, 80] }, true],
+    ['between outside', { type: 'parameter', parameter: 'value', operator: 'between', value: [0, 74.99] }, false],
+    ['between dates', { type: 'parameter', parameter: 'order_date', operator: 'between', value: ['2024-03-01', '2024-03-02'] }, true],
+    ['greater_than dates', { type: 'parameter', parameter: 'order_date', operator: 'greater_than', value: '2024-03-02' }, false],
+    ['in', { type: 'parameter', parameter: 'category', operator: 'in', value: ['bags', 'shoes'] }, true],
+    ['in numbers', { type: 'parameter', parameter: 'value', operator: 'in', value: ['75.00', 80] }, true],
+    ['in without match', { type: 'parameter', parameter: 'category', operator: 'in', value: ['bags'] }, false],
+    ['regex', { type: 'parameter', parameter: 'sku', operator: 'regex', value: '^SKU-\\d{4}-\\d+$' }, true],
+    ['regex without match', { type: 'parameter', parameter: 'sku', operator: 'regex', value: '^sku-' }, false],
+    ['invalid regex never matches', { type: 'parameter', parameter: 'sku', operator: 'regex', value: '(' }, false],
+    ['exists', { type: 'parameter', parameter: 'category', operator: 'exists' }, true],
+    ['exists on an empty value', { type: 'parameter', parameter: 'coupon', operator: 'exists', value: true }, false],
+    ['exists false on a missing value', { type: 'parameter', parameter: 'missing', operator: 'exists', value: false }, true]
+  ])('%s', (_, rule, expected) => {
+    expect(evaluateRule(rule, event)).toBe(expected);
+  });
+
+  it('never matches unsafe patterns saved before patterns were checked', () => {
+    const rule: ConversionRule = { type: 'parameter', parameter: 'sku', operator: 'regex', value: '^(a+)+$' };
+
+    expect(evaluateRule(rule, createEvent({ sku: 'aaaa' }))).toBe(false);
+  });
+
+  it('matches regex rules against the first characters of long values only', () => {
+    const rule: ConversionRule = { type: 'parameter', parameter: 'note', operator: 'regex', value: 'end$' };
+
+    expect(evaluateRule(rule, createEvent({ note: `${'x'.repeat(2000)}end` }))).toBe(false);
+    expect(evaluateRule(rule, createEvent({ note: `${'x'.repeat(500)}end` }))).toBe(true);
+  });
+});
+
+describe('evaluateRuleNode', () => {
+  const event = createEvent({ value: 120, currency: 'EUR', category: 'bags' });
+  const highValue: ConversionRule = { type: 'parameter', parameter: 'value', operator: 'greater_than', value: 100 };
+  const isBag: ConversionRule = { type: 'parameter', parameter: 'category', operator: 'equals', value: 'bags' };
+
+  it('combines conditions with and, or and not', () => {
+    expect(evaluateRuleNode({ combinator: 'and', rules: [highValue, inUsdRule] }, event)).toBe(false);
+    expect(evaluateRuleNode({ combinator: 'or', rules: [highValue, inUsdRule] }, event)).toBe(true);
+    expect(evaluateRuleNode({ combinator: 'not', rules: [inUsdRule] }, event)).toBe(true);
+    expect(evaluateRuleNode({ combinator: 'not', rules: [highValue, isBag] }, event)).toBe(false);
+  });
+
+  it('evaluates nested groups', () => {
+    const rules: ConversionRuleGroup = {
+      combinator: 'and',
+      rules: [
+        isBag,
+        { combinator: 'or', rules: [inUsdRule, { combinator: 'and', rules: [highValue, { combinator: 'not', rules: [inUsdRule] }] }] }
+      ]
+    };
+
+    expect(evaluateRuleNode(rules, event)).toBe(true);
+    expect(evaluateRuleNode(rules, createEvent({ value: 50, currency: 'EUR', category: 'bags' }))).toBe(false);
+  });
+
+  it('applies groups in matchesConversion', () => {
+    const rules: ConversionRuleGroup = { combinator: 'or', rules: [inUsdRule, isBag] };
+
+    expect(matchesConversion({ event_name: 'Purchase', rules }, event)).toBe(true);
+    expect(matchesConversion({ event_name: 'Purchase', rules: { combinator: 'and', rules: [] } }, event)).toBe(true);
+  });
+});
+
+describe('normalizeRules', () => {
+  it('reads a flat list of conditions as an and group', () => {
+    expect(normalizeRules([inUsdRule])).toEqual({ combinator: 'and', rules: [inUsdRule] });
+    expect(normalizeRules(null)).toEqual({ combinator: 'and', rules: [] });
+  });
+});
+
+describe('rulesSchema', () => {
+  it('accepts flat lists and nested groups', () => {
+    expect(rulesSchema.validate([inUsdRule]).error).toBeUndefined();
+    expect(rulesSchema.validate({ combinator: 'or', rules: [inUsdRule, { combinator: 'not', rules: [inUsdRule] }] }).error).toBeUndefined();
+  });
+
+  it('rejects groups nested too deeply', () => {
+    let group: ConversionRuleGroup = { combinator: 'and', rules: [inUsdRule] };
+    for (let depth = 1; depth < 6; depth++) {
+      group = { combinator: 'and', rules: [group] };
+    }
+
+    expect(rulesSchema.validate(group).error?.message).toContain('nested more than 5 levels');
+  });
+
+  it('validates operator values', () => {
+    expect(rulesSchema.validate([{ type: 'parameter', parameter: 'value', operator: 'between', value: [1] }]).error).toBeDefined();
+    expect(rulesSchema.validate([{ type: 'parameter', parameter: 'value', operator: 'in', value: [] }]).error).toBeDefined();
+    expect(rulesSchema.validate([{ type: 'parameter', parameter: 'sku', operator: 'regex', value: '(' }]).error?.message).toContain('not a valid regular expression');
+  });
+
+  it('rejects regular expressions that could take too long to match', () => {
+    const { error } = rulesSchema.validate([{ type: 'parameter', parameter: 'sku', operator: 'regex', value: '^(a+)+$' }]);
+
+    expect(error?.message).toContain('could take too long to match');
+    expect(rulesSchema.validate([{ type: 'parameter', parameter: 'sku', operator: 'regex', value: '^SKU-\\d+$' }]).error).toBeUndefined();
+  });
+});
+
+describe('matchesConversion', () => {
+  const event = createEvent({ value: 20 });
+
+  it('requires the conversion event name', () => {
+    expect(matchesConversion({ event_name: 'Lead', rules: [] }, event)).toBe(false);
+    expect(matchesConversion({ event_name: 'Purchase', rules: [] }, event)).toBe(true);
+  });
+
+  it('requires every condition of a flat rule list', () => {
+    const rules: ConversionRule[] = [
+      { type: 'parameter', parameter: 'value', operator: 'greater_than', value: 10 },
+      { type: 'parameter', parameter: 'value', operator: 'less_than', value: 15 }
+    ];
+
+    expect(matchesConversion({ event_name: 'Purchase', rules }, event)).toBe(false);
+    expect(matchesConversion({ event_name: 'Purchase', rules: rules.slice(0, 1) }, event)).toBe(true);
+  });
+});
+
+describe('getConversionValue', () => {
+  it('reads the value parameter by default', () => {
+    expect(getConversionValue(createEvent({ value: '19.999' }))).toBe(20);
+  });
+
+  it('reads the configured parameter and applies the multiplier', () => {
+    expect(getConversionValue(createEvent({ order: { total: 100 } }), { type: 'parameter', parameter: 'order.total', multiplier: 0.2 })).toBe(20);
+  });
+
+  it('credits a fixed value', () => {
+    expect(getConversionValue(createEvent(), { type: 'fixed', value: 5 })).toBe(5);
+  });
+
+  it('returns null for missing or non-numeric values', () => {
+    expect(getConversionValue(createEvent())).toBeNull();
+    expect(getConversionValue(createEvent({ value: 'free' }))).toBeNull();
+    expect(getConversionValue(createEvent({ value: 'Infinity' }))).toBeNull();
+  });
+
+  it('returns null for values that do not fit the value column', () => {
+    expect(getConversionValue(createEvent({ value: 9999999999999999.99 }))).toBeNull();
+    expect(getConversionValue(createEvent({ value: -1e16 }))).toBeNull();
+    expect(getConversionValue(createEvent({ value: 999999999999999.5 }))).toBe(999999999999999.5);
+  });
+});
+
+describe('getConversionCurrency', () => {
+  it('prefers the configured currency over the event currency', () => {
+    expect(getConversionCurrency(createEvent({ currency: 'usd' }))).toBe('USD');
+    expect(getConversionCurrency(createEvent({ currency: 'usd' }), { type: 'parameter', currency: 'eur' })).toBe('EUR');
+  });
+
+  it('ignores invalid currencies', () => {
+    expect(getConversionCurrency(createEvent({ currency: 'dollars' }))).toBeNull();
+  });
+});
+
+describe('recordConversionMatches', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+  });
+
+  it('records a match per matching conversion of the event pixel', async () => {
+    const event = createEvent({ value: 30, currency: 'EUR' });
+    const conversions = [
+      { id: 'c1', pixel_id: event.pixel_id, event_name: 'Purchase', rules: [], value_config: null },
+      { id: 'c2', pixel_id: event.pixel_id, event_name: 'Lead', rules: [], value_config: null },
+      { id: 'c3', pixel_id: 'other-pixel', event_name: 'Purchase', rules: [], value_config: null }
+    ];
+
+    const recorded = await recordConversionMatches([event], conversions);
+
+    expect(recorded).toBe(1);
+    expect(mockedQuery).toHaveBeenCalledTimes(1);
+    expect(mockedQuery.mock.calls[0][1].slice(1)).toEqual(['c1', event.id, event.pixel_id, 30, 'EUR', event.created_at]);
+  });
+
+  it('does not query without events', async () => {
+    expect(await recordConversionMatches([])).toBe(0);
+    expect(mockedQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('previewConversion', () => {
+  const options = { workspaceId: 'workspace', days: 7, sampleSize: 1, maxEvents: 2 };
+  const conversion = {
+    pixel_id: '00000000-0000-0000-0000-000000000003',
+    event_name: 'Purchase',
+    rules: [{ type: 'parameter', parameter: 'value', operator: 'greater_than', value: 10 }] as ConversionRule[]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('evaluates recent events without recording matches', async () => {
+    mockedQuery
+      .mockResolvedValueOnce({ rows: [createEvent({ value: 30, currency: 'USD' }), createEvent({ value: 5 }), createEvent({ value: 12, currency: 'EUR' })] })
+      .mockResolvedValueOnce({ rows: [{ date: '2024-03-01', matches: '1', value: '30' }] })
+      .mockResolvedValueOnce({ rows: [{ reporting_currency: 'USD' }] });
+
+    const preview = await previewConversion(conversion, options);
+
+    expect(preview).toMatchObject({
+      evaluatedEvents: 2,
+      truncated: true,
+      matches: 1,
+      matchRate: 50,
+      revenue: 30,
+      reportingCurrency: 'USD',
+      revenueByCurrency: { USD: 30 }
+    });
+    expect(preview.samples).toHaveLength(1);
+    expect(mockedQuery.mock.calls[1][1].slice(0, 3)).toEqual([[30], ['USD'], ['2024-03-01']]);
+    expect(mockedQuery.mock.calls.some(([sql]) => sql.includes('INSERT'))).toBe(false);
+  });
+});
@@ -0,0 +1,450 @@
+import { v4 as uuidv4 } from 'uuid';
+import Joi from 'joi';
+import safeRegex from 'safe-regex2';
+import { query } from '../config/database';
+
+export const RULE_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'starts_with',
+  'ends_with',
+  'greater_than',
+  'less_than',
+  'between',
+  'in',
+  'regex',
+  'exists'
+] as const;
+
+export type RuleOperator = typeof RULE_OPERATORS[number];
+
+export const RULE_COMBINATORS = ['and', 'or', 'not'] as const;
+
+// A single condition on the event
+export interface ConversionRule {
+  type: 'url' | 'event' | 'parameter';
+  operator: RuleOperator;
+  // Scalar for most operators, [min, max] for between, a list for in, a boolean for exists
+  value?: any;
+  parameter?: string;
+}
+
+// A group of conditions or nested groups. 'not' matches when its rules do not all match.
+export interface ConversionRuleGroup {
+  combinator: typeof RULE_COMBINATORS[number];
+  rules: ConversionRuleNode[];
+}
+
+export type ConversionRuleNode = ConversionRule | ConversionRuleGroup;
+
+// How the value of a conversion is determined
+export interface ConversionValueConfig {
+  type: 'parameter' | 'fixed';
+  // Event parameter holding the value (type parameter), default "value"
+  parameter?: string;
+  // Amount credited to every conversion (type fixed)
+  value?: number;
+  multiplier?: number;
+  // Overrides the event's currency parameter
+  currency?: string;
+}
+
+export const DEFAULT_VALUE_CONFIG: ConversionValueConfig = { type: 'parameter', parameter: 'value', multiplier: 1 };
+
+export const isRuleGroup = (node: ConversionRuleNode): node is ConversionRuleGroup =>
+  (node as ConversionRuleGroup).combinator !== undefined;
+
+// Conversions created before rule groups stored a flat list of conditions that all had to match
+export const normalizeRules = (rules: ConversionRuleNode[] | ConversionRuleGroup | null | undefined): ConversionRuleGroup => {
+  if (!rules) {
+    return { combinator: 'and', rules: [] };
+  }
+  return Array.isArray(rules) ? { combinator: 'and', rules } : rules;
+};
+
+// Validation of rules submitted through the API
+const MAX_RULE_DEPTH = 5;
+
+const ruleScalarSchema = Joi.alternatives().try(Joi.string().max(500), Joi.number(), Joi.boolean());
+
+const ruleConditionSchema = Joi.object({
+  type: Joi.string().valid('url', 'event', 'parameter').required(),
+  operator: Joi.string().valid(...RULE_OPERATORS).required(),
+  value: Joi.when('operator', {
+    switch: [
+      { is: 'exists', then: Joi.boolean().optional() },
+      { is: 'between', then: Joi.array().items(Joi.alternatives().try(Joi.number(), Joi.string().max(100))).length(2).required() },
+      { is: 'in', then: Joi.array().items(ruleScalarSchema).min(1).max(100).required() },
+      {
+        is: 'regex',
+        then: Joi.string().max(200).required().custom((value, helpers) => {
+          try {
+            new RegExp(value);
+          } catch {
+            return helpers.message({ custom: `"${value}" is not a valid regular expression` });
+          }
+          // Rules run on every ingested event, so patterns with nested repetition are refused
+          if (!safeRegex(value)) {
+            return helpers.message({ custom: `"${value}" could take too long to match, avoid nested repetition such as (a+)+` });
+          }
+          return value;
+        })
+      }
+    ],
+    otherwise: ruleScalarSchema.required()
+  }),
+  parameter: Joi.string().when('type', { is: 'parameter', then: Joi.required() })
+});
+
+const ruleGroupSchema = Joi.object({
+  combinator: Joi.string().valid(...RULE_COMBINATORS).required(),
+  rules: Joi.array().items(
+    Joi.alternatives().conditional('.combinator', { is: Joi.exist(), then: Joi.link('#ruleGroup'), otherwise: ruleConditionSchema })
+  ).max(50).required()
+}).id('ruleGroup');
+
+const getRuleDepth = (node: ConversionRuleNode): number =>
+  isRuleGroup(node) ? 1 + Math.max(0, ...node.rules.map(getRuleDepth)) : 0;
+
+// A rule group, or a flat list of conditions that must all match (the original format)
+export const rulesSchema = Joi.alternatives().try(Joi.array().items(ruleConditionSchema), ruleGroupSchema).custom((value, helpers) => {
+  if (getRuleDepth(normalizeRules(value)) > MAX_RULE_DEPTH) {
+    return helpers.message({ custom: `Rule groups cannot be nested more than ${MAX_RULE_DEPTH} levels deep` });
+  }
+  return value;
+});
+
+export interface MatchableEvent {
+  id: string;
+  pixel_id: string;
+  event_name: string;
+  parameters: Record<string, any>;
+  created_at: Date | string;
+}
+
+// Historical events of a pixel and event name ($1, $2) created in [$3, $4) that can count as
+// conversions: rejected events (never queued for delivery) are skipped, the same as on ingestion
+export const ELIGIBLE_EVENTS_FILTER = `e.pixel_id = $1 AND e.event_name = $2
+  AND e.created_at >= $3 AND e.created_at < $4 AND e.is_test = false
+  AND NOT (e.status = 'error' AND NOT EXISTS (SELECT 1 FROM event_deliveries d WHERE d.event_id = e.id))`;
+
+// Parameters that may carry the page URL of an event
+const URL_PARAMETERS = ['event_source_url', 'url', 'page_url'];
+
+// Resolve a parameter path such as "contents.0.id"
+const getParameter = (parameters: Record<string, any>, path: string): any =>
+  path.split('.').reduce((current, key) => (current === null || current === undefined ? undefined : current[key]), parameters);
+
+const getRuleTarget = (rule: ConversionRule, event: MatchableEvent): any => {
+  const parameters = event.parameters || {};
+
+  switch (rule.type) {
+    case 'url':
+      return URL_PARAMETERS.map((key) => parameters[key]).find((value) => typeof value === 'string');
+    case 'event':
+      return event.event_name;
+    case 'parameter':
+      return rule.parameter ? getParameter(parameters, rule.parameter) : undefined;
+    default:
+      return undefined;
+  }
+};
+
+const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+};
+
+// Only ISO-like strings are read as dates, so plain words and numbers are never compared as dates
+const toTimestamp = (value: any): number | null => {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const timestamp = Date.parse(value);
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+  return null;
+};
+
+// Compare numerically when both sides are numbers, chronologically when both are dates,
+// and as strings otherwise. Returns null when the values cannot be ordered.
+const compareValues = (actual: any, expected: any): number | null => {
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  if (actualNumber !== null && expectedNumber !== null) {
+    return actualNumber - expectedNumber;
+  }
+
+  const actualTime = toTimestamp(actual);
+  const expectedTime = toTimestamp(expected);
+  if (actualTime !== null && expectedTime !== null) {
+    return actualTime - expectedTime;
+  }
+
+  return null;
+};
+
+const valuesEqual = (actual: any, expected: any): boolean => {
+  const comparison = compareValues(actual, expected);
+  return comparison !== null ? comparison === 0 : String(actual) === String(expected);
+};
+
+const regexCache = new Map<string, RegExp | null>();
+
+// Longest value a regex rule is matched against; longer values are truncated
+const MAX_REGEX_INPUT_LENGTH = 1000;
+
+// Invalid and unsafe patterns (saved before patterns were checked) never match
+const getRegex = (pattern: string): RegExp | null => {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, safeRegex(pattern) ? new RegExp(pattern) : null);
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern)!;
+};
+
+export const evaluateRule = (rule: ConversionRule, event: MatchableEvent): boolean => {
+  const target = getRuleTarget(rule, event);
+  const present = target !== undefined && target !== null && target !== '';
+
+  if (rule.operator === 'exists') {
+    return rule.value === false ? !present : present;
+  }
+
+  // A missing value differs from anything, and fails every other operator
+  if (!present) {
+    return rule.operator === 'not_equals';
+  }
+
+  const actual = String(target);
+
+  switch (rule.operator) {
+    case 'equals':
+      return valuesEqual(target, rule.value);
+    case 'not_equals':
+      return !valuesEqual(target, rule.value);
+    case 'contains':
+      return actual.includes(String(rule.value));
+    case 'starts_with':
+      return actual.startsWith(String(rule.value));
+    case 'ends_with':
+      return actual.endsWith(String(rule.value));
+    case 'greater_than': {
+      const comparison = compareValues(target, rule.value);
+      return comparison !== null && comparison > 0;
+    }
+    case 'less_than': {
+      const comparison = compareValues(target, rule.value);
+      return comparison !== null && comparison < 0;
+    }
+    case 'between': {
+      const [min, max] = Array.isArray(rule.value) ? rule.value : [];
+      const fromMin = compareValues(target, min);
+      const toMax = compareValues(target, max);
+      return fromMin !== null && toMax !== null && fromMin >= 0 && toMax <= 0;
+    }
+    case 'in':
+      return Array.isArray(rule.value) && rule.value.some((expected: any) => valuesEqual(target, expected));
+    case 'regex': {
+      const regex = getRegex(String(rule.value));
+      return regex !== null && regex.test(actual.slice(0, MAX_REGEX_INPUT_LENGTH));
+    }
+    default:
+      return false;
+  }
+};
+
+export const evaluateRuleNode = (node: ConversionRuleNode, event: MatchableEvent): boolean => {
+  if (!isRuleGroup(node)) {
+    return evaluateRule(node, event);
+  }
+
+  const rules = node.rules || [];
+  switch (node.combinator) {
+    case 'or':
+      return rules.some((rule) => evaluateRuleNode(rule, event));
+    case 'not':
+      return !rules.every((rule) => evaluateRuleNode(rule, event));
+    default:
+      return rules.every((rule) => evaluateRuleNode(rule, event));
+  }
+};
+
+// An event converts when it has the conversion's event name and satisfies its rule tree
+export const matchesConversion = (
+  conversion: { event_name: string; rules: ConversionRuleNode[] | ConversionRuleGroup },
+  event: MatchableEvent
+): boolean => {
+  if (event.event_name !== conversion.event_name) {
+    return false;
+  }
+
+  const root = normalizeRules(conversion.rules);
+  // An empty group places no conditions on the event
+  return root.rules.length === 0 || evaluateRuleNode(root, event);
+};
+
+// Values must fit conversion_matches.value, NUMERIC(18,2)
+const MAX_CONVERSION_VALUE = 1e16;
+
+// Monetary value of a conversion, or null when the event has no usable value
+export const getConversionValue = (event: MatchableEvent, config: ConversionValueConfig = DEFAULT_VALUE_CONFIG): number | null => {
+  const base = config.type === 'fixed'
+    ? toNumber(config.value)
+    : toNumber(getParameter(event.parameters || {}, config.parameter || 'value'));
+
+  if (base === null) {
+    return null;
+  }
+  const value = Math.round(base * (config.multiplier ?? 1) * 100) / 100;
+  return Math.abs(value) < MAX_CONVERSION_VALUE ? value : null;
+};
+
+// Currency of a conversion value: the configured currency, else the event's currency parameter
+export const getConversionCurrency = (event: MatchableEvent, config: ConversionValueConfig = DEFAULT_VALUE_CONFIG): string | null => {
+  const currency = config.currency || event.parameters?.currency;
+  return typeof currency === 'string' && /^[a-zA-Z]{3}$/.test(currency) ? currency.toUpperCase() : null;
+};
+
+// Evaluate events against conversions and record the matches. Defaults to the active
+// conversions of the events' pixels. Returns the number of matches recorded.
+export const recordConversionMatches = async (events: MatchableEvent[], conversions?: any[]): Promise<number> => {
+  if (events.length === 0) {
+    return 0;
+  }
+
+  let candidates = conversions;
+  if (!candidates) {
+    const pixelIds = [...new Set(events.map((e) => e.pixel_id))];
+    const conversionsResult = await query(
+      'SELECT id, pixel_id, event_name, rules, value_config FROM conversions WHERE pixel_id = ANY($1) AND is_active = true',
+      [pixelIds]
+    );
+    candidates = conversionsResult.rows as any[];
+  }
+
+  if (candidates.length === 0) {
+    return 0;
+  }
+
+  let recorded = 0;
+
+  for (const event of events) {
+    for (const conversion of candidates) {
+      if (conversion.pixel_id !== event.pixel_id || !matchesConversion(conversion, event)) {
+        continue;
+      }
+
+      const result = await query(
+        `INSERT INTO conversion_matches (id, conversion_id, event_id, pixel_id, value, currency, event_time, matched_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+         ON CONFLICT (conversion_id, event_id) DO NOTHING`,
+        [
+          uuidv4(),
+          conversion.id,
+          event.id,
+          event.pixel_id,
+          getConversionValue(event, conversion.value_config || undefined),
+          getConversionCurrency(event, conversion.value_config || undefined),
+          event.created_at
+        ]
+      );
+      recorded += result.rowCount || 0;
+    }
+  }
+
+  return recorded;
+};
+
+// Evaluate a conversion over recent events without recording anything.
+// Revenue is reported in the workspace's reporting currency.
+export const previewConversion = async (
+  conversion: {
+    pixel_id: string;
+    event_name: string;
+    rules: ConversionRuleNode[] | ConversionRuleGroup;
+    value_config?: ConversionValueConfig;
+  },
+  options: { workspaceId: string; days: number; sampleSize: number; maxEvents: number }
+) => {
+  const endDate = new Date();
+  const startDate = new Date(endDate.getTime() - options.days * 24 * 60 * 60 * 1000);
+
+  // Newest events first so samples show recent traffic
+  const eventsResult = await query(
+    `SELECT e.id, e.pixel_id, e.event_name, e.parameters, e.source, e.created_at
+     FROM events e
+     WHERE ${ELIGIBLE_EVENTS_FILTER}
+     ORDER BY e.created_at DESC
+     LIMIT $5`,
+    [conversion.pixel_id, conversion.event_name, startDate, endDate, options.maxEvents + 1]
+  );
+
+  const truncated = eventsResult.rows.length > options.maxEvents;
+  const events: MatchableEvent[] = eventsResult.rows.slice(0, options.maxEvents);
+
+  const samples: MatchableEvent[] = [];
+  const revenueByCurrency: Record<string, number> = {};
+  const values: { value: number; currency: string | null; date: string }[] = [];
+
+  for (const event of events) {
+    if (!matchesConversion(conversion, event)) {
+      continue;
+    }
+
+    if (samples.length < options.sampleSize) {
+      samples.push(event);
+    }
+
+    const value = getConversionValue(event, conversion.value_config) || 0;
+    const currency = getConversionCurrency(event, conversion.value_config);
+    revenueByCurrency[currency || 'UNKNOWN'] = (revenueByCurrency[currency || 'UNKNOWN'] || 0) + value;
+    values.push({ value, currency, date: new Date(event.created_at).toISOString().slice(0, 10) });
+  }
+
+  // Convert to the reporting currency with the same rates used for recorded matches
+  const timelineResult = await query(
+    `SELECT
+      t.date,
+      COUNT(*) as matches,
+      COALESCE(SUM(convert_to_reporting_currency(t.value, t.currency, t.date, $4)), 0) as value
+    FROM unnest($1::numeric[], $2::varchar[], $3::date[]) AS t(value, currency, date)
+    GROUP BY t.date
+    ORDER BY t.date`,
+    [values.map((v) => v.value), values.map((v) => v.currency), values.map((v) => v.date), options.workspaceId]
+  );
+  const currencyResult = await query('SELECT reporting_currency FROM workspaces WHERE id = $1', [options.workspaceId]);
+
+  const timeline = timelineResult.rows.map((row: any) => ({
+    date: row.date,
+    matches: parseInt(row.matches),
+    value: parseFloat(row.value)
+  }));
+  const matches = values.length;
+  const revenue = timeline.reduce((total: number, day: any) => total + day.value, 0);
+
+  return {
+    period: { startDate, endDate, days: options.days },
+    evaluatedEvents: events.length,
+    // True when the period had more events than were evaluated
+    truncated,
+    matches,
+    matchRate: events.length > 0 ? Math.round((matches / events.length) * 10000) / 100 : 0,
+    revenue: Math.round(revenue * 100) / 100,
+    reportingCurrency: currencyResult.rows[0]?.reporting_currency || null,
+    revenueByCurrency,
+    timeline,
+    samples
+  };
+};
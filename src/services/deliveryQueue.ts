@@ -0,0 +1,210 @@
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+import { sendPixelEvents, DeliveryResult } from './metaConversions';
+
+export const getDeliveryConfig = () => ({
+  maxAttempts: parseInt(process.env.DELIVERY_MAX_ATTEMPTS || '8'),
+  backoffBaseMs: parseInt(process.env.DELIVERY_BACKOFF_BASE_MS || '30000'), // 30 seconds
+  backoffMaxMs: parseInt(process.env.DELIVERY_BACKOFF_MAX_MS || '21600000'), // 6 hours
+  batchSize: parseInt(process.env.DELIVERY_BATCH_SIZE || '500'),
+  // Deliveries stuck in processing longer than this are claimed again (crashed worker)
+  lockTimeoutMs: parseInt(process.env.DELIVERY_LOCK_TIMEOUT_MS || '300000') // 5 minutes
+});
+
+// Exponential backoff with jitter: base * 2^(attempt - 1), capped at the configured maximum
+export const getBackoffDelay = (attempt: number): number => {
+  const { backoffBaseMs, backoffMaxMs } = getDeliveryConfig();
+  const delay = Math.min(backoffBaseMs * Math.pow(2, Math.max(attempt - 1, 0)), backoffMaxMs);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+// Add events to the outbound queue, resetting any previous delivery state
+export const enqueueEvents = async (eventIds: string[]): Promise<void> => {
+  if (eventIds.length === 0) {
+    return;
+  }
+
+  const { maxAttempts } = getDeliveryConfig();
+
+  await query(
+    `INSERT INTO event_deliveries (event_id, status, attempts, max_attempts, next_attempt_at, created_at, updated_at)
+     SELECT unnest($1::uuid[]), 'pending', 0, $2, NOW(), NOW(), NOW()
+     ON CONFLICT (event_id) DO UPDATE SET
+       status = 'pending',
+       attempts = 0,
+       max_attempts = EXCLUDED.max_attempts,
+       next_attempt_at = NOW(),
+       last_error = NULL,
+       locked_at = NULL,
+       updated_at = NOW()`,
+    [eventIds, maxAttempts]
+  );
+
+  await query(
+    'UPDATE events SET status = $1, error_message = NULL WHERE id = ANY($2)',
+    ['pending', eventIds]
+  );
+};
+
+// Move dead-lettered events of a workspace back into the queue
+export const replayDeadLetters = async (
+  workspaceId: string,
+  filters: { pixelId?: string; eventName?: string; startDate?: Date; endDate?: Date; limit: number }
+): Promise<string[]> => {
+  let whereClause = "WHERE d.status = 'dead_letter' AND p.workspace_id = $1";
+  const queryParams: any[] = [workspaceId];
+  let paramCount = 2;
+
+  if (filters.pixelId) {
+    whereClause += ` AND e.pixel_id = $${paramCount}`;
+    queryParams.push(filters.pixelId);
+    paramCount++;
+  }
+
+  if (filters.eventName) {
+    whereClause += ` AND e.event_name = $${paramCount}`;
+    queryParams.push(filters.eventName);
+    paramCount++;
+  }
+
+  if (filters.startDate) {
+    whereClause += ` AND e.created_at >= $${paramCount}`;
+    queryParams.push(filters.startDate);
+    paramCount++;
+  }
+
+  if (filters.endDate) {
+    whereClause += ` AND e.created_at <= $${paramCount}`;
+    queryParams.push(filters.endDate);
+    paramCount++;
+  }
+
+  const deadLettersResult = await query(
+    `SELECT d.event_id
+     FROM event_deliveries d
+     JOIN events e ON d.event_id = e.id
+     JOIN pixels p ON e.pixel_id = p.id
+     ${whereClause}
+     ORDER BY d.updated_at
+     LIMIT $${paramCount}`,
+    [...queryParams, filters.limit]
+  );
+
+  const eventIds = deadLettersResult.rows.map((row: any) => row.event_id);
+  await enqueueEvents(eventIds);
+
+  return eventIds;
+};
+
+// Claim due deliveries so concurrent workers never send the same event twice
+const claimDeliveries = async (): Promise<any[]> => {
+  const { batchSize, lockTimeoutMs } = getDeliveryConfig();
+
+  const claimedResult = await query(
+    `UPDATE event_deliveries
+     SET status = 'processing', attempts = attempts + 1, locked_at = NOW(), updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM event_deliveries
+       WHERE (status = 'pending' AND next_attempt_at <= NOW())
+          OR (status = 'processing' AND locked_at < NOW() - ($2 || ' milliseconds')::interval)
+       ORDER BY next_attempt_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, event_id, attempts, max_attempts`,
+    [batchSize, lockTimeoutMs]
+  );
+
+  return claimedResult.rows;
+};
+
+// Record the outcome of one delivery attempt on the queue entry and the event
+const recordResult = async (delivery: any, result: DeliveryResult): Promise<void> => {
+  if (result.status === 'success') {
+    await query(
+      `UPDATE event_deliveries
+       SET status = 'delivered', last_error = NULL, locked_at = NULL, delivered_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [delivery.id]
+    );
+    await query(
+      'UPDATE events SET status = $1, error_message = NULL WHERE id = $2',
+      ['success', delivery.event_id]
+    );
+    return;
+  }
+
+  if (result.retryable && delivery.attempts < delivery.max_attempts) {
+    const delay = getBackoffDelay(delivery.attempts);
+    await query(
+      `UPDATE event_deliveries
+       SET status = 'pending', last_error = $1, locked_at = NULL,
+           next_attempt_at = NOW() + ($2 || ' milliseconds')::interval, updated_at = NOW()
+       WHERE id = $3`,
+      [result.errorMessage, delay, delivery.id]
+    );
+    await query(
+      'UPDATE events SET error_message = $1 WHERE id = $2',
+      [result.errorMessage, delivery.event_id]
+    );
+    return;
+  }
+
+  await query(
+    `UPDATE event_deliveries
+     SET status = 'dead_letter', last_error = $1, locked_at = NULL, updated_at = NOW()
+     WHERE id = $2`,
+    [result.errorMessage, delivery.id]
+  );
+  await query(
+    'UPDATE events SET status = $1, error_message = $2 WHERE id = $3',
+    ['error', result.errorMessage, delivery.event_id]
+  );
+  logger.warn(`Event ${delivery.event_id} dead-lettered after ${delivery.attempts} attempts: ${result.errorMessage}`);
+};
+
+// Send one batch of due deliveries. Returns the number of deliveries processed.
+export const processDeliveryQueue = async (): Promise<number> => {
+  const deliveries = await claimDeliveries();
+
+  if (deliveries.length === 0) {
+    return 0;
+  }
+
+  const eventsResult = await query(
+    `SELECT
+      e.*,
+      p.pixel_id as pixel_external_id,
+      p.settings as pixel_settings
+    FROM events e
+    JOIN pixels p ON e.pixel_id = p.id
+    WHERE e.id = ANY($1)`,
+    [deliveries.map((d) => d.event_id)]
+  );
+
+  // Group events by pixel so each pixel is sent in as few requests as possible
+  const eventsByPixel = new Map<string, any[]>();
+  for (const event of eventsResult.rows) {
+    const pixelEvents = eventsByPixel.get(event.pixel_id) || [];
+    pixelEvents.push(event);
+    eventsByPixel.set(event.pixel_id, pixelEvents);
+  }
+
+  const deliveriesByEvent = new Map(deliveries.map((d) => [d.event_id, d]));
+
+  for (const [pixelId, events] of eventsByPixel) {
+    const pixel = {
+      id: pixelId,
+      pixel_id: events[0].pixel_external_id,
+      settings: events[0].pixel_settings
+    };
+
+    const results = await sendPixelEvents(pixel, events);
+
+    for (const result of results) {
+      await recordResult(deliveriesByEvent.get(result.eventId), result);
+    }
+  }
+
+  return deliveries.length;
+};
@@ -0,0 +1,243 @@
+import Joi from 'joi';
+
+export type ParameterType = 'number' | 'integer' | 'string' | 'currency' | 'string_array' | 'contents';
+
+export interface ParameterSpec {
+  type: ParameterType;
+  required?: boolean;
+  description: string;
+}
+
+export interface StandardEventSpec {
+  name: string;
+  description: string;
+  parameters: Record<string, ParameterSpec>;
+}
+
+// Workspace-level custom event definition (custom_event_definitions row)
+export interface CustomEventDefinition {
+  name: string;
+  parameters: Record<string, ParameterSpec>;
+  standard_event?: string | null;
+}
+
+export interface ParameterValidationResult {
+  valid: boolean;
+  errors: string[];
+  // Parameters with type conversions applied (e.g. "10.5" -> 10.5)
+  parameters: Record<string, any>;
+}
+
+// Parameters shared by most standard events
+const value: ParameterSpec = { type: 'number', description: 'Monetary value of the event' };
+const currency: ParameterSpec = { type: 'currency', description: 'ISO 4217 currency code, e.g. BRL' };
+const contentIds: ParameterSpec = { type: 'string_array', description: 'Product IDs or SKUs' };
+const contents: ParameterSpec = { type: 'contents', description: 'List of { id, quantity, item_price } objects' };
+const contentName: ParameterSpec = { type: 'string', description: 'Name of the page or product' };
+const contentCategory: ParameterSpec = { type: 'string', description: 'Category of the page or product' };
+const contentType: ParameterSpec = { type: 'string', description: "'product' or 'product_group'" };
+const numItems: ParameterSpec = { type: 'integer', description: 'Number of items' };
+
+// Meta standard events and their parameters
+export const STANDARD_EVENTS: StandardEventSpec[] = [
+  {
+    name: 'AddPaymentInfo',
+    description: 'Payment information added during checkout',
+    parameters: { value, currency, content_ids: contentIds, contents, content_category: contentCategory }
+  },
+  {
+    name: 'AddToCart',
+    description: 'Product added to the shopping cart',
+    parameters: { value, currency, content_ids: contentIds, contents, content_name: contentName, content_type: contentType }
+  },
+  {
+    name: 'AddToWishlist',
+    description: 'Product added to a wishlist',
+    parameters: { value, currency, content_ids: contentIds, contents, content_name: contentName, content_category: contentCategory }
+  },
+  {
+    name: 'CompleteRegistration',
+    description: 'Registration form completed',
+    parameters: { value, currency, content_name: contentName, status: { type: 'string', description: 'Registration status' } }
+  },
+  {
+    name: 'Contact',
+    description: 'Contact between a customer and the business',
+    parameters: {}
+  },
+  {
+    name: 'CustomizeProduct',
+    description: 'Product customized through a configuration tool',
+    parameters: {}
+  },
+  {
+    name: 'Donate',
+    description: 'Donation made to an organization',
+    parameters: { value, currency }
+  },
+  {
+    name: 'FindLocation',
+    description: 'Store location searched',
+    parameters: {}
+  },
+  {
+    name: 'InitiateCheckout',
+    description: 'Checkout flow started',
+    parameters: { value, currency, content_ids: contentIds, contents, content_category: contentCategory, num_items: numItems }
+  },
+  {
+    name: 'Lead',
+    description: 'Customer information submitted with intent to be contacted',
+    parameters: { value, currency, content_name: contentName, content_category: contentCategory }
+  },
+  {
+    name: 'PageView',
+    description: 'Page viewed',
+    parameters: {}
+  },
+  {
+    name: 'Purchase',
+    description: 'Purchase completed',
+    parameters: {
+      value: { ...value, required: true },
+      currency: { ...currency, required: true },
+      content_ids: contentIds,
+      contents,
+      content_name: contentName,
+      content_type: contentType,
+      num_items: numItems
+    }
+  },
+  {
+    name: 'Schedule',
+    description: 'Appointment booked',
+    parameters: {}
+  },
+  {
+    name: 'Search',
+    description: 'Search performed',
+    parameters: {
+      value,
+      currency,
+      content_ids: contentIds,
+      contents,
+      content_category: contentCategory,
+      search_string: { type: 'string', description: 'Search query' }
+    }
+  },
+  {
+    name: 'StartTrial',
+    description: 'Free trial started',
+    parameters: { value, currency, predicted_ltv: { type: 'number', description: 'Predicted lifetime value' } }
+  },
+  {
+    name: 'SubmitApplication',
+    description: 'Application submitted',
+    parameters: {}
+  },
+  {
+    name: 'Subscribe',
+    description: 'Paid subscription started',
+    parameters: { value, currency, predicted_ltv: { type: 'number', description: 'Predicted lifetime value' } }
+  },
+  {
+    name: 'ViewContent',
+    description: 'Product or content page viewed',
+    parameters: { value, currency, content_ids: contentIds, contents, content_name: contentName, content_category: contentCategory, content_type: contentType }
+  }
+];
+
+const catalogByName = new Map(STANDARD_EVENTS.map((event) => [event.name, event]));
+
+export const getStandardEvent = (eventName: string): StandardEventSpec | undefined => catalogByName.get(eventName);
+
+export const PARAMETER_TYPES: ParameterType[] = ['number', 'integer', 'string', 'currency', 'string_array', 'contents'];
+
+const buildParameterSchema = (spec: ParameterSpec): Joi.Schema => {
+  let schema: Joi.Schema;
+
+  switch (spec.type) {
+    case 'number':
+      schema = Joi.number().min(0);
+      break;
+    case 'integer':
+      schema = Joi.number().integer().min(0);
+      break;
+    case 'currency':
+      schema = Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/).messages({
+        'string.pattern.base': '{{#label}} must be a 3-letter ISO 4217 currency code'
+      });
+      break;
+    case 'string_array':
+      schema = Joi.array().items(Joi.alternatives().try(Joi.string(), Joi.number()));
+      break;
+    case 'contents':
+      schema = Joi.array().items(Joi.object({
+        id: Joi.alternatives().try(Joi.string(), Joi.number()).required(),
+        quantity: Joi.number().integer().min(0).optional(),
+        item_price: Joi.number().min(0).optional()
+      }).unknown(true));
+      break;
+    default:
+      schema = Joi.string();
+  }
+
+  return spec.required ? schema.required() : schema.optional();
+};
+
+const buildEventSchema = (parameters: Record<string, ParameterSpec>): Joi.ObjectSchema => {
+  const keys: Record<string, Joi.Schema> = {};
+  for (const [name, parameter] of Object.entries(parameters)) {
+    keys[name] = buildParameterSchema(parameter);
+  }
+  // Custom properties and user_data are allowed next to the standard parameters
+  return Joi.object(keys).unknown(true);
+};
+
+const schemaCache = new Map<string, Joi.ObjectSchema>();
+
+// Get the validation schema of a standard event, or of a custom event definition
+// combined with the parameters of the standard event it maps to
+const getEventSchema = (eventName: string, customDefinition?: CustomEventDefinition): Joi.ObjectSchema | null => {
+  const spec = getStandardEvent(eventName);
+
+  if (spec) {
+    let schema = schemaCache.get(spec.name);
+    if (!schema) {
+      schema = buildEventSchema(spec.parameters);
+      schemaCache.set(spec.name, schema);
+    }
+    return schema;
+  }
+
+  if (customDefinition) {
+    const mapped = customDefinition.standard_event ? getStandardEvent(customDefinition.standard_event) : undefined;
+    return buildEventSchema({ ...(mapped?.parameters || {}), ...(customDefinition.parameters || {}) });
+  }
+
+  return null;
+};
+
+// Validate event parameters against the standard event catalog or a custom event definition.
+// Unregistered custom events are accepted as they are.
+export const validateEventParameters = (
+  eventName: string,
+  parameters: Record<string, any> = {},
+  customDefinition?: CustomEventDefinition
+): ParameterValidationResult => {
+  const schema = getEventSchema(eventName, customDefinition);
+  if (!schema) {
+    return { valid: true, errors: [], parameters };
+  }
+
+  const { error, value: converted } = schema.validate(parameters, { abortEarly: false });
+  if (error) {
+    return {
+      valid: false,
+      errors: error.details.map((detail) => detail.message),
+      parameters
+    };
+  }
+
+  return { valid: true, errors: [], parameters: converted };
+};
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import { query } from '../config/database';
+import { createDownloadLink, formatExport, processExports, verifyDownloadSignature } from './eventExports';
+import { setExportStorage } from './exportStorage';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const mockedQuery = query as jest.Mock;
+
+const EXPORT_ID = '00000000-0000-0000-0000-0000000000e5';
+const NOW = new Date('2024-03-10T12:00:00Z');
+
+const createExportJob = (overrides: Record<string, any> = {}) => ({
+  id: EXPORT_ID,
+  workspace_id: 'workspace',
+  format: 'csv',
+  filters: {},
+  status: 'completed',
+  storage_key: `workspace/${EXPORT_ID}.csv`,
+  locked_at: null,
+  expires_at: new Date('2024-03-11T12:00:00Z'),
+  ...overrides
+});
+
+const readSignature = (url: string) => {
+  const params = new URL(url, 'http://localhost').searchParams;
+  return { expires: parseInt(params.get('expires')!), signature: params.get('signature')! };
+};
+
+describe('export download links', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+    process.env = { ...env, JWT_SECRET: 'test-secret', PUBLIC_API_URL: 'https://api.example.com/' };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    process.env = env;
+  });
+
+  it('signs a link that verifies until it expires', () => {
+    const link = createDownloadLink(createExportJob());
+    const { expires, signature } = readSignature(link.url);
+
+    expect(link.url.startsWith(`https://api.example.com/api/v1/events/exports/${EXPORT_ID}/download?`)).toBe(true);
+    expect(link.expiresAt).toEqual(new Date(NOW.getTime() + 900 * 1000));
+    expect(verifyDownloadSignature(EXPORT_ID, expires, signature)).toBe(true);
+
+    jest.setSystemTime(new Date(NOW.getTime() + 901 * 1000));
+    expect(verifyDownloadSignature(EXPORT_ID, expires, signature)).toBe(false);
+  });
+
+  it('never outlives the file', () => {
+    const link = createDownloadLink(createExportJob({ expires_at: new Date(NOW.getTime() + 60 * 1000) }));
+
+    expect(link.expiresAt).toEqual(new Date(NOW.getTime() + 60 * 1000));
+  });
+
+  it('rejects tampered links', () => {
+    const { expires, signature } = readSignature(createDownloadLink(createExportJob()).url);
+    const flipped = `${signature.slice(0, -1)}${signature.endsWith('0') ? '1' : '0'}`;
+
+    expect(verifyDownloadSignature('00000000-0000-0000-0000-0000000000e6', expires, signature)).toBe(false);
+    expect(verifyDownloadSignature(EXPORT_ID, expires + 3600, signature)).toBe(false);
+    expect(verifyDownloadSignature(EXPORT_ID, expires, flipped)).toBe(false);
+    expect(verifyDownloadSignature(EXPORT_ID, expires, 'abcd')).toBe(false);
+  });
+
+  it('prefers a dedicated signing secret', () => {
+    const { expires, signature } = readSignature(createDownloadLink(createExportJob()).url);
+
+    process.env.EXPORT_SIGNING_SECRET = 'other-secret';
+    expect(verifyDownloadSignature(EXPORT_ID, expires, signature)).toBe(false);
+  });
+
+  it('refuses to sign without a secret', () => {
+    delete process.env.JWT_SECRET;
+
+    expect(() => createDownloadLink(createExportJob())).toThrow('EXPORT_SIGNING_SECRET or JWT_SECRET must be set');
+  });
+
+  it('hides storage internals and only links available files', () => {
+    expect(formatExport(createExportJob())).not.toHaveProperty('storage_key');
+    expect(formatExport(createExportJob()).download).not.toBeNull();
+    expect(formatExport(createExportJob({ status: 'running', storage_key: null })).download).toBeNull();
+    expect(formatExport(createExportJob({ expires_at: new Date(NOW.getTime() - 1000) })).download).toBeNull();
+  });
+});
+
+describe('processExports', () => {
+  const env = process.env;
+  const saved: Record<string, string> = {};
+
+  const rows: Record<string, any>[] = [
+    { id: 'e1', pixel_id: 'p1', pixel_name: 'Shop', pixel_external_id: '123', event_name: 'Purchase', match_score: '7.50',
+      parameters: { value: 10, note: 'a "quoted", value' }, created_at: new Date('2024-03-01T10:00:00Z'), cursor_time: '2024-03-01 10:00:00.123456+00' },
+    { id: 'e2', pixel_id: 'p1', pixel_name: 'Shop', pixel_external_id: '123', event_name: 'Lead', match_score: null,
+      parameters: {}, created_at: new Date('2024-03-01T11:00:00Z'), cursor_time: '2024-03-01 11:00:00.654321+00' },
+    { id: 'e3', pixel_id: 'p1', pixel_name: 'Shop', pixel_external_id: '123', event_name: 'Lead', match_score: null,
+      parameters: {}, created_at: new Date('2024-03-01T12:00:00Z'), cursor_time: '2024-03-01 12:00:00+00' }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env, EXPORT_BATCH_SIZE: '2' };
+    setExportStorage({
+      save: async (key, localPath) => {
+        saved[key] = await fs.promises.readFile(localPath, 'utf8');
+      },
+      read: jest.fn(),
+      remove: jest.fn()
+    });
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  const mockExport = (format: string, exportRows = rows) => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes("SET status = 'running'")) {
+        return { rows: [createExportJob({ format, status: 'running', storage_key: null, filters: { eventName: 'Lead' } })] };
+      }
+      if (sql.includes('FROM events e')) {
+        // Second batch starts after the cursor
+        return { rows: sql.includes('(e.created_at, e.id) >') ? exportRows.slice(2) : exportRows.slice(0, 2) };
+      }
+      return { rows: [] };
+    });
+  };
+
+  it('returns false when no export is queued', async () => {
+    mockedQuery.mockResolvedValue({ rows: [] });
+
+    expect(await processExports()).toBe(false);
+  });
+
+  it('pages through events on the exact created_at text and writes CSV', async () => {
+    mockExport('csv');
+
+    expect(await processExports()).toBe(true);
+
+    const batches = mockedQuery.mock.calls.filter(([sql]) => sql.includes('FROM events e'));
+    expect(batches).toHaveLength(2);
+    expect(batches[0][1]).toEqual(['workspace', 'Lead']);
+    expect(batches[1][0]).toContain('($3::timestamptz, $4)');
+    expect(batches[1][1]).toEqual(['workspace', 'Lead', '2024-03-01 11:00:00.654321+00', 'e2']);
+
+    const lines = saved[`workspace/${EXPORT_ID}.csv`].split('\r\n');
+    expect(lines[0]).toBe('id,pixel_id,pixel_name,pixel_external_id,event_name,event_id,event_type,source,status,error_message,match_score,duplicate_count,visitor_id,utm_source,utm_medium,utm_campaign,user_agent,ip_address,is_test,parameters,created_at');
+    expect(lines[1]).toBe('e1,p1,Shop,123,Purchase,,,,,,7.5,,,,,,,,,"{""value"":10,""note"":""a \\""quoted\\"", value""}",2024-03-01T10:00:00.000Z');
+    expect(lines).toHaveLength(5);
+
+    const completed = mockedQuery.mock.calls.find(([sql]) => sql.includes("SET status = 'completed'"));
+    expect(completed[1].slice(0, 2)).toEqual([EXPORT_ID, 3]);
+  });
+
+  it('keeps client text from becoming spreadsheet formulas', async () => {
+    mockExport('csv', [{
+      ...rows[0],
+      event_name: '=HYPERLINK("https://example.com")',
+      user_agent: '@SUM(A1:A2)',
+      utm_source: '+1',
+      utm_campaign: '-summer',
+      match_score: '-1.5'
+    }]);
+
+    await processExports();
+
+    const [, line] = saved[`workspace/${EXPORT_ID}.csv`].split('\r\n');
+    expect(line).toBe('e1,p1,Shop,123,"\'=HYPERLINK(""https://example.com"")",,,,,,-1.5,,,\'+1,,\'-summer,\'@SUM(A1:A2),,,"{""value"":10,""note"":""a \\""quoted\\"", value""}",2024-03-01T10:00:00.000Z');
+  });
+
+  it('writes one JSON object per line for NDJSON', async () => {
+    mockExport('ndjson');
+
+    await processExports();
+
+    const lines = saved[`workspace/${EXPORT_ID}.ndjson`].trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.id)).toEqual(['e1', 'e2', 'e3']);
+    expect(lines[0]).toMatchObject({ match_score: 7.5, parameters: { value: 10 }, created_at: '2024-03-01T10:00:00.000Z' });
+    expect(lines[0]).not.toHaveProperty('cursor_time');
+  });
+
+  it('marks the export as failed when it cannot be written', async () => {
+    mockExport('csv');
+    setExportStorage({
+      save: async () => {
+        throw new Error('disk full');
+      },
+      read: jest.fn(),
+      remove: jest.fn()
+    });
+
+    expect(await processExports()).toBe(true);
+
+    const failed = mockedQuery.mock.calls.find(([sql]) => sql.includes("SET status = 'failed'"));
+    expect(failed[1]).toEqual([EXPORT_ID, 'disk full']);
+  });
+});
@@ -0,0 +1,336 @@
+/// <reference path="../types/parquetjs-lite.d.ts" />
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { once } from 'events';
+import { ParquetSchema, ParquetWriter } from 'parquetjs-lite';
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+import { buildEventFilters, EventFilters } from './eventFilters';
+import { getExportStorage } from './exportStorage';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson', 'parquet'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const getExportConfig = () => ({
+  batchSize: parseInt(process.env.EXPORT_BATCH_SIZE || '5000'),
+  // Exports locked longer than this are claimed again (crashed worker)
+  lockTimeoutMs: parseInt(process.env.EXPORT_LOCK_TIMEOUT_MS || '600000'), // 10 minutes
+  // How long finished files are kept
+  fileTtlHours: parseInt(process.env.EXPORT_FILE_TTL_HOURS || '24'),
+  // How long a download link stays valid, capped by the file expiry
+  linkTtlSeconds: parseInt(process.env.EXPORT_LINK_TTL_SECONDS || '900'),
+  maxActivePerWorkspace: parseInt(process.env.EXPORT_MAX_ACTIVE_PER_WORKSPACE || '3')
+});
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+  parquet: 'application/vnd.apache.parquet'
+};
+
+// Exported columns, in file order
+const EXPORT_COLUMNS = [
+  'id', 'pixel_id', 'pixel_name', 'pixel_external_id', 'event_name', 'event_id', 'event_type', 'source', 'status',
+  'error_message', 'match_score', 'duplicate_count', 'visitor_id', 'utm_source', 'utm_medium', 'utm_campaign',
+  'user_agent', 'ip_address', 'is_test', 'parameters', 'created_at'
+] as const;
+
+const PARQUET_SCHEMA = new ParquetSchema({
+  id: { type: 'UTF8' },
+  pixel_id: { type: 'UTF8' },
+  pixel_name: { type: 'UTF8' },
+  pixel_external_id: { type: 'UTF8' },
+  event_name: { type: 'UTF8' },
+  event_id: { type: 'UTF8', optional: true },
+  event_type: { type: 'UTF8', optional: true },
+  source: { type: 'UTF8', optional: true },
+  status: { type: 'UTF8', optional: true },
+  error_message: { type: 'UTF8', optional: true },
+  match_score: { type: 'DOUBLE', optional: true },
+  duplicate_count: { type: 'INT32', optional: true },
+  visitor_id: { type: 'UTF8', optional: true },
+  utm_source: { type: 'UTF8', optional: true },
+  utm_medium: { type: 'UTF8', optional: true },
+  utm_campaign: { type: 'UTF8', optional: true },
+  user_agent: { type: 'UTF8', optional: true },
+  ip_address: { type: 'UTF8', optional: true },
+  is_test: { type: 'BOOLEAN', optional: true },
+  // Serialized as JSON
+  parameters: { type: 'UTF8', optional: true },
+  created_at: { type: 'TIMESTAMP_MILLIS' }
+});
+
+interface ExportWriter {
+  write: (row: Record<string, any>) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+// Row as read from the database, with numeric columns parsed
+const toExportRow = (row: any): Record<string, any> => {
+  const exportRow: Record<string, any> = {};
+  for (const column of EXPORT_COLUMNS) {
+    exportRow[column] = row[column] ?? null;
+  }
+  exportRow.match_score = row.match_score == null ? null : parseFloat(row.match_score);
+  return exportRow;
+};
+
+// Text file written through a stream, waiting for it to drain when its buffer is full
+const openTextFile = (filePath: string) => {
+  const stream = fs.createWriteStream(filePath);
+  let failure: Error | null = null;
+  stream.on('error', (error) => {
+    failure = error;
+  });
+
+  return {
+    write: async (chunk: string) => {
+      if (failure) {
+        throw failure;
+      }
+      if (!stream.write(chunk)) {
+        await once(stream, 'drain');
+      }
+    },
+    close: async () => {
+      if (failure) {
+        throw failure;
+      }
+      stream.end();
+      await once(stream, 'finish');
+    }
+  };
+};
+
+// Spreadsheets run cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvValue = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Text comes from clients (event names, user agents), so it is kept from becoming a formula
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const openExportWriter = async (format: ExportFormat, filePath: string): Promise<ExportWriter> => {
+  if (format === 'parquet') {
+    const writer = await ParquetWriter.openFile(PARQUET_SCHEMA, filePath);
+    return {
+      write: (row) => writer.appendRow({ ...row, parameters: row.parameters === null ? null : JSON.stringify(row.parameters) }),
+      close: () => writer.close()
+    };
+  }
+
+  const file = openTextFile(filePath);
+
+  if (format === 'ndjson') {
+    return {
+      write: (row) => file.write(`${JSON.stringify(row)}\n`),
+      close: file.close
+    };
+  }
+
+  await file.write(`${EXPORT_COLUMNS.join(',')}\r\n`);
+  return {
+    write: (row) => file.write(`${EXPORT_COLUMNS.map((column) => csvValue(row[column])).join(',')}\r\n`),
+    close: file.close
+  };
+};
+
+const getSigningSecret = () => {
+  const secret = process.env.EXPORT_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('EXPORT_SIGNING_SECRET or JWT_SECRET must be set to sign export links');
+  }
+  return secret;
+};
+
+const signDownload = (exportId: string, expires: number) =>
+  crypto.createHmac('sha256', getSigningSecret()).update(`${exportId}:${expires}`).digest('hex');
+
+// Download link for a completed export, valid for linkTtlSeconds or until the file expires
+export const createDownloadLink = (exportJob: any) => {
+  const { linkTtlSeconds } = getExportConfig();
+  const expires = Math.floor(Math.min(Date.now() + linkTtlSeconds * 1000, new Date(exportJob.expires_at).getTime()) / 1000);
+  const baseUrl = (process.env.PUBLIC_API_URL || '').replace(/\/$/, '');
+
+  return {
+    url: `${baseUrl}/api/v1/events/exports/${exportJob.id}/download?expires=${expires}&signature=${signDownload(exportJob.id, expires)}`,
+    expiresAt: new Date(expires * 1000)
+  };
+};
+
+export const verifyDownloadSignature = (exportId: string, expires: number, signature: string): boolean => {
+  if (expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signDownload(exportId, expires), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+export const isExportAvailable = (exportJob: any) =>
+  exportJob.status === 'completed' && !!exportJob.storage_key && new Date(exportJob.expires_at).getTime() > Date.now();
+
+// Hide storage internals and add a fresh download link to an event_exports row
+export const formatExport = (exportJob: any) => {
+  const { storage_key, locked_at, ...rest } = exportJob;
+
+  return {
+    ...rest,
+    download: isExportAvailable(exportJob) ? createDownloadLink(exportJob) : null
+  };
+};
+
+export const getExportFile = (exportJob: any) => ({
+  contentType: CONTENT_TYPES[exportJob.format as ExportFormat],
+  fileName: `events-${exportJob.id}.${exportJob.format}`
+});
+
+// Claim one queued export that no worker is processing. Exports interrupted by a crash
+// start over.
+const claimExport = async (): Promise<any | null> => {
+  const { lockTimeoutMs } = getExportConfig();
+
+  const claimedResult = await query(
+    `UPDATE event_exports
+     SET status = 'running', row_count = 0, locked_at = NOW(), started_at = NOW(), updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM event_exports
+       WHERE status IN ('queued', 'running')
+         AND (locked_at IS NULL OR locked_at < NOW() - ($1 || ' milliseconds')::interval)
+       ORDER BY created_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [lockTimeoutMs]
+  );
+
+  return claimedResult.rows[0] || null;
+};
+
+const failExport = async (exportId: string, errorMessage: string): Promise<void> => {
+  await query(
+    `UPDATE event_exports
+     SET status = 'failed', error_message = $2, locked_at = NULL, completed_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'running'`,
+    [exportId, errorMessage]
+  );
+};
+
+// Stream the matching events into a temporary file, then hand it to the storage adapter
+const runExport = async (exportJob: any): Promise<void> => {
+  const { batchSize, fileTtlHours } = getExportConfig();
+  const format = exportJob.format as ExportFormat;
+  const { whereClause, params } = buildEventFilters(exportJob.workspace_id, exportJob.filters as EventFilters);
+
+  const tempPath = path.join(os.tmpdir(), `event-export-${exportJob.id}.${format}`);
+  const writer = await openExportWriter(format, tempPath);
+  let rowCount = 0;
+  // Writers wait for their stream to finish, so they are closed once only
+  let closed = false;
+
+  try {
+    let cursor: { cursor_time: string; id: string } | null = null;
+
+    // Keyset pagination on (created_at, id) keeps every batch on the index. The cursor is read
+    // as text, as JavaScript dates drop microseconds.
+    do {
+      const eventsResult: any = await query(
+        `SELECT e.*, e.created_at::text as cursor_time, p.name as pixel_name, p.pixel_id as pixel_external_id
+         FROM events e
+         JOIN pixels p ON e.pixel_id = p.id
+         ${whereClause}
+           ${cursor ? `AND (e.created_at, e.id) > ($${params.length + 1}::timestamptz, $${params.length + 2})` : ''}
+         ORDER BY e.created_at, e.id
+         LIMIT ${batchSize}`,
+        cursor ? [...params, cursor.cursor_time, cursor.id] : params
+      );
+
+      for (const row of eventsResult.rows) {
+        await writer.write(toExportRow(row));
+      }
+      rowCount += eventsResult.rows.length;
+      cursor = eventsResult.rows.length === batchSize ? eventsResult.rows[eventsResult.rows.length - 1] : null;
+
+      // Report progress and keep the lock while the export runs
+      await query(
+        'UPDATE event_exports SET row_count = $2, locked_at = NOW(), updated_at = NOW() WHERE id = $1',
+        [exportJob.id, rowCount]
+      );
+    } while (cursor);
+
+    closed = true;
+    await writer.close();
+
+    const { size } = await fs.promises.stat(tempPath);
+    const storageKey = `${exportJob.workspace_id}/${exportJob.id}.${format}`;
+    await getExportStorage().save(storageKey, tempPath);
+
+    await query(
+      `UPDATE event_exports
+       SET status = 'completed', row_count = $2, file_size = $3, storage_key = $4,
+           expires_at = NOW() + ($5 || ' hours')::interval,
+           locked_at = NULL, completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [exportJob.id, rowCount, size, storageKey, fileTtlHours]
+    );
+
+    logger.info(`Event export completed: ${exportJob.id} (${rowCount} events, ${format})`);
+  } catch (error) {
+    if (!closed) {
+      await writer.close().catch(() => undefined);
+    }
+    throw error;
+  } finally {
+    await fs.promises.rm(tempPath, { force: true });
+  }
+};
+
+// Run the oldest pending export. Returns false when there was none.
+export const processExports = async (): Promise<boolean> => {
+  const exportJob = await claimExport();
+
+  if (!exportJob) {
+    return false;
+  }
+
+  try {
+    await runExport(exportJob);
+  } catch (error) {
+    logger.error(`Event export failed: ${exportJob.id}`, error);
+    // parquetjs throws plain strings
+    await failExport(exportJob.id, error instanceof Error ? error.message : String(error));
+  }
+  return true;
+};
+
+// Remove the files of exports past their expiry
+export const expireEventExports = async (): Promise<number> => {
+  const expiredResult = await query(
+    `SELECT id, storage_key FROM event_exports
+     WHERE status = 'completed' AND expires_at <= NOW()`
+  );
+
+  for (const exportJob of expiredResult.rows) {
+    if (exportJob.storage_key) {
+      await getExportStorage().remove(exportJob.storage_key);
+    }
+    await query(
+      `UPDATE event_exports SET status = 'expired', storage_key = NULL, updated_at = NOW() WHERE id = $1`,
+      [exportJob.id]
+    );
+  }
+
+  return expiredResult.rows.length;
+};
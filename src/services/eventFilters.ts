@@ -0,0 +1,54 @@
+export interface EventFilters {
+  search?: string;
+  pixelId?: string;
+  eventName?: string;
+  status?: string;
+  startDate?: string | Date;
+  endDate?: string | Date;
+}
+
+// WHERE clause over events e joined with pixels p, shared by the events list and exports.
+// $1 is the workspace id.
+export const buildEventFilters = (workspaceId: string, filters: EventFilters) => {
+  let whereClause = 'WHERE p.workspace_id = $1';
+  const params: any[] = [workspaceId];
+  let paramCount = 2;
+
+  if (filters.search) {
+    whereClause += ` AND (e.event_name ILIKE $${paramCount} OR p.name ILIKE $${paramCount})`;
+    params.push(`%${filters.search}%`);
+    paramCount++;
+  }
+
+  if (filters.pixelId) {
+    whereClause += ` AND e.pixel_id = $${paramCount}`;
+    params.push(filters.pixelId);
+    paramCount++;
+  }
+
+  if (filters.eventName) {
+    whereClause += ` AND e.event_name = $${paramCount}`;
+    params.push(filters.eventName);
+    paramCount++;
+  }
+
+  if (filters.status) {
+    whereClause += ` AND e.status = $${paramCount}`;
+    params.push(filters.status);
+    paramCount++;
+  }
+
+  if (filters.startDate) {
+    whereClause += ` AND e.created_at >= $${paramCount}`;
+    params.push(filters.startDate);
+    paramCount++;
+  }
+
+  if (filters.endDate) {
+    whereClause += ` AND e.created_at <= $${paramCount}`;
+    params.push(filters.endDate);
+    paramCount++;
+  }
+
+  return { whereClause, params };
+};
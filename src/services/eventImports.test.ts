@@ -0,0 +1,281 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { query } from '../config/database';
+import { ingestEvents } from './ingestion';
+import { ensureEventPartitionsFor } from './eventPartitions';
+import { getPixelRetention } from './retention';
+import {
+  ImportMapping,
+  detectImportFormat,
+  getImportRowLimits,
+  importMappingSchema,
+  mapImportRow,
+  processImports
+} from './eventImports';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('./ingestion', () => ({
+  ingestEvents: jest.fn()
+}));
+jest.mock('./eventPartitions', () => ({
+  ensureEventPartitionsFor: jest.fn()
+}));
+jest.mock('./retention', () => ({
+  getPixelRetention: jest.fn()
+}));
+
+const mockedQuery = query as jest.Mock;
+const mockedIngestEvents = ingestEvents as jest.Mock;
+const mockedGetPixelRetention = getPixelRetention as jest.Mock;
+
+const PIXEL_ID = '00000000-0000-0000-0000-000000000003';
+const NOW = new Date('2024-03-10T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const limits = getImportRowLimits(365, false, NOW);
+
+describe('getImportRowLimits', () => {
+  it('bounds event times by the retention window, and by 7 days when forwarding', () => {
+    expect(getImportRowLimits(30, false, NOW)).toEqual({
+      minEventTime: new Date(NOW.getTime() - 30 * DAY_MS),
+      minForwardedEventTime: null
+    });
+    expect(getImportRowLimits(30, true, NOW).minForwardedEventTime).toEqual(new Date(NOW.getTime() - 7 * DAY_MS));
+  });
+});
+
+describe('mapImportRow', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('maps a CSV row, reading JSON cells and mapped parameter paths', () => {
+    const mapping: ImportMapping = {
+      eventName: 'event',
+      eventTime: 'time',
+      eventId: 'order_id',
+      ipAddress: 'ip',
+      parameters: { value: 'total', currency: 'currency', contents: 'items', 'user_data.em': 'email' }
+    };
+    const record = {
+      event: 'Purchase',
+      time: '2024-03-01T10:00:00Z',
+      order_id: '1001',
+      ip: '203.0.113.7',
+      total: '49.90',
+      currency: 'USD',
+      items: '[{"id":"sku-1","quantity":2}]',
+      email: ' jane@example.com '
+    };
+
+    expect(mapImportRow(record, mapping, PIXEL_ID, limits)).toEqual({
+      event: {
+        pixelId: PIXEL_ID,
+        eventName: 'Purchase',
+        eventTime: new Date('2024-03-01T10:00:00Z'),
+        eventId: '1001',
+        ipAddress: '203.0.113.7',
+        parameters: {
+          value: '49.90',
+          currency: 'USD',
+          contents: [{ id: 'sku-1', quantity: 2 }],
+          user_data: { em: 'jane@example.com' }
+        }
+      },
+      errors: []
+    });
+  });
+
+  it('maps an NDJSON record through dot paths and a parameters object', () => {
+    const mapping: ImportMapping = { eventName: 'event.name', eventTime: 'event.time', eventId: 'event.id', parameters: 'data' };
+    const record = { event: { name: 'Lead', time: 1709287200, id: 42 }, data: { value: 5 } };
+
+    expect(mapImportRow(record, mapping, PIXEL_ID, limits).event).toEqual({
+      pixelId: PIXEL_ID,
+      eventName: 'Lead',
+      eventTime: new Date('2024-03-01T10:00:00Z'),
+      eventId: '42',
+      parameters: { value: 5 }
+    });
+  });
+
+  it('reads unix timestamps in seconds or milliseconds', () => {
+    const mapping: ImportMapping = { eventTime: 'time', defaults: { eventName: 'PageView', source: 'server' } };
+
+    expect(mapImportRow({ time: '1709287200' }, mapping, PIXEL_ID, limits).event?.eventTime).toEqual(new Date('2024-03-01T10:00:00Z'));
+    expect(mapImportRow({ time: 1709287200000 }, mapping, PIXEL_ID, limits).event).toMatchObject({
+      eventName: 'PageView',
+      source: 'server',
+      eventTime: new Date('2024-03-01T10:00:00Z')
+    });
+  });
+
+  it('reports every problem of a row', () => {
+    const mapping: ImportMapping = { eventName: 'event', eventTime: 'time', ipAddress: 'ip' };
+
+    const { event, errors } = mapImportRow({ event: '', time: 'yesterday', ip: 'not-an-ip' }, mapping, PIXEL_ID, limits);
+
+    expect(event).toBeUndefined();
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toContain('"eventName" is required');
+  });
+
+  it('rejects future events and events outside the retention window', () => {
+    const mapping: ImportMapping = { eventName: 'event', eventTime: 'time' };
+    const rowLimits = getImportRowLimits(30, false, NOW);
+
+    expect(mapImportRow({ event: 'Lead', time: '2024-03-11T00:00:00Z' }, mapping, PIXEL_ID, rowLimits).errors)
+      .toEqual(['"eventTime" cannot be in the future']);
+    expect(mapImportRow({ event: 'Lead', time: '2024-02-01T00:00:00Z' }, mapping, PIXEL_ID, rowLimits).errors)
+      .toEqual(['"eventTime" is older than the events retention window of the pixel']);
+  });
+
+  it('rejects events Meta would refuse when they are forwarded', () => {
+    const mapping: ImportMapping = { eventName: 'event', eventTime: 'time' };
+    const record = { event: 'Lead', time: '2024-03-01T00:00:00Z' };
+
+    expect(mapImportRow(record, mapping, PIXEL_ID, getImportRowLimits(30, true, NOW)).errors[0]).toContain('import it without forward');
+    expect(mapImportRow(record, mapping, PIXEL_ID, getImportRowLimits(30, false, NOW)).errors).toEqual([]);
+  });
+});
+
+describe('import mappings', () => {
+  it('requires an event time and an event name column or default', () => {
+    expect(importMappingSchema.validate({ eventName: 'event', eventTime: 'time' }).error).toBeUndefined();
+    expect(importMappingSchema.validate({ eventTime: 'time', defaults: { eventName: 'Lead' } }).error).toBeUndefined();
+    expect(importMappingSchema.validate({ eventTime: 'time' }).error).toBeDefined();
+    expect(importMappingSchema.validate({ eventName: 'event' }).error).toBeDefined();
+  });
+
+  it.each([
+    ['events.csv', 'csv'],
+    ['events.NDJSON', 'ndjson'],
+    ['events.jsonl', 'ndjson'],
+    ['events.json', null]
+  ])('detects the format of %s', (fileName, format) => {
+    expect(detectImportFormat(fileName)).toBe(format);
+  });
+});
+
+describe('processImports', () => {
+  const env = process.env;
+  let directory: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'queueMicrotask'] }).setSystemTime(NOW);
+    process.env = { ...env, IMPORT_BATCH_SIZE: '2' };
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'event-import-test-'));
+    mockedGetPixelRetention.mockResolvedValue({ eventsDays: 365 });
+    mockedIngestEvents.mockImplementation(async (events: any[]) =>
+      events.map((event, index) => ({ id: `event-${index}`, duplicate: false, validationErrors: [], ...event })));
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    process.env = env;
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  const mockImport = async (format: string, contents: string, overrides: Record<string, any> = {}) => {
+    const filePath = path.join(directory, `upload.${format}`);
+    await fs.promises.writeFile(filePath, contents);
+    const eventImport = {
+      id: 'import-1',
+      pixel_id: PIXEL_ID,
+      format,
+      mapping: { eventName: 'event', eventTime: 'time', parameters: { value: 'value' } },
+      forward: false,
+      file_path: filePath,
+      processed_rows: 0,
+      failed_rows: 0,
+      ...overrides
+    };
+
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes("SET status = 'running'")) {
+        return { rows: [eventImport] };
+      }
+      if (sql.includes('RETURNING failed_rows')) {
+        return { rows: [{ failed_rows: 0 }] };
+      }
+      return { rows: [{ imported_rows: 0, duplicate_rows: 0, failed_rows: 0 }] };
+    });
+    return filePath;
+  };
+
+  const progressUpdates = () => mockedQuery.mock.calls
+    .filter(([sql]) => sql.includes('RETURNING failed_rows'))
+    .map(([, params]) => params.slice(1, 5));
+
+  const storedErrors = () => mockedQuery.mock.calls
+    .filter(([sql]) => sql.includes('INSERT INTO event_import_errors'))
+    .flatMap(([, params]) => JSON.parse(params[1]));
+
+  it('imports a CSV file in batches without forwarding', async () => {
+    const filePath = await mockImport('csv', '\uFEFFevent,time,value\r\nLead,2024-03-01T10:00:00Z,1\r\nPurchase,2024-02-01T10:00:00Z,2\r\n,2024-03-01T10:00:00Z,3\r\n');
+
+    expect(await processImports()).toBe(true);
+
+    expect(mockedIngestEvents).toHaveBeenCalledTimes(1);
+    expect(mockedIngestEvents.mock.calls[0][0].map((event: any) => event.eventName)).toEqual(['Lead', 'Purchase']);
+    expect(mockedIngestEvents.mock.calls[0][1]).toEqual({ deliver: false });
+    expect(ensureEventPartitionsFor).toHaveBeenCalledWith([new Date('2024-03-01T10:00:00Z'), new Date('2024-02-01T10:00:00Z')]);
+    // [processed rows, imported, duplicates, failed]
+    expect(progressUpdates()).toEqual([[2, 2, 0, 0], [3, 0, 0, 1]]);
+    expect(storedErrors()).toEqual([{ rowNumber: 3, errors: ['"eventName" is required'], eventId: null }]);
+    await expect(fs.promises.access(filePath)).rejects.toThrow();
+  });
+
+  it('reports NDJSON lines that are not JSON objects', async () => {
+    await mockImport('ndjson', '{"event":"Lead","time":"2024-03-01T10:00:00Z"}\n\nnot json\n[1,2]\n');
+
+    await processImports();
+
+    expect(mockedIngestEvents.mock.calls[0][0]).toHaveLength(1);
+    expect(storedErrors()).toEqual([
+      { rowNumber: 2, errors: ['Row is not valid JSON'], eventId: null },
+      { rowNumber: 3, errors: ['Row is not a JSON object'], eventId: null }
+    ]);
+  });
+
+  it('resumes after the rows already processed', async () => {
+    await mockImport('csv', 'event,time\nLead,2024-03-01T10:00:00Z\nPurchase,2024-03-01T11:00:00Z\nLead,2024-03-01T12:00:00Z\n', { processed_rows: 2 });
+
+    await processImports();
+
+    expect(mockedIngestEvents.mock.calls[0][0]).toEqual([expect.objectContaining({ eventName: 'Lead', eventTime: new Date('2024-03-01T12:00:00Z') })]);
+    expect(progressUpdates()).toEqual([[3, 1, 0, 0]]);
+  });
+
+  it('rejects rows older than the retention window of the pixel', async () => {
+    mockedGetPixelRetention.mockResolvedValue({ eventsDays: 30 });
+    await mockImport('csv', 'event,time\nLead,2024-01-01T10:00:00Z\n');
+
+    await processImports();
+
+    expect(mockedGetPixelRetention).toHaveBeenCalledWith(PIXEL_ID);
+    expect(mockedIngestEvents).not.toHaveBeenCalled();
+    expect(storedErrors()[0].errors).toEqual(['"eventTime" is older than the events retention window of the pixel']);
+  });
+
+  it('marks the import as failed when events cannot be stored', async () => {
+    await mockImport('csv', 'event,time\nLead,2024-03-01T10:00:00Z\n');
+    mockedIngestEvents.mockRejectedValue(new Error('database unavailable'));
+
+    await processImports();
+
+    const failed = mockedQuery.mock.calls.find(([sql]) => sql.includes("SET status = 'failed'"));
+    expect(failed[1]).toEqual(['import-1', 'database unavailable']);
+  });
+});
@@ -0,0 +1,419 @@
+import fs from 'fs';
+import readline from 'readline';
+import { parse } from 'csv-parse';
+import Joi from 'joi';
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+import { ingestEvents, IngestEventInput } from './ingestion';
+import { ensureEventPartitionsFor } from './eventPartitions';
+import { getPixelRetention } from './retention';
+import { MAX_EVENT_AGE_DAYS } from './metaConversions';
+
+export const IMPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const getImportConfig = () => ({
+  batchSize: parseInt(process.env.IMPORT_BATCH_SIZE || '500'),
+  // Imports locked longer than this are claimed again (crashed worker)
+  lockTimeoutMs: parseInt(process.env.IMPORT_LOCK_TIMEOUT_MS || '600000'), // 10 minutes
+  uploadDir: process.env.IMPORT_UPLOAD_DIR || 'imports',
+  maxFileSizeMb: parseInt(process.env.IMPORT_MAX_FILE_SIZE_MB || '200'),
+  // Row errors stored per import; further errors are only counted
+  maxErrors: parseInt(process.env.IMPORT_MAX_ERRORS || '1000')
+});
+
+// Which column (CSV) or field (NDJSON, dot paths allowed) holds each event field
+export interface ImportMapping {
+  eventName?: string;
+  eventTime: string;
+  eventId?: string;
+  source?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  // A column holding the parameters as a JSON object, or parameter paths mapped to columns
+  parameters?: string | Record<string, string>;
+  // Values used when the row has none
+  defaults?: {
+    eventName?: string;
+    source?: string;
+  };
+}
+
+const column = Joi.string().min(1).max(255);
+
+export const importMappingSchema = Joi.object({
+  eventName: column.optional(),
+  eventTime: column.required(),
+  eventId: column.optional(),
+  source: column.optional(),
+  userAgent: column.optional(),
+  ipAddress: column.optional(),
+  parameters: Joi.alternatives().try(column, Joi.object().pattern(column, column).min(1)).optional(),
+  defaults: Joi.object({
+    eventName: Joi.string().min(1).max(100).optional(),
+    source: Joi.string().valid('web', 'server', 'mobile').optional()
+  }).optional()
+}).or('eventName', 'defaults.eventName');
+
+// Oldest event times accepted from a file
+export interface ImportRowLimits {
+  // Older events would be removed by the next cleanup of the pixel's events retention window
+  minEventTime: Date;
+  // Set when the events are forwarded, as Meta rejects older events
+  minForwardedEventTime: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getImportRowLimits = (eventsDays: number, forward: boolean, now = new Date()): ImportRowLimits => ({
+  minEventTime: new Date(now.getTime() - eventsDays * DAY_MS),
+  minForwardedEventTime: forward ? new Date(now.getTime() - MAX_EVENT_AGE_DAYS * DAY_MS) : null
+});
+
+// A mapped row, checked like the events accepted by POST /events. The context holds the
+// ImportRowLimits.
+const importedEventSchema = Joi.object({
+  eventName: Joi.string().min(1).max(100).required(),
+  eventTime: Joi.date().max('now').required().messages({ 'date.max': '"eventTime" cannot be in the future' }).custom((value, helpers) => {
+    const { minEventTime, minForwardedEventTime } = helpers.prefs.context as ImportRowLimits;
+    if (value < minEventTime) {
+      return helpers.message({ custom: '"eventTime" is older than the events retention window of the pixel' });
+    }
+    if (minForwardedEventTime && value < minForwardedEventTime) {
+      return helpers.message({ custom: `"eventTime" is older than the ${MAX_EVENT_AGE_DAYS} days Meta accepts, import it without forward` });
+    }
+    return value;
+  }),
+  eventId: Joi.string().max(100).optional(),
+  source: Joi.string().valid('web', 'server', 'mobile').optional(),
+  userAgent: Joi.string().max(500).optional(),
+  ipAddress: Joi.string().ip().optional(),
+  parameters: Joi.object().optional()
+});
+
+interface ImportRow {
+  rowNumber: number;
+  record: Record<string, any> | null;
+  // Set when the row could not be read at all
+  error?: string;
+}
+
+interface RowError {
+  rowNumber: number;
+  errors: string[];
+  // Set when the row was stored as an error event
+  eventId: string | null;
+}
+
+export const detectImportFormat = (fileName: string): ImportFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv') {
+    return 'csv';
+  }
+  if (extension === 'ndjson' || extension === 'jsonl') {
+    return 'ndjson';
+  }
+  return null;
+};
+
+async function* readCsvRows(filePath: string): AsyncGenerator<ImportRow> {
+  const parser = fs.createReadStream(filePath).pipe(parse({
+    columns: true,
+    bom: true,
+    trim: true,
+    skip_empty_lines: true,
+    relax_column_count: true
+  }));
+
+  let rowNumber = 0;
+  for await (const record of parser) {
+    rowNumber++;
+    yield { rowNumber, record };
+  }
+}
+
+async function* readNdjsonRows(filePath: string): AsyncGenerator<ImportRow> {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+
+  let rowNumber = 0;
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    rowNumber++;
+
+    try {
+      const record = JSON.parse(line);
+      if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+        yield { rowNumber, record: null, error: 'Row is not a JSON object' };
+      } else {
+        yield { rowNumber, record };
+      }
+    } catch (error) {
+      yield { rowNumber, record: null, error: 'Row is not valid JSON' };
+    }
+  }
+}
+
+// Look a field up by its exact name first, then as a dot path into nested objects
+const getField = (record: Record<string, any>, field?: string): any => {
+  if (!field) {
+    return undefined;
+  }
+
+  let value = field in record
+    ? record[field]
+    : field.split('.').reduce((current: any, key) => (current && typeof current === 'object' ? current[key] : undefined), record);
+
+  if (typeof value === 'string') {
+    value = value.trim();
+    if (value === '') {
+      return undefined;
+    }
+    // Arrays and objects in CSV cells, such as contents, are written as JSON
+    if (/^[[{]/.test(value)) {
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        return value;
+      }
+    }
+  }
+
+  return value ?? undefined;
+};
+
+const setPath = (target: Record<string, any>, path: string, value: any) => {
+  const keys = path.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!current[key] || typeof current[key] !== 'object') {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+};
+
+// Unix timestamps are accepted in seconds (as sent to Meta) or milliseconds
+const toEventTime = (value: any): any => {
+  if (typeof value === 'number' || (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value))) {
+    const timestamp = Number(value);
+    return new Date(timestamp < 1e11 ? timestamp * 1000 : timestamp);
+  }
+  return value;
+};
+
+// Build the event of a row from the mapping. Returns the row errors when it cannot be imported.
+export const mapImportRow = (
+  record: Record<string, any>,
+  mapping: ImportMapping,
+  pixelId: string,
+  limits: ImportRowLimits
+): { event?: IngestEventInput; errors: string[] } => {
+  let parameters: any;
+  if (typeof mapping.parameters === 'string') {
+    parameters = getField(record, mapping.parameters);
+  } else if (mapping.parameters) {
+    parameters = {};
+    for (const [path, field] of Object.entries(mapping.parameters)) {
+      const value = getField(record, field);
+      if (value !== undefined) {
+        setPath(parameters, path, value);
+      }
+    }
+  }
+
+  const eventId = getField(record, mapping.eventId);
+  const mapped = {
+    eventName: getField(record, mapping.eventName) ?? mapping.defaults?.eventName,
+    eventTime: toEventTime(getField(record, mapping.eventTime)),
+    eventId: eventId === undefined ? undefined : String(eventId),
+    source: getField(record, mapping.source) ?? mapping.defaults?.source,
+    userAgent: getField(record, mapping.userAgent),
+    ipAddress: getField(record, mapping.ipAddress),
+    parameters
+  };
+
+  const { error, value } = importedEventSchema.validate(mapped, { abortEarly: false, context: limits });
+  if (error) {
+    return { errors: error.details.map((detail) => detail.message) };
+  }
+
+  return {
+    event: { pixelId, ...value },
+    errors: []
+  };
+};
+
+// Hide worker internals of an event_imports row
+export const formatImport = (eventImport: any) => {
+  const { file_path, locked_at, ...rest } = eventImport;
+  return rest;
+};
+
+// Claim one queued import that no worker is processing. Interrupted imports resume after
+// their last completed batch.
+const claimImport = async (): Promise<any | null> => {
+  const { lockTimeoutMs } = getImportConfig();
+
+  const claimedResult = await query(
+    `UPDATE event_imports
+     SET status = 'running', locked_at = NOW(), started_at = COALESCE(started_at, NOW()), updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM event_imports
+       WHERE status IN ('queued', 'running')
+         AND (locked_at IS NULL OR locked_at < NOW() - ($1 || ' milliseconds')::interval)
+       ORDER BY created_at
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [lockTimeoutMs]
+  );
+
+  return claimedResult.rows[0] || null;
+};
+
+const failImport = async (importId: string, errorMessage: string): Promise<void> => {
+  await query(
+    `UPDATE event_imports
+     SET status = 'failed', error_message = $2, locked_at = NULL, completed_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'running'`,
+    [importId, errorMessage]
+  );
+};
+
+// Store a batch of mapped rows and record the progress of the import
+const importBatch = async (
+  eventImport: any,
+  rows: { rowNumber: number; event: IngestEventInput }[],
+  rowErrors: RowError[],
+  processedRows: number
+): Promise<void> => {
+  let imported = 0;
+  let duplicates = 0;
+  let firstEventAt: Date | null = null;
+  let lastEventAt: Date | null = null;
+
+  if (rows.length > 0) {
+    const times = rows.map((row) => row.event.eventTime!);
+    firstEventAt = new Date(Math.min(...times.map((time) => time.getTime())));
+    lastEventAt = new Date(Math.max(...times.map((time) => time.getTime())));
+
+    // Historical events may fall in months without a partition yet
+    await ensureEventPartitionsFor(times);
+
+    const ingested = await ingestEvents(rows.map((row) => row.event), { deliver: eventImport.forward });
+
+    ingested.forEach((event, index) => {
+      if (event.duplicate) {
+        duplicates++;
+        return;
+      }
+      imported++;
+      if (event.validationErrors.length > 0) {
+        rowErrors.push({ rowNumber: rows[index].rowNumber, errors: event.validationErrors, eventId: event.id });
+      }
+    });
+  }
+
+  // Only the first maxErrors errors are stored; the rest are counted
+  const { maxErrors } = getImportConfig();
+  const storable = rowErrors.slice(0, Math.max(maxErrors - eventImport.failed_rows, 0));
+  if (storable.length > 0) {
+    await query(
+      `INSERT INTO event_import_errors (import_id, row_number, errors, event_id, created_at)
+       SELECT $1, (e->>'rowNumber')::int, e->'errors', (e->>'eventId')::uuid, NOW()
+       FROM jsonb_array_elements($2::jsonb) e`,
+      [eventImport.id, JSON.stringify(storable)]
+    );
+  }
+
+  const progressResult = await query(
+    `UPDATE event_imports
+     SET processed_rows = $2,
+         imported_rows = imported_rows + $3,
+         duplicate_rows = duplicate_rows + $4,
+         failed_rows = failed_rows + $5,
+         first_event_at = LEAST(first_event_at, $6),
+         last_event_at = GREATEST(last_event_at, $7),
+         locked_at = NOW(),
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING failed_rows`,
+    [eventImport.id, processedRows, imported, duplicates, rowErrors.length, firstEventAt, lastEventAt]
+  );
+  eventImport.failed_rows = progressResult.rows[0].failed_rows;
+};
+
+// Read the uploaded file in batches, skipping the rows already processed by an earlier run
+const runImport = async (eventImport: any): Promise<void> => {
+  const { batchSize } = getImportConfig();
+  const mapping = eventImport.mapping as ImportMapping;
+  const rows = eventImport.format === 'csv' ? readCsvRows(eventImport.file_path) : readNdjsonRows(eventImport.file_path);
+  const { eventsDays } = await getPixelRetention(eventImport.pixel_id);
+  const limits = getImportRowLimits(eventsDays!, eventImport.forward);
+
+  let batch: { rowNumber: number; event: IngestEventInput }[] = [];
+  let rowErrors: RowError[] = [];
+  let processedRows = eventImport.processed_rows;
+
+  for await (const row of rows) {
+    if (row.rowNumber <= eventImport.processed_rows) {
+      continue;
+    }
+
+    if (row.record) {
+      const { event, errors } = mapImportRow(row.record, mapping, eventImport.pixel_id, limits);
+      if (event) {
+        batch.push({ rowNumber: row.rowNumber, event });
+      } else {
+        rowErrors.push({ rowNumber: row.rowNumber, errors, eventId: null });
+      }
+    } else {
+      rowErrors.push({ rowNumber: row.rowNumber, errors: [row.error!], eventId: null });
+    }
+    processedRows = row.rowNumber;
+
+    if (batch.length + rowErrors.length >= batchSize) {
+      await importBatch(eventImport, batch, rowErrors, processedRows);
+      batch = [];
+      rowErrors = [];
+    }
+  }
+
+  await importBatch(eventImport, batch, rowErrors, processedRows);
+
+  const completedResult = await query(
+    `UPDATE event_imports
+     SET status = 'completed', locked_at = NULL, completed_at = NOW(), updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [eventImport.id]
+  );
+  const completed = completedResult.rows[0];
+
+  logger.info(`Event import completed: ${eventImport.id} (${completed.imported_rows} imported, ${completed.duplicate_rows} duplicates, ${completed.failed_rows} with errors)`);
+};
+
+// Run the oldest pending import. Returns false when there was none.
+export const processImports = async (): Promise<boolean> => {
+  const eventImport = await claimImport();
+
+  if (!eventImport) {
+    return false;
+  }
+
+  try {
+    await runImport(eventImport);
+  } catch (error) {
+    logger.error(`Event import failed: ${eventImport.id}`, error);
+    await failImport(eventImport.id, error instanceof Error ? error.message : 'Unknown error');
+  }
+
+  // The upload is not needed once the import has finished either way
+  await fs.promises.rm(eventImport.file_path, { force: true });
+  return true;
+};
@@ -0,0 +1,103 @@
+import { query, getClient } from '../config/database';
+import { logger } from '../utils/logger';
+
+export const getPartitionConfig = () => ({
+  // Months after the current one that always have a partition ready
+  monthsAhead: parseInt(process.env.EVENT_PARTITIONS_AHEAD_MONTHS || '3')
+});
+
+// Monthly partitions are named events_pYYYY_MM and cover that UTC month
+const PARTITION_NAME = /^events_p(\d{4})_(\d{2})$/;
+
+export interface EventPartition {
+  name: string;
+  from: Date;
+  to: Date;
+}
+
+// Create any missing partition from the current month up to monthsAhead months from now
+export const ensureEventPartitions = async (monthsAhead = getPartitionConfig().monthsAhead): Promise<number> => {
+  const now = new Date();
+  const until = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + monthsAhead, 1));
+
+  const result = await query('SELECT ensure_event_partitions($1, $2) as created', [now, until]);
+  const created = result.rows[0].created || 0;
+
+  if (created > 0) {
+    logger.info(`Created ${created} event partitions up to ${until.toISOString()}`);
+  }
+
+  return created;
+};
+
+// Create any missing partition for the months of the given event times, such as imported
+// historical events
+export const ensureEventPartitionsFor = async (times: Date[]): Promise<number> => {
+  const months = [...new Set(times.map((time) => Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), 1)))];
+  let created = 0;
+
+  for (const month of months) {
+    const result = await query('SELECT ensure_event_partitions($1, $1) as created', [new Date(month)]);
+    created += result.rows[0].created || 0;
+  }
+
+  return created;
+};
+
+export const listEventPartitions = async (): Promise<EventPartition[]> => {
+  const result = await query(
+    `SELECT c.relname as name
+     FROM pg_inherits i
+     JOIN pg_class c ON i.inhrelid = c.oid
+     WHERE i.inhparent = 'events'::regclass`
+  );
+
+  const partitions: EventPartition[] = [];
+  for (const row of result.rows) {
+    const match = PARTITION_NAME.exec(row.name);
+    if (!match) {
+      continue;
+    }
+    const year = parseInt(match[1]);
+    const month = parseInt(match[2]) - 1;
+    partitions.push({
+      name: row.name,
+      from: new Date(Date.UTC(year, month, 1)),
+      to: new Date(Date.UTC(year, month + 1, 1))
+    });
+  }
+
+  return partitions.sort((a, b) => a.from.getTime() - b.from.getTime());
+};
+
+// Drop the partitions holding only events created before the cutoff, together with their
+// deliveries, conversion matches and deduplication keys. Returns the dropped partitions and their event count.
+export const dropEventPartitionsBefore = async (cutoff: Date): Promise<{ partitions: string[]; events: number }> => {
+  const expired = (await listEventPartitions()).filter((partition) => partition.to <= cutoff);
+  let events = 0;
+
+  for (const partition of expired) {
+    const client = await getClient();
+
+    try {
+      await client.query('BEGIN');
+      // Dropping a table skips the delete trigger, so dependents are removed here
+      await client.query(`DELETE FROM event_deliveries WHERE event_id IN (SELECT id FROM "${partition.name}")`);
+      await client.query(`DELETE FROM conversion_matches WHERE event_id IN (SELECT id FROM "${partition.name}")`);
+      await client.query('DELETE FROM event_dedup_keys WHERE event_time >= $1 AND event_time < $2', [partition.from, partition.to]);
+      const countResult = await client.query(`SELECT COUNT(*) as total FROM "${partition.name}"`);
+      await client.query(`DROP TABLE "${partition.name}"`);
+      await client.query('COMMIT');
+
+      events += parseInt(countResult.rows[0].total);
+      logger.info(`Dropped event partition ${partition.name}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  return { partitions: expired.map((partition) => partition.name), events };
+};
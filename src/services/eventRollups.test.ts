@@ -0,0 +1,153 @@
+import { query, getClient } from '../config/database';
+import { EVENT_ROLLUP_WATERMARK_SQL, eventCountsSql, rebuildEventRollups, updateEventRollups } from './eventRollups';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn(),
+  getClient: jest.fn()
+}));
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const mockedQuery = query as jest.Mock;
+const mockedGetClient = getClient as jest.Mock;
+
+const NOW = new Date('2024-03-10T12:30:00Z');
+
+let client: { query: jest.Mock; release: jest.Mock };
+
+// [from, to, watermark] of every range rolled up
+const rolledUpRanges = () => {
+  const ranges: [string, string, string | null][] = [];
+  let current: [string, string, string | null] | null = null;
+
+  for (const [sql, params] of client.query.mock.calls) {
+    if (sql.startsWith('DELETE FROM event_rollups_hourly')) {
+      current = [params[0].toISOString(), params[1].toISOString(), null];
+      ranges.push(current);
+    }
+    if (sql.includes('INSERT INTO rollup_watermarks') && current) {
+      current[2] = params[1].toISOString();
+    }
+  }
+  return ranges;
+};
+
+describe('event rollups', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+    client = { query: jest.fn().mockResolvedValue({ rows: [], rowCount: 0 }), release: jest.fn() };
+    mockedGetClient.mockResolvedValue(client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('updateEventRollups', () => {
+    it('does nothing without events', async () => {
+      mockedQuery.mockResolvedValue({ rows: [{ watermark: null, first_event: null }] });
+
+      expect(await updateEventRollups()).toBe(0);
+      expect(mockedGetClient).not.toHaveBeenCalled();
+    });
+
+    it('starts from the hour of the first event and advances the watermark per chunk', async () => {
+      mockedQuery.mockResolvedValue({ rows: [{ watermark: null, first_event: new Date('2024-03-08T10:15:00Z') }] });
+
+      await updateEventRollups();
+
+      expect(rolledUpRanges()).toEqual([
+        ['2024-03-08T10:00:00.000Z', '2024-03-09T10:00:00.000Z', '2024-03-09T10:00:00.000Z'],
+        ['2024-03-09T10:00:00.000Z', '2024-03-10T10:00:00.000Z', '2024-03-10T10:00:00.000Z'],
+        // Up to the last whole hour before the lag
+        ['2024-03-10T10:00:00.000Z', '2024-03-10T12:00:00.000Z', '2024-03-10T12:00:00.000Z']
+      ]);
+    });
+
+    it('recomputes the hours before the watermark', async () => {
+      mockedQuery.mockResolvedValue({ rows: [{ watermark: new Date('2024-03-10T11:00:00Z'), first_event: new Date('2024-01-01T00:00:00Z') }] });
+
+      await updateEventRollups();
+
+      expect(rolledUpRanges()).toEqual([
+        ['2024-03-10T05:00:00.000Z', '2024-03-10T12:00:00.000Z', '2024-03-10T12:00:00.000Z']
+      ]);
+    });
+
+    it('never moves the watermark backwards', async () => {
+      mockedQuery.mockResolvedValue({ rows: [{ watermark: new Date('2024-03-10T11:00:00Z'), first_event: null }] });
+
+      await updateEventRollups();
+
+      const watermarkSql = client.query.mock.calls.find(([sql]) => sql.includes('INSERT INTO rollup_watermarks'))[0];
+      expect(watermarkSql).toContain('GREATEST(rollup_watermarks.watermark, EXCLUDED.watermark)');
+    });
+
+    it('serializes runs with an advisory lock and rolls back on errors', async () => {
+      mockedQuery.mockResolvedValue({ rows: [{ watermark: new Date('2024-03-10T11:00:00Z'), first_event: null }] });
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.startsWith('INSERT INTO event_rollups_daily')) {
+          throw new Error('rollup failed');
+        }
+        return { rows: [], rowCount: 0 };
+      });
+
+      await expect(updateEventRollups()).rejects.toThrow('rollup failed');
+
+      const statements = client.query.mock.calls.map(([sql]) => sql);
+      expect(statements[1]).toBe('SELECT pg_advisory_xact_lock(hashtext($1))');
+      expect(statements).toContain('ROLLBACK');
+      expect(statements.some((sql) => sql.includes('INSERT INTO rollup_watermarks'))).toBe(false);
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('rebuildEventRollups', () => {
+    it('rebuilds whole hours up to the watermark without moving it', async () => {
+      mockedQuery.mockResolvedValue({ rows: [{ watermark: new Date('2024-03-10T06:00:00Z') }] });
+
+      await rebuildEventRollups(new Date('2024-03-10T01:30:00Z'), new Date('2024-03-10T09:00:00Z'));
+
+      expect(rolledUpRanges()).toEqual([['2024-03-10T01:00:00.000Z', '2024-03-10T06:00:00.000Z', null]]);
+    });
+
+    it('does nothing before the first rollup', async () => {
+      mockedQuery.mockResolvedValue({ rows: [] });
+
+      expect(await rebuildEventRollups(new Date('2024-03-01T00:00:00Z'), NOW)).toBe(0);
+      expect(mockedGetClient).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('eventCountsSql', () => {
+  it('reads rollups before the watermark and raw events after it', () => {
+    const sql = eventCountsSql('hour', '$2', '$3');
+
+    expect(sql).toContain('FROM event_rollups_hourly r');
+    expect(sql).toContain(`AND r.bucket < ${EVENT_ROLLUP_WATERMARK_SQL}`);
+    expect(sql).toContain(`e.created_at >= GREATEST(($2)::timestamptz, ${EVENT_ROLLUP_WATERMARK_SQL})`);
+    expect(sql).toContain('AND e.is_test = false');
+    expect(sql).not.toContain('r.pixel_id IN');
+  });
+
+  it('reads raw events only at the minute resolution', () => {
+    const sql = eventCountsSql('minute', '$2', '$3', 'SELECT $1::uuid');
+
+    expect(sql).not.toContain('event_rollups');
+    expect(sql).toContain(`(date_trunc('minute', e.created_at AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') as bucket`);
+    expect(sql).toContain('WHERE e.created_at >= ($2)::timestamptz');
+    expect(sql).toContain('AND e.pixel_id IN (SELECT $1::uuid)');
+  });
+
+  it('reads daily rollups as UTC days and scopes both sides to the pixels', () => {
+    const sql = eventCountsSql('day', '$2', '$3', 'SELECT id FROM pixels WHERE workspace_id = $1');
+
+    expect(sql).toContain('FROM event_rollups_daily r');
+    expect(sql).toContain(`(r.bucket::timestamp AT TIME ZONE 'UTC') >= (date_trunc('day', ($2)::timestamptz AT TIME ZONE 'UTC') AT TIME ZONE 'UTC')`);
+    expect(sql).toContain('AND r.pixel_id IN (SELECT id FROM pixels WHERE workspace_id = $1)');
+    expect(sql).toContain('AND e.pixel_id IN (SELECT id FROM pixels WHERE workspace_id = $1)');
+  });
+});
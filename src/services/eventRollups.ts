@@ -0,0 +1,208 @@
+import { query, getClient } from '../config/database';
+import { logger } from '../utils/logger';
+
+export type RollupResolution = 'hour' | 'day';
+
+// Rollup buckets, or minutes of raw events for buckets rollups cannot be regrouped into
+export type EventCountResolution = RollupResolution | 'minute';
+
+export const getRollupConfig = () => ({
+  // Events younger than this are left to the raw table, so in-flight inserts are not missed
+  lagSeconds: parseInt(process.env.ROLLUP_LAG_SECONDS || '120'),
+  // Hours before the watermark recomputed on every run. Changes to rolled-up events are also
+  // applied as they happen, by the events_apply_rollup_changes trigger.
+  recomputeHours: parseInt(process.env.ROLLUP_RECOMPUTE_HOURS || '6'),
+  // Hours rolled up per transaction
+  chunkHours: parseInt(process.env.ROLLUP_CHUNK_HOURS || '24')
+});
+
+const WATERMARK_NAME = 'event_rollups';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// End of the last rolled-up hour: rollups hold every event created before it
+export const EVENT_ROLLUP_WATERMARK_SQL =
+  `COALESCE((SELECT watermark FROM rollup_watermarks WHERE name = '${WATERMARK_NAME}'), '-infinity'::timestamptz)`;
+
+const utcTruncSql = (resolution: EventCountResolution, column: string): string =>
+  `(date_trunc('${resolution}', ${column} AT TIME ZONE 'UTC') AT TIME ZONE 'UTC')`;
+
+// Event counts from raw events created in [fromSql, toParam)
+const rawEventCountsSql = (resolution: EventCountResolution, fromSql: string, toParam: string, pixelScope?: string): string =>
+  `SELECT
+      e.pixel_id,
+      ${utcTruncSql(resolution, 'e.created_at')} as bucket,
+      e.event_name,
+      e.source,
+      e.status,
+      COUNT(*) as events,
+      COALESCE(SUM(e.duplicate_count), 0) as duplicates,
+      COUNT(*) FILTER (WHERE e.duplicate_count > 0) as duplicated_events
+    FROM events e
+    WHERE e.created_at >= ${fromSql}
+      AND e.created_at < (${toParam})::timestamptz
+      AND e.is_test = false
+      ${pixelScope ? `AND e.pixel_id IN (${pixelScope})` : ''}
+    GROUP BY 1, 2, 3, 4, 5`;
+
+// Event counts per pixel, bucket, event name, source and status for events created in
+// [fromParam, toParam): rollups up to the watermark, raw events after it. Rolled-up periods
+// are counted in whole hours (or days), so from/to are rounded to the bucket holding them.
+// The minute resolution reads raw events only. pixelScope is an optional query returning
+// the pixel ids to count.
+export const eventCountsSql = (resolution: EventCountResolution, fromParam: string, toParam: string, pixelScope?: string): string => {
+  if (resolution === 'minute') {
+    return `(${rawEventCountsSql(resolution, `(${fromParam})::timestamptz`, toParam, pixelScope)})`;
+  }
+
+  const table = resolution === 'hour' ? 'event_rollups_hourly' : 'event_rollups_daily';
+  const bucket = resolution === 'hour' ? 'r.bucket' : `(r.bucket::timestamp AT TIME ZONE 'UTC')`;
+
+  return `(
+    SELECT r.pixel_id, ${bucket} as bucket, r.event_name, r.source, r.status, r.events, r.duplicates, r.duplicated_events
+    FROM ${table} r
+    WHERE ${bucket} >= ${utcTruncSql(resolution, `(${fromParam})::timestamptz`)}
+      AND ${bucket} < (${toParam})::timestamptz
+      AND ${bucket} < ${EVENT_ROLLUP_WATERMARK_SQL}
+      ${pixelScope ? `AND r.pixel_id IN (${pixelScope})` : ''}
+    UNION ALL
+    ${rawEventCountsSql(resolution, `GREATEST((${fromParam})::timestamptz, ${EVENT_ROLLUP_WATERMARK_SQL})`, toParam, pixelScope)}
+  )`;
+};
+
+// Recompute the rollups of the whole hours in [from, to) from raw events, in one transaction.
+// Days touched by the range are recomputed from the hourly rollups.
+const rollupRange = async (from: Date, to: Date, watermark: Date | null): Promise<number> => {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+    // Serialize rollup runs across instances, the rebuild command and the trigger applying
+    // event changes, which takes the lock shared
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [WATERMARK_NAME]);
+
+    await client.query('DELETE FROM event_rollups_hourly WHERE bucket >= $1 AND bucket < $2', [from, to]);
+    const hourlyResult = await client.query(
+      `INSERT INTO event_rollups_hourly (pixel_id, bucket, event_name, source, status, events, duplicates, duplicated_events, updated_at)
+       SELECT
+         e.pixel_id,
+         ${utcTruncSql('hour', 'e.created_at')},
+         e.event_name,
+         e.source,
+         e.status,
+         COUNT(*),
+         COALESCE(SUM(e.duplicate_count), 0),
+         COUNT(*) FILTER (WHERE e.duplicate_count > 0),
+         NOW()
+       FROM events e
+       WHERE e.created_at >= $1 AND e.created_at < $2 AND e.is_test = false
+       GROUP BY 1, 2, 3, 4, 5`,
+      [from, to]
+    );
+
+    const dayStart = new Date(Math.floor(from.getTime() / DAY_MS) * DAY_MS);
+    const dayEnd = new Date(Math.ceil(to.getTime() / DAY_MS) * DAY_MS);
+    await client.query(
+      `DELETE FROM event_rollups_daily WHERE bucket >= ($1::timestamptz AT TIME ZONE 'UTC')::date AND bucket < ($2::timestamptz AT TIME ZONE 'UTC')::date`,
+      [dayStart, dayEnd]
+    );
+    await client.query(
+      `INSERT INTO event_rollups_daily (pixel_id, bucket, event_name, source, status, events, duplicates, duplicated_events, updated_at)
+       SELECT
+         pixel_id,
+         (bucket AT TIME ZONE 'UTC')::date,
+         event_name,
+         source,
+         status,
+         SUM(events),
+         SUM(duplicates),
+         SUM(duplicated_events),
+         NOW()
+       FROM event_rollups_hourly
+       WHERE bucket >= $1 AND bucket < $2
+       GROUP BY 1, 2, 3, 4, 5`,
+      [dayStart, dayEnd]
+    );
+
+    if (watermark) {
+      await client.query(
+        `INSERT INTO rollup_watermarks (name, watermark, updated_at)
+         VALUES ($1, $2, NOW())
+         ON CONFLICT (name) DO UPDATE SET watermark = GREATEST(rollup_watermarks.watermark, EXCLUDED.watermark), updated_at = NOW()`,
+        [WATERMARK_NAME, watermark]
+      );
+    }
+
+    await client.query('COMMIT');
+    return hourlyResult.rowCount || 0;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+const floorToHour = (date: Date): Date => new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+
+// Roll up whole hours in [from, to) in chunks, optionally advancing the watermark after each one
+const rollupInChunks = async (from: Date, to: Date, advanceWatermark: boolean): Promise<number> => {
+  const { chunkHours } = getRollupConfig();
+  let rows = 0;
+
+  for (let start = from; start < to;) {
+    const end = new Date(Math.min(start.getTime() + chunkHours * HOUR_MS, to.getTime()));
+    rows += await rollupRange(start, end, advanceWatermark ? end : null);
+    start = end;
+  }
+
+  return rows;
+};
+
+// Bring the rollups up to date: roll up the hours completed since the watermark, and
+// recompute the last few hours before it
+export const updateEventRollups = async (): Promise<number> => {
+  const config = getRollupConfig();
+  const target = floorToHour(new Date(Date.now() - config.lagSeconds * 1000));
+
+  const stateResult = await query(
+    `SELECT
+      (SELECT watermark FROM rollup_watermarks WHERE name = $1) as watermark,
+      (SELECT MIN(created_at) FROM events) as first_event`,
+    [WATERMARK_NAME]
+  );
+  const { watermark, first_event: firstEvent } = stateResult.rows[0];
+
+  if (!watermark && !firstEvent) {
+    return 0;
+  }
+
+  const from = watermark
+    ? new Date(new Date(watermark).getTime() - config.recomputeHours * HOUR_MS)
+    : floorToHour(new Date(firstEvent));
+
+  const rows = await rollupInChunks(from, target, true);
+  logger.info(`Event rollups updated up to ${target.toISOString()}: ${rows} hourly rows`);
+  return rows;
+};
+
+// Recompute the rollups of [from, to) from raw events. Hours after the watermark are left to
+// the regular updates. Events already removed by retention are dropped from the rebuilt range.
+export const rebuildEventRollups = async (from: Date, to: Date): Promise<number> => {
+  const watermarkResult = await query('SELECT watermark FROM rollup_watermarks WHERE name = $1', [WATERMARK_NAME]);
+  if (watermarkResult.rows.length === 0) {
+    return 0;
+  }
+
+  const start = floorToHour(from);
+  const end = new Date(Math.min(Math.ceil(to.getTime() / HOUR_MS) * HOUR_MS, new Date(watermarkResult.rows[0].watermark).getTime()));
+
+  if (start >= end) {
+    return 0;
+  }
+
+  const rows = await rollupInChunks(start, end, false);
+  logger.info(`Event rollups rebuilt for ${start.toISOString()} - ${end.toISOString()}: ${rows} hourly rows`);
+  return rows;
+};
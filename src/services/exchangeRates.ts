@@ -0,0 +1,104 @@
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Source of daily exchange rates. Rates are quoted as units of each currency per one base unit.
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates(baseCurrency: string, date: Date): Promise<Record<string, number>>;
+}
+
+export interface ExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  date: string | Date;
+}
+
+const providers = new Map<string, ExchangeRateProvider>();
+
+export const registerExchangeRateProvider = (provider: ExchangeRateProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+export const getExchangeRateConfig = () => ({
+  // Empty disables automatic updates; rates can still be uploaded through the API
+  provider: process.env.EXCHANGE_RATE_PROVIDER || '',
+  apiUrl: process.env.EXCHANGE_RATE_API_URL || 'https://api.frankfurter.app',
+  requestTimeoutMs: parseInt(process.env.EXCHANGE_RATE_TIMEOUT_MS || '10000')
+});
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Frankfurter (European Central Bank reference rates): GET /{date}?from={base} -> { rates: { USD: 0.18 } }
+registerExchangeRateProvider({
+  name: 'frankfurter',
+  fetchRates: async (baseCurrency, date) => {
+    const config = getExchangeRateConfig();
+    const response = await axios.get(`${config.apiUrl}/${formatDate(date)}`, {
+      params: { from: baseCurrency },
+      timeout: config.requestTimeoutMs
+    });
+    return response.data?.rates || {};
+  }
+});
+
+// Insert or replace rates. Rows without a workspace are shared by all workspaces;
+// workspace rows take precedence over them for that workspace.
+export const saveExchangeRates = async (
+  rates: ExchangeRateInput[],
+  workspaceId: string | null,
+  source: string
+): Promise<number> => {
+  let saved = 0;
+
+  for (const rate of rates) {
+    const conflictTarget = workspaceId
+      ? '(workspace_id, base_currency, quote_currency, rate_date) WHERE workspace_id IS NOT NULL'
+      : '(base_currency, quote_currency, rate_date) WHERE workspace_id IS NULL';
+
+    await query(
+      `INSERT INTO exchange_rates (id, workspace_id, base_currency, quote_currency, rate, rate_date, source, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+       ON CONFLICT ${conflictTarget}
+       DO UPDATE SET rate = EXCLUDED.rate, source = EXCLUDED.source, updated_at = NOW()`,
+      [uuidv4(), workspaceId, rate.baseCurrency.toUpperCase(), rate.quoteCurrency.toUpperCase(), rate.rate, rate.date, source]
+    );
+    saved++;
+  }
+
+  return saved;
+};
+
+// Fetch the day's rates for every workspace reporting currency from the configured provider
+export const refreshExchangeRates = async (date: Date = new Date()): Promise<number> => {
+  const config = getExchangeRateConfig();
+  if (!config.provider) {
+    return 0;
+  }
+
+  const provider = providers.get(config.provider);
+  if (!provider) {
+    logger.warn(`Unknown exchange rate provider: ${config.provider}`);
+    return 0;
+  }
+
+  const currenciesResult = await query('SELECT DISTINCT reporting_currency FROM workspaces WHERE reporting_currency IS NOT NULL');
+
+  let saved = 0;
+  for (const { reporting_currency: baseCurrency } of currenciesResult.rows) {
+    try {
+      const rates = await provider.fetchRates(baseCurrency, date);
+      saved += await saveExchangeRates(
+        Object.entries(rates).map(([quoteCurrency, rate]) => ({ baseCurrency, quoteCurrency, rate, date: formatDate(date) })),
+        null,
+        provider.name
+      );
+    } catch (error) {
+      logger.error(`Failed to fetch ${baseCurrency} exchange rates from ${provider.name}:`, error);
+    }
+  }
+
+  return saved;
+};
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Where finished export files are kept. Keys look like <workspaceId>/<exportId>.<ext>.
+export interface ExportStorageAdapter {
+  // Store the file written at localPath under key
+  save(key: string, localPath: string): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+// Files under EXPORT_STORAGE_DIR on the local disk
+export const createLocalExportStorage = (directory = process.env.EXPORT_STORAGE_DIR || 'exports'): ExportStorageAdapter => {
+  const root = path.resolve(directory);
+
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid export storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    save: async (key, localPath) => {
+      const filePath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.copyFile(localPath, filePath);
+    },
+    read: async (key) => {
+      const filePath = resolveKey(key);
+      // Fail before any response is sent when the file is gone
+      await fs.promises.access(filePath, fs.constants.R_OK);
+      return fs.createReadStream(filePath);
+    },
+    remove: async (key) => {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    }
+  };
+};
+
+let storage: ExportStorageAdapter | null = null;
+
+export const getExportStorage = (): ExportStorageAdapter => {
+  if (!storage) {
+    storage = createLocalExportStorage();
+  }
+  return storage;
+};
+
+// Replace the local disk with another backend (object storage, ...) before the server starts
+export const setExportStorage = (adapter: ExportStorageAdapter) => {
+  storage = adapter;
+};
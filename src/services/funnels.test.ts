@@ -0,0 +1,172 @@
+import { query } from '../config/database';
+import { FunnelDefinition, funnelStepsSchema, getFunnelReport } from './funnels';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+const mockedQuery = query as jest.Mock;
+
+const PIXEL_ID = '00000000-0000-0000-0000-000000000003';
+const START = new Date('2024-03-01T00:00:00Z');
+const END = new Date('2024-03-08T00:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const funnel: FunnelDefinition = {
+  pixelId: PIXEL_ID,
+  steps: [{ eventName: 'ViewContent' }, { eventName: 'AddToCart', label: 'Cart' }, { eventName: 'Purchase' }],
+  conversionWindowHours: 24
+};
+
+const options = { startDate: START, endDate: END, maxEvents: 100 };
+
+let eventCount = 0;
+
+// Event of a visitor, hours after the start of the period
+const createEvent = (visitorId: string, eventName: string, hours: number, parameters: Record<string, any> = {}) => ({
+  id: `event-${++eventCount}`,
+  pixel_id: PIXEL_ID,
+  event_name: eventName,
+  parameters,
+  created_at: new Date(START.getTime() + hours * HOUR_MS),
+  visitor_id: visitorId
+});
+
+// Rows as the query returns them: by visitor, then time
+const mockEvents = (...events: ReturnType<typeof createEvent>[]) => {
+  const rows = [...events].sort((a, b) => a.visitor_id.localeCompare(b.visitor_id) || a.created_at.getTime() - b.created_at.getTime());
+  mockedQuery.mockResolvedValue({ rows });
+};
+
+const visitorsPerStep = (report: Awaited<ReturnType<typeof getFunnelReport>>) => report.steps.map((step) => step.visitors);
+
+describe('getFunnelReport', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reads step events until the window after the period ends', async () => {
+    mockEvents();
+
+    await getFunnelReport(funnel, options);
+
+    expect(mockedQuery.mock.calls[0][1]).toEqual([
+      PIXEL_ID,
+      ['ViewContent', 'AddToCart', 'Purchase'],
+      START,
+      new Date(END.getTime() + 24 * HOUR_MS),
+      101
+    ]);
+  });
+
+  it('counts steps in order only', async () => {
+    mockEvents(
+      // Completes the funnel
+      createEvent('a', 'ViewContent', 1),
+      createEvent('a', 'AddToCart', 2),
+      createEvent('a', 'Purchase', 3),
+      // Adds to cart before viewing, so the cart does not count
+      createEvent('b', 'AddToCart', 1),
+      createEvent('b', 'ViewContent', 2),
+      createEvent('b', 'Purchase', 3),
+      // Never enters the funnel
+      createEvent('c', 'Purchase', 1)
+    );
+
+    const report = await getFunnelReport(funnel, options);
+
+    expect(visitorsPerStep(report)).toEqual([2, 1, 1]);
+    expect(report).toMatchObject({ entered: 2, completed: 1, overallConversionRate: 50, truncated: false });
+    expect(report.steps[1]).toMatchObject({
+      step: 2,
+      label: 'Cart',
+      conversionRate: 50,
+      stepConversionRate: 50,
+      dropOff: 1,
+      medianSecondsFromPreviousStep: 3600
+    });
+  });
+
+  it('stops a journey when the next step falls outside the window from the entry', async () => {
+    mockEvents(
+      createEvent('a', 'ViewContent', 1),
+      createEvent('a', 'AddToCart', 20),
+      // 25 hours after entering
+      createEvent('a', 'Purchase', 26),
+      createEvent('b', 'ViewContent', 1),
+      createEvent('b', 'AddToCart', 26)
+    );
+
+    expect(visitorsPerStep(await getFunnelReport(funnel, options))).toEqual([2, 1, 0]);
+  });
+
+  it('enters visitors during the period only, but lets them finish within the window', async () => {
+    const hoursToEnd = (END.getTime() - START.getTime()) / HOUR_MS;
+    mockEvents(
+      createEvent('a', 'ViewContent', hoursToEnd - 1),
+      createEvent('a', 'AddToCart', hoursToEnd + 1),
+      createEvent('a', 'Purchase', hoursToEnd + 2),
+      createEvent('b', 'ViewContent', hoursToEnd + 1)
+    );
+
+    const report = await getFunnelReport(funnel, options);
+
+    expect(visitorsPerStep(report)).toEqual([1, 1, 1]);
+  });
+
+  it('requires step events to meet the step filters', async () => {
+    const filtered: FunnelDefinition = {
+      ...funnel,
+      steps: [
+        { eventName: 'ViewContent' },
+        { eventName: 'Purchase', filters: [{ type: 'parameter', parameter: 'value', operator: 'greater_than', value: 50 }] }
+      ]
+    };
+    mockEvents(
+      createEvent('a', 'ViewContent', 1),
+      createEvent('a', 'Purchase', 2, { value: 10 }),
+      createEvent('a', 'Purchase', 5, { value: 80 }),
+      createEvent('b', 'ViewContent', 1),
+      createEvent('b', 'Purchase', 2, { value: 20 })
+    );
+
+    const report = await getFunnelReport(filtered, options);
+
+    expect(visitorsPerStep(report)).toEqual([2, 1]);
+    expect(report.steps[1].medianSecondsFromPreviousStep).toBe(4 * 3600);
+  });
+
+  it('reports the median time between steps', async () => {
+    mockEvents(
+      createEvent('a', 'ViewContent', 1),
+      createEvent('a', 'AddToCart', 2),
+      createEvent('b', 'ViewContent', 1),
+      createEvent('b', 'AddToCart', 4),
+      createEvent('c', 'ViewContent', 1),
+      createEvent('c', 'AddToCart', 11)
+    );
+
+    const report = await getFunnelReport(funnel, options);
+
+    expect(report.steps.map((step) => step.medianSecondsFromPreviousStep)).toEqual([null, 3 * 3600, null]);
+  });
+
+  it('reports when the period has more events than analyzed', async () => {
+    mockEvents(createEvent('a', 'ViewContent', 1), createEvent('a', 'AddToCart', 2), createEvent('a', 'Purchase', 3));
+
+    const report = await getFunnelReport(funnel, { ...options, maxEvents: 2 });
+
+    expect(report.truncated).toBe(true);
+    expect(visitorsPerStep(report)).toEqual([1, 1, 0]);
+  });
+});
+
+describe('funnelStepsSchema', () => {
+  it('requires between 2 and 10 steps', () => {
+    const step = { eventName: 'Lead' };
+
+    expect(funnelStepsSchema.validate([step]).error).toBeDefined();
+    expect(funnelStepsSchema.validate([step, step]).error).toBeUndefined();
+    expect(funnelStepsSchema.validate(Array(11).fill(step)).error).toBeDefined();
+  });
+});
@@ -0,0 +1,143 @@
+import Joi from 'joi';
+import { query } from '../config/database';
+import { ConversionRuleGroup, ConversionRuleNode, evaluateRuleNode, normalizeRules, rulesSchema } from './conversionRules';
+
+export interface FunnelStep {
+  eventName: string;
+  label?: string;
+  // Conditions the event must also meet to count for the step (same format as conversion rules)
+  filters?: ConversionRuleNode[] | ConversionRuleGroup;
+}
+
+export interface FunnelDefinition {
+  pixelId: string;
+  steps: FunnelStep[];
+  // Time allowed from the first step to the last one
+  conversionWindowHours: number;
+}
+
+export interface FunnelOptions {
+  startDate: Date;
+  endDate: Date;
+  maxEvents: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const MAX_FUNNEL_STEPS = 10;
+
+// Longest conversion window accepted, in hours (90 days)
+export const MAX_CONVERSION_WINDOW_HOURS = 2160;
+
+// Validation of funnel steps submitted through the API
+export const funnelStepsSchema = Joi.array().items(Joi.object({
+  eventName: Joi.string().min(1).max(100).required(),
+  label: Joi.string().max(100).optional(),
+  filters: rulesSchema.optional()
+})).min(2).max(MAX_FUNNEL_STEPS);
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const percentage = (part: number, total: number): number =>
+  total > 0 ? Math.round((part / total) * 10000) / 100 : 0;
+
+// Ordered funnel over visitor journeys. A visitor enters on their first step 1 event in the
+// period, then each following step is the first matching event after the previous step and
+// within the conversion window. Events without a visitor id cannot be chained and are ignored.
+export const getFunnelReport = async (funnel: FunnelDefinition, options: FunnelOptions) => {
+  const steps = funnel.steps.map((step) => ({ ...step, filters: normalizeRules(step.filters) }));
+  const windowMs = funnel.conversionWindowHours * HOUR_MS;
+
+  // Later steps may happen after the end of the period, as long as they are within the window
+  const eventsResult = await query(
+    `SELECT e.id, e.pixel_id, e.event_name, e.parameters, e.created_at, e.visitor_id
+    FROM events e
+    WHERE e.pixel_id = $1 AND e.event_name = ANY($2) AND e.visitor_id IS NOT NULL AND e.is_test = false
+      AND e.created_at >= $3 AND e.created_at < $4
+    ORDER BY e.visitor_id, e.created_at, e.id
+    LIMIT $5`,
+    [
+      funnel.pixelId,
+      [...new Set(steps.map((step) => step.eventName))],
+      options.startDate,
+      new Date(options.endDate.getTime() + windowMs),
+      options.maxEvents + 1
+    ]
+  );
+
+  const truncated = eventsResult.rows.length > options.maxEvents;
+  const events = eventsResult.rows.slice(0, options.maxEvents);
+
+  const journeys = new Map<string, any[]>();
+  for (const event of events) {
+    const journey = journeys.get(event.visitor_id) || [];
+    journey.push(event);
+    journeys.set(event.visitor_id, journey);
+  }
+
+  const reached = steps.map(() => 0);
+  const stepDurations: number[][] = steps.map(() => []);
+  const endDate = options.endDate.getTime();
+
+  for (const journey of journeys.values()) {
+    let stepIndex = 0;
+    let entryTime = 0;
+    let previousTime = 0;
+
+    for (const event of journey) {
+      const step = steps[stepIndex];
+      const time = new Date(event.created_at).getTime();
+
+      if (stepIndex > 0 && time - entryTime > windowMs) {
+        break;
+      }
+      if (stepIndex === 0 && time >= endDate) {
+        break;
+      }
+      if (event.event_name !== step.eventName || !evaluateRuleNode(step.filters, event)) {
+        continue;
+      }
+
+      if (stepIndex === 0) {
+        entryTime = time;
+      } else {
+        stepDurations[stepIndex].push((time - previousTime) / 1000);
+      }
+
+      reached[stepIndex]++;
+      previousTime = time;
+      stepIndex++;
+
+      if (stepIndex === steps.length) {
+        break;
+      }
+    }
+  }
+
+  const entered = reached[0];
+
+  return {
+    entered,
+    completed: reached[steps.length - 1],
+    overallConversionRate: percentage(reached[steps.length - 1], entered),
+    // True when the period had more events than were analyzed
+    truncated,
+    steps: steps.map((step, index) => ({
+      step: index + 1,
+      eventName: step.eventName,
+      label: step.label || step.eventName,
+      visitors: reached[index],
+      conversionRate: percentage(reached[index], entered),
+      stepConversionRate: index === 0 ? 100 : percentage(reached[index], reached[index - 1]),
+      dropOff: index === 0 ? 0 : reached[index - 1] - reached[index],
+      medianSecondsFromPreviousStep: index === 0 ? null : median(stepDurations[index])
+    }))
+  };
+};
@@ -0,0 +1,141 @@
+import { query, getClient } from '../config/database';
+import { enqueueEvents } from './deliveryQueue';
+import { ingestEvents } from './ingestion';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn(),
+  getClient: jest.fn()
+}));
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+jest.mock('./deliveryQueue', () => ({
+  enqueueEvents: jest.fn()
+}));
+jest.mock('./conversionRules', () => ({
+  recordConversionMatches: jest.fn()
+}));
+jest.mock('./realtime', () => ({
+  publishRealtime: jest.fn()
+}));
+
+const PIXEL_ID = '00000000-0000-0000-0000-000000000003';
+const ORIGINAL_ID = '00000000-0000-0000-0000-0000000000aa';
+const ORIGINAL_TIME = new Date('2024-03-01T10:00:00Z');
+
+const mockedQuery = query as jest.Mock;
+const mockedGetClient = getClient as jest.Mock;
+
+// Client answering the deduplication statements as if the key was held by keyHolder
+const createClient = (keyHolder: { event_ref: string; event_time: Date } | null, originalExists = true) => {
+  const client = {
+    query: jest.fn(async (sql: string, params?: any[]) => {
+      if (sql.includes('INSERT INTO event_dedup_keys')) {
+        return { rows: keyHolder ? [] : [{ event_ref: 'new' }] };
+      }
+      if (sql.includes('SELECT event_ref, event_time FROM event_dedup_keys')) {
+        return { rows: keyHolder ? [keyHolder] : [] };
+      }
+      if (sql.includes('UPDATE events')) {
+        return { rows: originalExists && keyHolder ? [{ id: keyHolder.event_ref }] : [] };
+      }
+      if (sql.includes('INSERT INTO events')) {
+        return { rows: [{ created_at: new Date() }] };
+      }
+      return { rows: [] };
+    }),
+    release: jest.fn()
+  };
+  mockedGetClient.mockResolvedValue(client);
+  return client;
+};
+
+const statements = (client: { query: jest.Mock }): string[] =>
+  client.query.mock.calls.map(([sql]) => sql.trim().split(/\s+/).slice(0, 3).join(' '));
+
+// Parameters of the first statement containing text
+const paramsOf = (client: { query: jest.Mock }, text: string): any[] =>
+  client.query.mock.calls.find(([sql]) => sql.includes(text))?.[1];
+
+describe('ingestEvents deduplication', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM pixels')) {
+        return { rows: [{ id: PIXEL_ID, settings: {}, workspace_id: 'workspace', test_event_code: null }] };
+      }
+      return { rows: [] };
+    });
+  });
+
+  it('stores an event whose key is free', async () => {
+    const client = createClient(null);
+
+    const [event] = await ingestEvents([{ pixelId: PIXEL_ID, eventName: 'Lead', eventId: 'order-1' }]);
+
+    expect(event.duplicate).toBe(false);
+    expect(statements(client)).toEqual(['BEGIN', 'INSERT INTO event_dedup_keys', 'INSERT INTO events', 'COMMIT']);
+    expect(enqueueEvents).toHaveBeenCalledWith([event.id]);
+  });
+
+  it('records a repeat on the original event instead of storing it', async () => {
+    const client = createClient({ event_ref: ORIGINAL_ID, event_time: ORIGINAL_TIME });
+
+    const [event] = await ingestEvents([{ pixelId: PIXEL_ID, eventName: 'Lead', eventId: 'order-1' }]);
+
+    expect(event).toMatchObject({ id: ORIGINAL_ID, duplicate: true });
+    expect(statements(client)).not.toContain('INSERT INTO events');
+    expect(paramsOf(client, 'UPDATE events').slice(0, 2)).toEqual([ORIGINAL_ID, ORIGINAL_TIME]);
+    expect(enqueueEvents).toHaveBeenCalledWith([]);
+  });
+
+  it('takes the key over when the original event is gone', async () => {
+    const client = createClient({ event_ref: ORIGINAL_ID, event_time: ORIGINAL_TIME }, false);
+
+    const [event] = await ingestEvents([{ pixelId: PIXEL_ID, eventName: 'Lead', eventId: 'order-1' }]);
+
+    expect(event.duplicate).toBe(false);
+    expect(paramsOf(client, 'UPDATE event_dedup_keys')[4]).toBe(event.id);
+    expect(statements(client)).toContain('INSERT INTO events');
+  });
+
+  it('keeps test and live events with the same event_id apart', async () => {
+    const client = createClient(null);
+
+    await ingestEvents([{ pixelId: PIXEL_ID, eventName: 'Lead', eventId: 'order-1', testEventCode: 'TEST1' }]);
+
+    expect(paramsOf(client, 'INSERT INTO event_dedup_keys').slice(0, 4)).toEqual([PIXEL_ID, 'Lead', 'order-1', true]);
+  });
+
+  it('does not deduplicate events without an event_id or with the window disabled', async () => {
+    mockedQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM pixels')) {
+        return { rows: [{ id: PIXEL_ID, settings: { deduplicationWindowHours: 0 }, workspace_id: 'workspace', test_event_code: null }] };
+      }
+      return { rows: [] };
+    });
+    const client = createClient({ event_ref: ORIGINAL_ID, event_time: ORIGINAL_TIME });
+
+    const events = await ingestEvents([
+      { pixelId: PIXEL_ID, eventName: 'Lead' },
+      { pixelId: PIXEL_ID, eventName: 'Lead', eventId: 'order-1' }
+    ]);
+
+    expect(events.map((e) => e.duplicate)).toEqual([false, false]);
+    expect(statements(client)).not.toContain('INSERT INTO event_dedup_keys');
+  });
+
+  it('rolls back when the event cannot be stored', async () => {
+    const client = createClient(null);
+    client.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('INSERT INTO events')) {
+        throw new Error('insert failed');
+      }
+      return { rows: [{ event_ref: 'new' }] };
+    });
+
+    await expect(ingestEvents([{ pixelId: PIXEL_ID, eventName: 'Lead', eventId: 'order-1' }])).rejects.toThrow('insert failed');
+    expect(statements(client)).toContain('ROLLBACK');
+    expect(client.release).toHaveBeenCalled();
+  });
+});
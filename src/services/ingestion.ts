@@ -0,0 +1,261 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PoolClient } from 'pg';
+import { query, getClient } from '../config/database';
+import { logger } from '../utils/logger';
+import { enqueueEvents } from './deliveryQueue';
+import { hashUserData } from './userData';
+import { computeMatchScore } from './matchQuality';
+import { recordConversionMatches, MatchableEvent } from './conversionRules';
+import { getVisitorId, extractTouch } from './attribution';
+import { validateEventParameters, getStandardEvent, CustomEventDefinition } from './eventCatalog';
+import { publishRealtime, RealtimeMessage } from './realtime';
+
+export interface IngestEventInput {
+  pixelId: string;
+  eventName: string;
+  eventId?: string;
+  parameters?: Record<string, any>;
+  source?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  // Marks the event as test traffic; must match the pixel's test event code
+  testEventCode?: string;
+  // When the event happened, for historical imports; defaults to now
+  eventTime?: Date;
+}
+
+export interface IngestOptions {
+  // Queue valid events for delivery to the Conversions API. Events that are not delivered
+  // are stored as imported, apart from delivery statistics. Defaults to true.
+  deliver?: boolean;
+}
+
+export interface IngestedEvent {
+  id: string;
+  pixelId: string;
+  eventName: string;
+  // True when the event repeated an earlier event_id and was dropped or merged into it
+  duplicate: boolean;
+  status: 'pending' | 'error' | 'imported';
+  // Parameter and test event code problems; the event is stored as an error and not delivered
+  validationErrors: string[];
+  // Test traffic, kept out of analytics and conversions
+  test: boolean;
+}
+
+// Per-pixel deduplication settings, stored in pixels.settings
+const getDeduplicationSettings = (settings: any) => ({
+  windowHours: Number(settings?.deduplicationWindowHours ?? process.env.DEDUPLICATION_WINDOW_HOURS ?? 48),
+  mode: settings?.deduplicationMode === 'merge' ? 'merge' : 'drop'
+});
+
+// Claim the deduplication key of an event inside the transaction of client. The key's primary
+// key makes a concurrent repeat wait for this transaction, so only one of them is stored.
+// When the key belongs to an event within the deduplication window around the event time,
+// the repeat is recorded on that event and its id is returned; otherwise returns null.
+const deduplicateEvent = async (client: PoolClient, event: IngestEventInput, id: string, settings: any): Promise<string | null> => {
+  const { windowHours, mode } = getDeduplicationSettings(settings);
+
+  if (!event.eventId || windowHours <= 0) {
+    return null;
+  }
+
+  const keyParams = [event.pixelId, event.eventName, event.eventId, !!event.testEventCode];
+
+  // Keys of events outside the window are taken over by the new event
+  const claimResult = await client.query(
+    `INSERT INTO event_dedup_keys AS k (pixel_id, event_name, event_id, is_test, event_ref, event_time)
+     VALUES ($1, $2, $3, $4, $5, COALESCE($6, NOW()))
+     ON CONFLICT (pixel_id, event_name, event_id, is_test) DO UPDATE
+       SET event_ref = EXCLUDED.event_ref, event_time = EXCLUDED.event_time
+       WHERE k.event_time < EXCLUDED.event_time - ($7 || ' hours')::interval
+          OR k.event_time > EXCLUDED.event_time + ($7 || ' hours')::interval
+     RETURNING event_ref`,
+    [...keyParams, id, event.eventTime || null, windowHours]
+  );
+  if (claimResult.rows.length > 0) {
+    return null;
+  }
+
+  const keyResult = await client.query(
+    `SELECT event_ref, event_time FROM event_dedup_keys
+     WHERE pixel_id = $1 AND event_name = $2 AND event_id = $3 AND is_test = $4`,
+    keyParams
+  );
+  const key = keyResult.rows[0];
+
+  // In merge mode, parameters missing from the original are filled in from the repeat
+  const duplicateResult = await client.query(
+    `UPDATE events
+     SET duplicate_count = duplicate_count + 1,
+         parameters = CASE WHEN $4 = 'merge' THEN $3::jsonb || parameters ELSE parameters END
+     WHERE id = $1 AND created_at = $2
+     RETURNING id`,
+    [key.event_ref, key.event_time, event.parameters || {}, mode]
+  );
+  if (duplicateResult.rows.length > 0) {
+    return duplicateResult.rows[0].id;
+  }
+
+  // The original is gone, so the new event takes the key over
+  await client.query(
+    `UPDATE event_dedup_keys SET event_ref = $5, event_time = COALESCE($6, NOW())
+     WHERE pixel_id = $1 AND event_name = $2 AND event_id = $3 AND is_test = $4`,
+    [...keyParams, id, event.eventTime || null]
+  );
+  return null;
+};
+
+// Store incoming events, queue them for delivery and mark their pixels as active.
+// Pixel ownership must be checked by the caller.
+export const ingestEvents = async (events: IngestEventInput[], options: IngestOptions = {}): Promise<IngestedEvent[]> => {
+  const { deliver = true } = options;
+  const ingested: IngestedEvent[] = [];
+  const stored: MatchableEvent[] = [];
+  const published: (RealtimeMessage & { workspaceId: string })[] = [];
+
+  const pixelIds = [...new Set(events.map((e) => e.pixelId))];
+  const pixelsResult = await query(
+    'SELECT id, settings, workspace_id, test_event_code FROM pixels WHERE id = ANY($1)',
+    [pixelIds]
+  );
+  const pixels = new Map<string, any>(pixelsResult.rows.map((p: any) => [p.id, p]));
+
+  // Custom event definitions of the workspaces involved, keyed by workspace and event name
+  const definitionsResult = await query(
+    `SELECT workspace_id, name, parameters, standard_event
+     FROM custom_event_definitions
+     WHERE workspace_id = ANY($1) AND is_active = true`,
+    [[...new Set(pixelsResult.rows.map((p: any) => p.workspace_id))]]
+  );
+  const customDefinitions = new Map<string, CustomEventDefinition>(
+    definitionsResult.rows.map((d: any) => [`${d.workspace_id}:${d.name}`, d])
+  );
+
+  for (const event of events) {
+    const { pixelId, eventName, eventId, source = 'web', userAgent, ipAddress, testEventCode, eventTime } = event;
+    const pixel = pixels.get(pixelId);
+
+    // Event type comes from the standard catalog, never from the client
+    const eventType = getStandardEvent(eventName) ? 'standard' : 'custom';
+    const customDefinition = customDefinitions.get(`${pixel?.workspace_id}:${eventName}`);
+
+    // Customer information is hashed before anything is stored
+    const hashed = hashUserData(event.parameters);
+
+    const validation = validateEventParameters(eventName, hashed.parameters, customDefinition);
+    const { parameters } = validation;
+
+    // Test events with a stale or unknown code are kept for the debugger but never delivered
+    const testCodeError = testEventCode && testEventCode !== pixel?.test_event_code
+      ? 'Test event code does not match the pixel test event code'
+      : null;
+    const validationErrors = testCodeError ? [...validation.errors, testCodeError] : validation.errors;
+
+    const status = validationErrors.length > 0 ? 'error' : deliver ? 'pending' : 'imported';
+    const errorMessage = testCodeError || (validation.valid ? null : `Invalid ${eventName} parameters: ${validation.errors.join(', ')}`);
+    const isTest = !!testEventCode;
+
+    // Shown in the test events debugger next to the delivery outcome
+    const debugInfo = isTest
+      ? {
+        validation: { valid: validation.valid, errors: validation.errors },
+        hashing: { hashed: hashed.hashed, preHashed: hashed.preHashed },
+        testEventCode: { value: testEventCode, valid: !testCodeError }
+      }
+      : null;
+
+    const matchScore = computeMatchScore(parameters.user_data, ipAddress, userAgent);
+
+    // Visitor and marketing touch, used to stitch journeys for attribution
+    const visitorId = getVisitorId(parameters);
+    const touch = extractTouch(parameters);
+
+    const id = uuidv4();
+    let originalId: string | null = null;
+    let createdAt: Date | null = null;
+
+    // The deduplication key and the event are stored together, using the same NOW()
+    const client = await getClient();
+    try {
+      await client.query('BEGIN');
+
+      originalId = await deduplicateEvent(client, { ...event, parameters }, id, pixel?.settings);
+      if (!originalId) {
+        const insertResult = await client.query(
+          `INSERT INTO events (id, pixel_id, event_name, event_id, event_type, parameters, source, user_agent, ip_address, match_score, status, error_message,
+             visitor_id, utm_source, utm_medium, utm_campaign, is_test, test_event_code, debug_info, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, COALESCE($20, NOW()))
+           RETURNING created_at`,
+          [
+            id, pixelId, eventName, eventId, eventType, parameters, source, userAgent, ipAddress, matchScore, status, errorMessage,
+            visitorId, touch?.source || null, touch?.medium || null, touch?.campaign || null, isTest, testEventCode || null, debugInfo,
+            eventTime || null
+          ]
+        );
+        createdAt = insertResult.rows[0].created_at;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (originalId) {
+      ingested.push({ id: originalId, pixelId, eventName, duplicate: true, status, validationErrors, test: isTest });
+      continue;
+    }
+
+    // Live events are published to realtime streams, historical ones are not
+    if (!eventTime) {
+      published.push({
+        workspaceId: pixel?.workspace_id,
+        type: isTest ? 'test_event' : 'event',
+        pixelId,
+        data: {
+          id, pixel_id: pixelId, event_name: eventName, event_type: eventType, source, status, error_message: errorMessage,
+          visitor_id: visitorId, utm_source: touch?.source || null, match_score: matchScore,
+          test_event_code: testEventCode || null, debug_info: debugInfo, created_at: createdAt
+        }
+      });
+    }
+
+    // Test events never count as conversions
+    if (status !== 'error' && !isTest) {
+      stored.push({ id, pixel_id: pixelId, event_name: eventName, parameters, created_at: createdAt! });
+    }
+
+    ingested.push({ id, pixelId, eventName, duplicate: false, status, validationErrors, test: isTest });
+  }
+
+  if (ingested.length === 0) {
+    return ingested;
+  }
+
+  // Record which conversions the new, valid events satisfy
+  await recordConversionMatches(stored);
+
+  // Queue new, valid events for delivery to the Conversions API
+  await enqueueEvents(ingested.filter((e) => !e.duplicate && e.status === 'pending').map((e) => e.id));
+
+  // Streams are best effort and never fail ingestion
+  try {
+    await publishRealtime(published);
+  } catch (error) {
+    logger.error('Error publishing realtime events:', error);
+  }
+
+  // Update pixel last activity. Historical events say nothing about current activity.
+  const activePixelIds = [...new Set(events.filter((e) => !e.eventTime).map((e) => e.pixelId))];
+  if (activePixelIds.length > 0) {
+    await query(
+      'UPDATE pixels SET last_activity = NOW(), status = $1 WHERE id = ANY($2)',
+      ['active', activePixelIds]
+    );
+  }
+
+  return ingested;
+};
@@ -0,0 +1,43 @@
+import { computeMatchScore, getMatchRating, MAX_MATCH_SCORE } from './matchQuality';
+
+jest.mock('../config/database', () => ({
+  query: jest.fn()
+}));
+
+describe('computeMatchScore', () => {
+  it('scores an event without customer information as 0', () => {
+    expect(computeMatchScore()).toBe(0);
+    expect(computeMatchScore({})).toBe(0);
+  });
+
+  it('adds the weight of every key present', () => {
+    expect(computeMatchScore({ em: 'hash', ph: 'hash', fn: 'hash' })).toBe(6.5);
+  });
+
+  it('counts the client ip address and user agent', () => {
+    expect(computeMatchScore({ fbp: 'fb.1.1.1' }, '203.0.113.1', 'Mozilla/5.0')).toBe(2);
+  });
+
+  it('ignores empty values and unknown keys', () => {
+    expect(computeMatchScore({ em: '', ph: null, external_id: undefined, foo: 'bar', ct: 'hash' })).toBe(0.25);
+  });
+
+  it('caps the score', () => {
+    const everything = { em: 'h', ph: 'h', external_id: 'h', fbc: 'h', fbp: 'h', fn: 'h', ln: 'h', db: 'h', zp: 'h', ct: 'h', st: 'h', country: 'h', ge: 'h' };
+
+    expect(computeMatchScore(everything, '203.0.113.1', 'Mozilla/5.0')).toBe(MAX_MATCH_SCORE);
+  });
+});
+
+describe('getMatchRating', () => {
+  it.each([
+    [null, null],
+    [9.5, 'great'],
+    [8, 'great'],
+    [6, 'good'],
+    [4.25, 'ok'],
+    [0, 'poor']
+  ])('rates %p as %p', (score, rating) => {
+    expect(getMatchRating(score)).toBe(rating);
+  });
+});
@@ -0,0 +1,115 @@
+import { query } from '../config/database';
+
+// Contribution of each customer information key to the match quality score.
+// Strong identifiers weigh the most; the total is capped at 10 like Meta's EMQ.
+export const MATCH_KEY_WEIGHTS: Record<string, number> = {
+  em: 3,
+  ph: 3,
+  external_id: 1.5,
+  fbc: 1.5,
+  fbp: 1,
+  client_ip_address: 0.5,
+  client_user_agent: 0.5,
+  fn: 0.5,
+  ln: 0.5,
+  db: 0.5,
+  zp: 0.5,
+  ct: 0.25,
+  st: 0.25,
+  country: 0.25,
+  ge: 0.25
+};
+
+export const MAX_MATCH_SCORE = 10;
+
+// Score an event from 0 to 10 based on which customer information keys it carries
+export const computeMatchScore = (userData: Record<string, any> = {}, ipAddress?: string, userAgent?: string): number => {
+  const keys = new Set(
+    Object.keys(userData).filter((key) => userData[key] !== null && userData[key] !== undefined && userData[key] !== '')
+  );
+  if (ipAddress) {
+    keys.add('client_ip_address');
+  }
+  if (userAgent) {
+    keys.add('client_user_agent');
+  }
+
+  let score = 0;
+  for (const key of keys) {
+    score += MATCH_KEY_WEIGHTS[key] || 0;
+  }
+
+  return Math.min(Math.round(score * 100) / 100, MAX_MATCH_SCORE);
+};
+
+export const getMatchRating = (score: number | null): string | null => {
+  if (score === null) {
+    return null;
+  }
+  if (score >= 8) {
+    return 'great';
+  }
+  if (score >= 6) {
+    return 'good';
+  }
+  if (score >= 4) {
+    return 'ok';
+  }
+  return 'poor';
+};
+
+// Aggregate match quality for a pixel over events created in [from, to)
+export const getPixelMatchQuality = async (pixelId: string, from: Date, to: Date) => {
+  const dateFilter = 'AND created_at >= $2 AND created_at < $3 AND is_test = false';
+
+  const summaryResult = await query(
+    `SELECT
+      ROUND(AVG(match_score), 2) as score,
+      COUNT(*) FILTER (WHERE match_score IS NOT NULL) as scored_events
+    FROM events
+    WHERE pixel_id = $1 ${dateFilter}`,
+    [pixelId, from, to]
+  );
+
+  const byEventResult = await query(
+    `SELECT
+      event_name,
+      ROUND(AVG(match_score), 2) as score,
+      COUNT(*) as events
+    FROM events
+    WHERE pixel_id = $1 AND match_score IS NOT NULL ${dateFilter}
+    GROUP BY event_name
+    ORDER BY events DESC`,
+    [pixelId, from, to]
+  );
+
+  // Share of scored events carrying each key
+  const keyColumns = Object.keys(MATCH_KEY_WEIGHTS)
+    .filter((key) => !key.startsWith('client_'))
+    .map((key) => `ROUND(COUNT(*) FILTER (WHERE parameters->'user_data' ? '${key}') * 100.0 / NULLIF(COUNT(*), 0), 2) as ${key}`);
+
+  const coverageResult = await query(
+    `SELECT
+      ${keyColumns.join(',\n      ')},
+      ROUND(COUNT(*) FILTER (WHERE ip_address IS NOT NULL) * 100.0 / NULLIF(COUNT(*), 0), 2) as client_ip_address,
+      ROUND(COUNT(*) FILTER (WHERE user_agent IS NOT NULL) * 100.0 / NULLIF(COUNT(*), 0), 2) as client_user_agent
+    FROM events
+    WHERE pixel_id = $1 AND match_score IS NOT NULL ${dateFilter}`,
+    [pixelId, from, to]
+  );
+
+  const score = summaryResult.rows[0].score !== null ? parseFloat(summaryResult.rows[0].score) : null;
+
+  return {
+    score,
+    rating: getMatchRating(score),
+    scoredEvents: parseInt(summaryResult.rows[0].scored_events),
+    byEvent: byEventResult.rows.map((row: any) => ({
+      eventName: row.event_name,
+      score: parseFloat(row.score),
+      rating: getMatchRating(parseFloat(row.score)),
+      events: parseInt(row.events)
+    })),
+    keyCoverage: coverageResult.rows[0]
+  };
+};
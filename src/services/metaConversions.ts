@@ -0,0 +1,148 @@
+import axios from 'axios';
+import { getMetaConfig } from '../config/meta';
+import { logger } from '../utils/logger';
+import { USER_DATA_KEYS } from './userData';
+
+export interface DeliveryResult {
+  eventId: string;
+  status: 'success' | 'error';
+  errorMessage: string | null;
+  // Whether a failed delivery may succeed if attempted again later
+  retryable: boolean;
+}
+
+// The Conversions API rejects events whose event_time is older than this
+export const MAX_EVENT_AGE_DAYS = 7;
+
+// Parameters that map to top-level server event fields
+const SERVER_EVENT_KEYS = ['event_source_url', 'action_source', 'user_data'];
+
+const ACTION_SOURCES: Record<string, string> = {
+  web: 'website',
+  server: 'system_generated',
+  mobile: 'app'
+};
+
+// Get the Conversions API access token stored in the pixel settings
+export const getPixelAccessToken = (settings: any): string | null => {
+  if (!settings || typeof settings !== 'object') {
+    return null;
+  }
+  return settings.accessToken || settings.access_token || null;
+};
+
+// Convert a stored event row into a Conversions API server event
+export const buildServerEvent = (event: any) => {
+  const parameters = event.parameters || {};
+  const userData: Record<string, any> = { ...(parameters.user_data || {}) };
+  const customData: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(parameters)) {
+    if (USER_DATA_KEYS.includes(key)) {
+      userData[key] = value;
+    } else if (!SERVER_EVENT_KEYS.includes(key)) {
+      customData[key] = value;
+    }
+  }
+
+  if (event.ip_address) {
+    userData.client_ip_address = event.ip_address;
+  }
+  if (event.user_agent) {
+    userData.client_user_agent = event.user_agent;
+  }
+
+  return {
+    event_name: event.event_name,
+    event_time: Math.floor(new Date(event.created_at).getTime() / 1000),
+    // Client event_id lets Meta deduplicate against the same event sent by the browser pixel
+    event_id: event.event_id || event.id,
+    action_source: parameters.action_source || ACTION_SOURCES[event.source] || 'website',
+    ...(parameters.event_source_url && { event_source_url: parameters.event_source_url }),
+    user_data: userData,
+    ...(Object.keys(customData).length > 0 && { custom_data: customData })
+  };
+};
+
+// Network failures, throttling and server errors are transient; other 4xx responses are not
+const isRetryableError = (error: any): boolean => {
+  const status = error?.response?.status;
+  return !status || status === 429 || status >= 500;
+};
+
+// Extract a readable message from a failed Graph API call
+const getErrorMessage = (error: any): string => {
+  const metaError = error?.response?.data?.error;
+  if (metaError) {
+    const details = metaError.error_user_msg || metaError.message;
+    return `Meta API error${metaError.code ? ` ${metaError.code}` : ''}: ${details}`;
+  }
+  if (error?.response) {
+    return `Meta API responded with HTTP ${error.response.status}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+// Send events of a single pixel to the Conversions API
+export const sendPixelEvents = async (pixel: any, events: any[]): Promise<DeliveryResult[]> => {
+  const accessToken = getPixelAccessToken(pixel.settings);
+
+  if (!accessToken) {
+    return events.map((event) => ({
+      eventId: event.id,
+      status: 'error' as const,
+      errorMessage: 'Pixel has no Conversions API access token configured',
+      retryable: false
+    }));
+  }
+
+  const config = getMetaConfig();
+  const url = `${config.graphApiUrl}/${config.graphApiVersion}/${encodeURIComponent(pixel.pixel_id)}/events`;
+  const results: DeliveryResult[] = [];
+
+  // The test event code applies to a whole request, so test events are sent apart
+  const batches: { testEventCode: string | null; events: any[] }[] = [];
+  const eventsByTestCode = new Map<string | null, any[]>();
+  for (const event of events) {
+    const testEventCode = event.test_event_code || null;
+    const codeEvents = eventsByTestCode.get(testEventCode) || [];
+    codeEvents.push(event);
+    eventsByTestCode.set(testEventCode, codeEvents);
+  }
+  for (const [testEventCode, codeEvents] of eventsByTestCode) {
+    for (let i = 0; i < codeEvents.length; i += config.maxBatchSize) {
+      batches.push({ testEventCode, events: codeEvents.slice(i, i + config.maxBatchSize) });
+    }
+  }
+
+  for (const { testEventCode, events: batch } of batches) {
+    try {
+      const response = await axios.post(
+        url,
+        {
+          data: batch.map(buildServerEvent),
+          // Routes the events to the Test Events tool in Events Manager
+          ...(testEventCode && { test_event_code: testEventCode })
+        },
+        {
+          params: { access_token: accessToken },
+          timeout: config.requestTimeoutMs
+        }
+      );
+
+      const received = parseInt(response.data?.events_received ?? batch.length);
+      if (received < batch.length) {
+        logger.warn(`Meta received ${received} of ${batch.length} events for pixel ${pixel.id}`);
+      }
+
+      results.push(...batch.map((event) => ({ eventId: event.id, status: 'success' as const, errorMessage: null, retryable: false })));
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      const retryable = isRetryableError(error);
+      logger.error(`Conversions API delivery failed for pixel ${pixel.id}: ${errorMessage}`);
+      results.push(...batch.map((event) => ({ eventId: event.id, status: 'error' as const, errorMessage, retryable })));
+    }
+  }
+
+  return results;
+};
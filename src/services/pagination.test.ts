@@ -0,0 +1,141 @@
+import Joi from 'joi';
+import { SortSpec, buildPage, pageSql, paginationKeys, resolvePageRequest } from './pagination';
+
+const spec: SortSpec = {
+  fields: {
+    createdAt: { column: 'e.created_at', type: 'timestamp' },
+    eventName: { column: 'e.event_name', type: 'text' }
+  },
+  idColumn: 'e.id',
+  defaultSort: 'createdAt',
+  defaultOrder: 'desc'
+};
+
+const ID_1 = '3f2b8c1e-5d4a-4e7b-9c1d-2a6e8f0b1c01';
+const ID_2 = '3f2b8c1e-5d4a-4e7b-9c1d-2a6e8f0b1c02';
+const ID_3 = '3f2b8c1e-5d4a-4e7b-9c1d-2a6e8f0b1c03';
+
+const encode = (payload: any) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const rows = [
+  { id: ID_1, event_name: 'Lead', sort_cursor: '2024-03-01 10:00:00.123456+00' },
+  { id: ID_2, event_name: 'Lead', sort_cursor: '2024-03-01 09:00:00.654321+00' },
+  { id: ID_3, event_name: 'Lead', sort_cursor: '2024-03-01 08:00:00+00' }
+];
+
+describe('resolvePageRequest', () => {
+  it('defaults to the first page of cursor pagination', () => {
+    expect(resolvePageRequest(spec, {})).toEqual({ spec, sort: 'createdAt', order: 'desc', limit: 20, page: null, after: null });
+  });
+
+  it('uses offset pagination only when a page is sent', () => {
+    expect(resolvePageRequest(spec, { page: '1' })).toMatchObject({ page: 1, after: null });
+    expect(resolvePageRequest(spec, { page: '3', limit: '10', sort: 'eventName', order: 'asc' }))
+      .toMatchObject({ sort: 'eventName', order: 'asc', limit: 10, page: 3, after: null });
+  });
+
+  it('reads the sort and position from a cursor', () => {
+    const cursor = encode({ s: 'eventName', o: 'asc', v: 'Lead', id: ID_2 });
+
+    expect(resolvePageRequest(spec, { cursor, limit: '2' })).toEqual({
+      spec,
+      sort: 'eventName',
+      order: 'asc',
+      limit: 2,
+      page: null,
+      after: { value: 'Lead', id: ID_2 }
+    });
+  });
+
+  it.each([
+    ['not base64 JSON', '!!!'],
+    ['missing fields', encode({ s: 'createdAt', o: 'desc' })],
+    ['an unknown sort', encode({ s: 'e.id', o: 'desc', v: 'x', id: ID_1 })],
+    ['an inherited property as sort', encode({ s: 'toString', o: 'desc', v: 'x', id: ID_1 })],
+    ['an invalid order', encode({ s: 'createdAt', o: 'sideways', v: '2024-03-01 10:00:00+00', id: ID_1 })],
+    ['a value that is not a timestamp', encode({ s: 'createdAt', o: 'desc', v: 'yesterday', id: ID_1 })],
+    ['a date that does not exist', encode({ s: 'createdAt', o: 'desc', v: '2024-02-30 10:00:00+00', id: ID_1 })],
+    ['a time that does not exist', encode({ s: 'createdAt', o: 'desc', v: '2024-03-01 25:00:00+00', id: ID_1 })],
+    ['a text value with a NUL character', encode({ s: 'eventName', o: 'desc', v: 'Lead\u0000', id: ID_1 })],
+    ['an id that is not a uuid', encode({ s: 'createdAt', o: 'desc', v: '2024-03-01 10:00:00+00', id: '1 OR 1=1' })]
+  ])('rejects a cursor with %s', (_, cursor) => {
+    expect(resolvePageRequest(spec, { cursor })).toBeNull();
+  });
+
+  it('rejects a cursor issued for another sort', () => {
+    const cursor = encode({ s: 'createdAt', o: 'desc', v: '2024-03-01 10:00:00+00', id: ID_1 });
+
+    expect(resolvePageRequest(spec, { cursor, sort: 'eventName' })).toBeNull();
+    expect(resolvePageRequest(spec, { cursor, order: 'asc' })).toBeNull();
+    expect(resolvePageRequest(spec, { cursor, sort: 'createdAt', order: 'desc' })).not.toBeNull();
+  });
+});
+
+describe('paginationKeys', () => {
+  const schema = Joi.object(paginationKeys(spec));
+
+  it('accepts the sort fields of the list only', () => {
+    expect(schema.validate({ sort: 'eventName', order: 'asc' }).error).toBeUndefined();
+    expect(schema.validate({ sort: 'e.created_at' }).error).toBeDefined();
+    expect(schema.validate({ limit: 101 }).error).toBeDefined();
+  });
+});
+
+describe('pageSql', () => {
+  it('pages by offset, fetching one extra row', () => {
+    const sql = pageSql(resolvePageRequest(spec, { page: '3', limit: '10' })!, 4);
+
+    expect(sql).toEqual({
+      cursorColumn: 'e.created_at::text as sort_cursor',
+      keyset: '',
+      orderBy: 'ORDER BY e.created_at DESC, e.id DESC',
+      limit: 'LIMIT $4 OFFSET $5',
+      params: [11, 20]
+    });
+  });
+
+  it('continues after the cursor row', () => {
+    const cursor = encode({ s: 'eventName', o: 'asc', v: 'Lead', id: ID_2 });
+
+    expect(pageSql(resolvePageRequest(spec, { cursor, limit: '2' })!, 2)).toEqual({
+      cursorColumn: 'e.event_name::text as sort_cursor',
+      keyset: 'AND (e.event_name, e.id) > ($2, $3)',
+      orderBy: 'ORDER BY e.event_name ASC, e.id ASC',
+      limit: 'LIMIT $4',
+      params: ['Lead', ID_2, 3]
+    });
+  });
+});
+
+describe('buildPage', () => {
+  it('keeps the offset envelope and adds the next cursor', () => {
+    const page = buildPage(rows, resolvePageRequest(spec, { page: '1', limit: '2' })!, 5);
+
+    expect(page.items).toEqual([{ id: ID_1, event_name: 'Lead' }, { id: ID_2, event_name: 'Lead' }]);
+    expect(page.pagination).toMatchObject({ page: 1, limit: 2, total: 5, totalPages: 3, hasNext: true, hasPrev: false, sort: 'createdAt', order: 'desc' });
+    expect(page.pagination.nextCursor).toEqual(expect.any(String));
+  });
+
+  it('issues a cursor keeping the exact sort value, which resumes after the last row', () => {
+    const first = buildPage(rows, resolvePageRequest(spec, { limit: '2' })!);
+
+    const next = resolvePageRequest(spec, { cursor: first.pagination.nextCursor, limit: '2' })!;
+
+    expect(next).toMatchObject({ sort: 'createdAt', order: 'desc', page: null, after: { value: '2024-03-01 09:00:00.654321+00', id: ID_2 } });
+    expect(pageSql(next, 1).params).toEqual(['2024-03-01 09:00:00.654321+00', ID_2, 3]);
+  });
+
+  it('returns the cursor envelope without a total for the first page', () => {
+    const page = buildPage(rows, resolvePageRequest(spec, { limit: '2' })!);
+
+    expect(page.pagination).toEqual({ limit: 2, sort: 'createdAt', order: 'desc', hasNext: true, hasPrev: false, nextCursor: expect.any(String) });
+  });
+
+  it('returns the cursor envelope for cursor requests', () => {
+    const cursor = encode({ s: 'createdAt', o: 'desc', v: '2024-03-01 11:00:00+00', id: ID_1 });
+
+    const page = buildPage(rows.slice(1), resolvePageRequest(spec, { cursor, limit: '2' })!);
+
+    expect(page.pagination).toEqual({ limit: 2, sort: 'createdAt', order: 'desc', hasNext: false, hasPrev: true, nextCursor: null });
+  });
+});
@@ -0,0 +1,194 @@
+import Joi from 'joi';
+import { validate as isUuid } from 'uuid';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortField {
+  // Must not be null
+  column: string;
+  // Checked on the values read back from cursors
+  type: 'timestamp' | 'text';
+}
+
+export interface SortSpec {
+  // Sort fields accepted from clients
+  fields: Record<string, SortField>;
+  // Unique uuid column breaking ties, so rows with equal sort values keep a stable order
+  idColumn: string;
+  defaultSort: string;
+  defaultOrder: SortOrder;
+}
+
+export interface PageRequest {
+  spec: SortSpec;
+  sort: string;
+  order: SortOrder;
+  limit: number;
+  // Set for offset pagination, only when the client sends page; null for cursor pagination,
+  // the default, which skips the total count
+  page: number | null;
+  // Last row of the previous page, for cursor pagination
+  after: { value: string; id: string } | null;
+}
+
+interface CursorPayload {
+  s: string;
+  o: SortOrder;
+  v: string;
+  id: string;
+}
+
+// Selected next to each row so the cursor keeps the exact sort value (timestamps have
+// microseconds, which JavaScript dates drop)
+const CURSOR_COLUMN = 'sort_cursor';
+
+// Query keys of a paginated list. page and cursor cannot be combined.
+export const paginationKeys = (spec: SortSpec) => ({
+  page: Joi.number().integer().min(1).optional(),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  cursor: Joi.string().max(1000).optional(),
+  sort: Joi.string().valid(...Object.keys(spec.fields)).optional(),
+  order: Joi.string().valid('asc', 'desc').optional()
+});
+
+const encodeCursor = (payload: CursorPayload): string =>
+  Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const decodeCursor = (cursor: string): CursorPayload | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof payload?.s !== 'string' || !['asc', 'desc'].includes(payload.o) || typeof payload.v !== 'string' || typeof payload.id !== 'string') {
+      return null;
+    }
+    return payload;
+  } catch (error) {
+    return null;
+  }
+};
+
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?([+-]\d{2}(:?\d{2})?|Z)?$/;
+
+// Timestamps as Postgres writes them, on a date that exists
+const isTimestamp = (value: string): boolean => {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) {
+    return false;
+  }
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day && hour < 24 && minute < 60 && second < 60;
+};
+
+// Cursors come from clients, so their values are checked before they reach the query
+const isValidCursorValue = (field: SortField, value: string): boolean =>
+  field.type === 'timestamp' ? isTimestamp(value) : !value.includes('\u0000');
+
+// Read the pagination of a list request. Returns null when the cursor is invalid or was
+// issued for another sort.
+export const resolvePageRequest = (spec: SortSpec, params: Record<string, any>): PageRequest | null => {
+  const limit = parseInt(params.limit || '20');
+  let sort: string = params.sort || spec.defaultSort;
+  let order: SortOrder = params.order || spec.defaultOrder;
+  let after: PageRequest['after'] = null;
+
+  if (params.cursor) {
+    const cursor = decodeCursor(params.cursor);
+    if (
+      !cursor ||
+      !Object.prototype.hasOwnProperty.call(spec.fields, cursor.s) ||
+      !isValidCursorValue(spec.fields[cursor.s], cursor.v) ||
+      !isUuid(cursor.id) ||
+      (params.sort && params.sort !== cursor.s) ||
+      (params.order && params.order !== cursor.o)
+    ) {
+      return null;
+    }
+    sort = cursor.s;
+    order = cursor.o;
+    after = { value: cursor.v, id: cursor.id };
+  }
+
+  return {
+    spec,
+    sort,
+    order,
+    limit,
+    page: params.page !== undefined && !params.cursor ? parseInt(params.page) : null,
+    after
+  };
+};
+
+// SQL pieces of a page: the cursor column to select, the keyset condition to append to the
+// WHERE clause, ORDER BY and LIMIT/OFFSET. Parameters are numbered from firstParam.
+export const pageSql = (pageRequest: PageRequest, firstParam: number) => {
+  const { spec, sort, order, limit, page, after } = pageRequest;
+  const { column } = spec.fields[sort];
+  const direction = order === 'asc' ? 'ASC' : 'DESC';
+  const params: any[] = [];
+
+  let keyset = '';
+  if (after) {
+    keyset = `AND (${column}, ${spec.idColumn}) ${order === 'asc' ? '>' : '<'} ($${firstParam}, $${firstParam + 1})`;
+    params.push(after.value, after.id);
+  }
+
+  // One row more than the page tells whether another page follows
+  let limitSql = `LIMIT $${firstParam + params.length}`;
+  params.push(limit + 1);
+  if (page !== null) {
+    limitSql += ` OFFSET $${firstParam + params.length}`;
+    params.push((page - 1) * limit);
+  }
+
+  return {
+    cursorColumn: `${column}::text as ${CURSOR_COLUMN}`,
+    keyset,
+    orderBy: `ORDER BY ${column} ${direction}, ${spec.idColumn} ${direction}`,
+    limit: limitSql,
+    params
+  };
+};
+
+// Rows of the page and its pagination envelope. Offset pagination also needs the total and
+// keeps the page fields it always returned.
+export const buildPage = (rows: any[], pageRequest: PageRequest, total?: number) => {
+  const { sort, order, limit, page, after } = pageRequest;
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+  const hasMore = rows.length > limit;
+
+  const nextCursor = hasMore && last
+    ? encodeCursor({ s: sort, o: order, v: last[CURSOR_COLUMN], id: last.id })
+    : null;
+  const items = pageRows.map(({ [CURSOR_COLUMN]: cursorValue, ...row }) => row);
+
+  if (page !== null) {
+    const totalPages = Math.ceil((total || 0) / limit);
+    return {
+      items,
+      pagination: {
+        page,
+        limit,
+        total: total || 0,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+        sort,
+        order,
+        nextCursor
+      }
+    };
+  }
+
+  return {
+    items,
+    pagination: {
+      limit,
+      sort,
+      order,
+      hasNext: hasMore,
+      hasPrev: after !== null,
+      nextCursor
+    }
+  };
+};
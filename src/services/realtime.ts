@@ -0,0 +1,234 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { Notification, PoolClient } from 'pg';
+import { getClient, query } from '../config/database';
+import { logger } from '../utils/logger';
+
+// Postgres channel the realtime triggers and publishRealtime notify on
+const REALTIME_CHANNEL = 'realtime';
+
+// Notification payloads must stay under 8000 bytes, including the batch envelope
+const MAX_PAYLOAD_BYTES = 7900;
+
+// Emitted to every subscriber when the listener stops, so open streams can be ended
+const SHUTDOWN = 'shutdown';
+
+export const REALTIME_MESSAGE_TYPES = ['event', 'diagnostic', 'pixel_status'] as const;
+
+// Test events and their delivery updates, for the test events debugger
+export const TEST_MESSAGE_TYPES = ['test_event', 'test_delivery'] as const;
+
+export type RealtimeMessageType = typeof REALTIME_MESSAGE_TYPES[number] | typeof TEST_MESSAGE_TYPES[number];
+
+export interface RealtimeMessage {
+  type: RealtimeMessageType;
+  pixelId: string;
+  data: Record<string, any>;
+}
+
+export interface RealtimeFilters {
+  types: readonly RealtimeMessageType[];
+  pixelId?: string;
+  // Only applies to events and test events
+  eventName?: string;
+}
+
+export interface RealtimeSubscriber {
+  onMessage: (message: RealtimeMessage) => void;
+  onClose: () => void;
+}
+
+// Messages are emitted under their workspace id
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+let client: PoolClient | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let started = false;
+
+const handleNotification = (notification: Notification) => {
+  if (notification.channel !== REALTIME_CHANNEL || !notification.payload) {
+    return;
+  }
+
+  try {
+    const payload = JSON.parse(notification.payload);
+    // Triggers send one message, publishRealtime a batch of them
+    const messages = Array.isArray(payload.messages) ? payload.messages : [payload];
+
+    for (const message of messages) {
+      if (!message.workspace_id) {
+        continue;
+      }
+
+      emitter.emit(message.workspace_id, {
+        type: message.type,
+        pixelId: message.pixel_id,
+        data: message.data
+      });
+    }
+  } catch (error) {
+    logger.error('Invalid realtime notification:', error);
+  }
+};
+
+const releaseClient = () => {
+  if (client) {
+    client.removeListener('notification', handleNotification);
+    // Destroy the connection instead of returning it to the pool still listening
+    client.release(true);
+    client = null;
+  }
+};
+
+const scheduleReconnect = () => {
+  releaseClient();
+
+  if (!started || reconnectTimer) {
+    return;
+  }
+
+  const delayMs = parseInt(process.env.REALTIME_RECONNECT_DELAY_MS || '5000');
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delayMs);
+};
+
+const connect = async () => {
+  try {
+    client = await getClient();
+    client.on('notification', handleNotification);
+    client.on('error', (error) => {
+      logger.error('Realtime listener connection error:', error);
+      scheduleReconnect();
+    });
+    await client.query(`LISTEN ${REALTIME_CHANNEL}`);
+    logger.info('Realtime listener connected');
+  } catch (error) {
+    logger.error('Error connecting realtime listener:', error);
+    scheduleReconnect();
+  }
+};
+
+// Hold a dedicated connection listening for realtime notifications, reconnecting if it drops
+export const startRealtimeListener = async () => {
+  if (started) {
+    return;
+  }
+
+  started = true;
+  await connect();
+};
+
+export const stopRealtimeListener = () => {
+  if (!started) {
+    return;
+  }
+
+  started = false;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  releaseClient();
+  emitter.emit(SHUTDOWN);
+  logger.info('Realtime listener stopped');
+};
+
+// Publish messages to the realtime listeners of every instance. Messages are packed into as
+// few notifications as fit the payload limit and sent in one statement, since each notifying
+// transaction takes a global lock when it commits.
+export const publishRealtime = async (messages: (RealtimeMessage & { workspaceId: string })[]): Promise<void> => {
+  const payloads: string[] = [];
+  let batch: string[] = [];
+  let batchBytes = 0;
+
+  for (const { workspaceId, type, pixelId, data } of messages) {
+    const message = JSON.stringify({ workspace_id: workspaceId, type, pixel_id: pixelId, data });
+    const messageBytes = Buffer.byteLength(message) + 1;
+
+    if (messageBytes > MAX_PAYLOAD_BYTES) {
+      logger.warn(`Realtime ${type} message for pixel ${pixelId} is too large to publish`);
+      continue;
+    }
+    if (batchBytes + messageBytes > MAX_PAYLOAD_BYTES) {
+      payloads.push(`{"messages":[${batch.join(',')}]}`);
+      batch = [];
+      batchBytes = 0;
+    }
+    batch.push(message);
+    batchBytes += messageBytes;
+  }
+  if (batch.length > 0) {
+    payloads.push(`{"messages":[${batch.join(',')}]}`);
+  }
+
+  if (payloads.length > 0) {
+    await query('SELECT pg_notify($1, payload) FROM unnest($2::text[]) as payload', [REALTIME_CHANNEL, payloads]);
+  }
+};
+
+const matchesFilters = (message: RealtimeMessage, filters: RealtimeFilters): boolean => {
+  if (!filters.types.includes(message.type)) {
+    return false;
+  }
+  if (filters.pixelId && message.pixelId !== filters.pixelId) {
+    return false;
+  }
+  if (filters.eventName && message.data.event_name !== undefined && message.data.event_name !== filters.eventName) {
+    return false;
+  }
+  return true;
+};
+
+// Receive the realtime messages of a workspace. Returns a function ending the subscription.
+export const subscribeRealtime = (workspaceId: string, filters: RealtimeFilters, subscriber: RealtimeSubscriber) => {
+  const onMessage = (message: RealtimeMessage) => {
+    if (matchesFilters(message, filters)) {
+      subscriber.onMessage(message);
+    }
+  };
+
+  emitter.on(workspaceId, onMessage);
+  emitter.on(SHUTDOWN, subscriber.onClose);
+
+  return () => {
+    emitter.removeListener(workspaceId, onMessage);
+    emitter.removeListener(SHUTDOWN, subscriber.onClose);
+  };
+};
+
+// Send the realtime messages of a workspace to a client as Server-Sent Events, until either
+// side closes the connection
+export const streamRealtime = (req: Request, res: Response, workspaceId: string, filters: RealtimeFilters) => {
+  // no-transform keeps the compression middleware from buffering the stream
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const send = (type: string, data: any) => {
+    res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  res.write(`retry: ${parseInt(process.env.REALTIME_RETRY_MS || '5000')}\n\n`);
+  send('ready', { types: filters.types, pixelId: filters.pixelId || null, eventName: filters.eventName || null });
+
+  const unsubscribe = subscribeRealtime(workspaceId, filters, {
+    onMessage: (message) => send(message.type, message.data),
+    onClose: () => res.end()
+  });
+
+  // Comments keep proxies from closing idle connections
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, parseInt(process.env.REALTIME_HEARTBEAT_MS || '25000'));
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
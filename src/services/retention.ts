@@ -0,0 +1,241 @@
+import Joi from 'joi';
+import { query } from '../config/database';
+import { dropEventPartitionsBefore } from './eventPartitions';
+
+export interface RetentionWindows {
+  // Days of raw events kept
+  eventsDays: number | null;
+  // Days of hourly and daily event rollups kept, null keeps them indefinitely
+  rollupsDays: number | null;
+  // Days resolved diagnostics are kept
+  diagnosticsDays: number | null;
+}
+
+// Longest retention window accepted, in days (10 years)
+export const MAX_RETENTION_DAYS = 3650;
+
+// Windows submitted through the API: null clears a setting so it is inherited again
+export const retentionWindowsSchema = Joi.object({
+  eventsDays: Joi.number().integer().min(1).max(MAX_RETENTION_DAYS).allow(null).optional(),
+  rollupsDays: Joi.number().integer().min(1).max(MAX_RETENTION_DAYS).allow(null).optional(),
+  diagnosticsDays: Joi.number().integer().min(1).max(MAX_RETENTION_DAYS).allow(null).optional()
+}).min(1);
+
+interface RetentionPreviewPixel {
+  pixelId: string;
+  pixelName: string;
+  policy: RetentionWindows;
+  events: number;
+  rollupRows: number;
+  diagnostics: number;
+}
+
+const WINDOW_COLUMNS: Record<keyof RetentionWindows, string> = {
+  eventsDays: 'events_days',
+  rollupsDays: 'rollups_days',
+  diagnosticsDays: 'diagnostics_days'
+};
+
+// Server defaults, used for anything a workspace does not set
+export const getRetentionDefaults = (): RetentionWindows => ({
+  eventsDays: parseInt(process.env.EVENT_RETENTION_DAYS || '90'),
+  rollupsDays: process.env.ROLLUP_RETENTION_DAYS ? parseInt(process.env.ROLLUP_RETENTION_DAYS) : null,
+  diagnosticsDays: parseInt(process.env.DIAGNOSTIC_RETENTION_DAYS || '30')
+});
+
+// Windows applied to each pixel: its override, then its workspace setting, then the server
+// default held by $1 (events), $2 (rollups) and $3 (diagnostics)
+const EFFECTIVE_POLICIES_SQL = `(
+  SELECT
+    p.id as pixel_id,
+    p.workspace_id,
+    COALESCE(pp.events_days, wp.events_days, $1::int) as events_days,
+    COALESCE(pp.rollups_days, wp.rollups_days, $2::int) as rollups_days,
+    COALESCE(pp.diagnostics_days, wp.diagnostics_days, $3::int) as diagnostics_days
+  FROM pixels p
+  LEFT JOIN retention_policies wp ON wp.workspace_id = p.workspace_id AND wp.pixel_id IS NULL
+  LEFT JOIN retention_policies pp ON pp.pixel_id = p.id
+)`;
+
+const defaultParams = (defaults: RetentionWindows) =>
+  [defaults.eventsDays, defaults.rollupsDays, defaults.diagnosticsDays];
+
+const toWindows = (row: any): RetentionWindows => ({
+  eventsDays: row?.events_days ?? null,
+  rollupsDays: row?.rollups_days ?? null,
+  diagnosticsDays: row?.diagnostics_days ?? null
+});
+
+const inherit = (own: RetentionWindows, fallback: RetentionWindows): RetentionWindows => ({
+  eventsDays: own.eventsDays ?? fallback.eventsDays,
+  rollupsDays: own.rollupsDays ?? fallback.rollupsDays,
+  diagnosticsDays: own.diagnosticsDays ?? fallback.diagnosticsDays
+});
+
+// Retention settings of a workspace: its own windows, the pixel overrides, and what each pixel
+// ends up with
+export const getWorkspaceRetention = async (workspaceId: string) => {
+  const defaults = getRetentionDefaults();
+
+  const policiesResult = await query(
+    `SELECT rp.*, p.name as pixel_name
+     FROM retention_policies rp
+     LEFT JOIN pixels p ON rp.pixel_id = p.id
+     WHERE rp.workspace_id = $1`,
+    [workspaceId]
+  );
+  const workspaceRow = policiesResult.rows.find((row: any) => row.pixel_id === null);
+  const workspace = toWindows(workspaceRow);
+
+  const effectiveResult = await query(
+    `SELECT r.*, p.name as pixel_name
+     FROM ${EFFECTIVE_POLICIES_SQL} r
+     JOIN pixels p ON r.pixel_id = p.id
+     WHERE r.workspace_id = $4
+     ORDER BY p.name`,
+    [...defaultParams(defaults), workspaceId]
+  );
+
+  return {
+    defaults,
+    workspace,
+    effective: inherit(workspace, defaults),
+    overrides: policiesResult.rows
+      .filter((row: any) => row.pixel_id !== null)
+      .map((row: any) => ({ pixelId: row.pixel_id, pixelName: row.pixel_name, ...toWindows(row), updatedAt: row.updated_at })),
+    pixels: effectiveResult.rows.map((row: any) => ({ pixelId: row.pixel_id, pixelName: row.pixel_name, ...toWindows(row) }))
+  };
+};
+
+// Windows applied to one pixel
+export const getPixelRetention = async (pixelId: string): Promise<RetentionWindows> => {
+  const result = await query(
+    `SELECT r.* FROM ${EFFECTIVE_POLICIES_SQL} r WHERE r.pixel_id = $4`,
+    [...defaultParams(getRetentionDefaults()), pixelId]
+  );
+  return toWindows(result.rows[0]);
+};
+
+// Update the windows of a workspace (pixelId null) or of a pixel override. Only the windows
+// present are changed.
+export const saveRetentionPolicy = async (workspaceId: string, pixelId: string | null, windows: Partial<RetentionWindows>) => {
+  const keys = (Object.keys(WINDOW_COLUMNS) as (keyof RetentionWindows)[]).filter((key) => windows[key] !== undefined);
+  const columns = keys.map((key) => WINDOW_COLUMNS[key]);
+  const values = keys.map((key) => windows[key]);
+
+  // Workspace rows and pixel overrides are unique on different partial indexes
+  const conflictTarget = pixelId ? '(pixel_id) WHERE pixel_id IS NOT NULL' : '(workspace_id) WHERE pixel_id IS NULL';
+
+  const result = await query(
+    `INSERT INTO retention_policies (workspace_id, pixel_id, ${columns.join(', ')}, created_at, updated_at)
+     VALUES ($1, $2, ${columns.map((_, index) => `$${index + 3}`).join(', ')}, NOW(), NOW())
+     ON CONFLICT ${conflictTarget}
+     DO UPDATE SET ${columns.map((column) => `${column} = EXCLUDED.${column}`).join(', ')}, updated_at = NOW()
+     RETURNING *`,
+    [workspaceId, pixelId, ...values]
+  );
+
+  return toWindows(result.rows[0]);
+};
+
+// What applying the retention windows now would delete, per pixel of the workspace
+export const getRetentionPreview = async (workspaceId: string) => {
+  const params = [...defaultParams(getRetentionDefaults()), workspaceId];
+
+  const result = await query(
+    `SELECT
+      r.pixel_id,
+      p.name as pixel_name,
+      r.events_days,
+      r.rollups_days,
+      r.diagnostics_days,
+      (SELECT COUNT(*) FROM events e
+       WHERE e.pixel_id = r.pixel_id AND e.created_at < NOW() - r.events_days * INTERVAL '1 day') as events,
+      (SELECT COUNT(*) FROM event_rollups_hourly h
+       WHERE h.pixel_id = r.pixel_id AND h.bucket < NOW() - r.rollups_days * INTERVAL '1 day')
+      + (SELECT COUNT(*) FROM event_rollups_daily d
+       WHERE d.pixel_id = r.pixel_id AND d.bucket < ((NOW() - r.rollups_days * INTERVAL '1 day') AT TIME ZONE 'UTC')::date) as rollup_rows,
+      (SELECT COUNT(*) FROM diagnostics dg
+       WHERE dg.pixel_id = r.pixel_id AND dg.status = 'resolved'
+         AND dg.created_at < NOW() - r.diagnostics_days * INTERVAL '1 day') as diagnostics
+    FROM ${EFFECTIVE_POLICIES_SQL} r
+    JOIN pixels p ON r.pixel_id = p.id
+    WHERE r.workspace_id = $4
+    ORDER BY p.name`,
+    params
+  );
+
+  const pixels: RetentionPreviewPixel[] = result.rows.map((row: any) => ({
+    pixelId: row.pixel_id,
+    pixelName: row.pixel_name,
+    policy: toWindows(row),
+    events: parseInt(row.events),
+    rollupRows: parseInt(row.rollup_rows),
+    diagnostics: parseInt(row.diagnostics)
+  }));
+
+  return {
+    generatedAt: new Date(),
+    totals: {
+      events: pixels.reduce((sum, pixel) => sum + pixel.events, 0),
+      rollupRows: pixels.reduce((sum, pixel) => sum + pixel.rollupRows, 0),
+      diagnostics: pixels.reduce((sum, pixel) => sum + pixel.diagnostics, 0)
+    },
+    pixels
+  };
+};
+
+// Delete everything past its retention window. Event partitions older than the longest events
+// window are dropped whole, the remaining expired events are deleted per pixel.
+export const applyRetentionPolicies = async () => {
+  const defaults = getRetentionDefaults();
+  const params = defaultParams(defaults);
+
+  const longestResult = await query(
+    `SELECT MAX(events_days) as events_days FROM ${EFFECTIVE_POLICIES_SQL} r`,
+    params
+  );
+  const longestEventsDays = Math.max(longestResult.rows[0].events_days || 0, defaults.eventsDays || 0);
+  const droppedPartitions = await dropEventPartitionsBefore(new Date(Date.now() - longestEventsDays * 24 * 60 * 60 * 1000));
+
+  const eventsResult = await query(
+    `DELETE FROM events e
+     USING ${EFFECTIVE_POLICIES_SQL} r
+     WHERE e.pixel_id = r.pixel_id AND e.created_at < NOW() - r.events_days * INTERVAL '1 day'`,
+    params
+  );
+
+  const hourlyResult = await query(
+    `DELETE FROM event_rollups_hourly h
+     USING ${EFFECTIVE_POLICIES_SQL} r
+     WHERE h.pixel_id = r.pixel_id AND h.bucket < NOW() - r.rollups_days * INTERVAL '1 day'`,
+    params
+  );
+  const dailyResult = await query(
+    `DELETE FROM event_rollups_daily d
+     USING ${EFFECTIVE_POLICIES_SQL} r
+     WHERE d.pixel_id = r.pixel_id AND d.bucket < ((NOW() - r.rollups_days * INTERVAL '1 day') AT TIME ZONE 'UTC')::date`,
+    params
+  );
+
+  // Test events are only kept for debugging, whatever the pixel retention
+  const testEventsResult = await query(
+    `DELETE FROM events WHERE is_test = true AND created_at < NOW() - ($1 || ' hours')::interval`,
+    [parseInt(process.env.TEST_EVENT_RETENTION_HOURS || '24')]
+  );
+
+  const diagnosticsResult = await query(
+    `DELETE FROM diagnostics dg
+     USING ${EFFECTIVE_POLICIES_SQL} r
+     WHERE dg.pixel_id = r.pixel_id AND dg.status = 'resolved'
+       AND dg.created_at < NOW() - r.diagnostics_days * INTERVAL '1 day'`,
+    params
+  );
+
+  return {
+    partitionsDropped: droppedPartitions.partitions.length,
+    events: droppedPartitions.events + (eventsResult.rowCount || 0) + (testEventsResult.rowCount || 0),
+    rollupRows: (hourlyResult.rowCount || 0) + (dailyResult.rowCount || 0),
+    diagnostics: diagnosticsResult.rowCount || 0
+  };
+};
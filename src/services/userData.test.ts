@@ -0,0 +1,86 @@
+import crypto from 'crypto';
+import { hashUserData, normalizeUserDataValue } from './userData';
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+describe('normalizeUserDataValue', () => {
+  it.each([
+    ['em', '  John.Doe@Example.COM ', 'john.doe@example.com'],
+    ['ph', '+1 (650) 555-1234', '16505551234'],
+    ['ph', '0044 20 7946 0958', '442079460958'],
+    ['ge', 'Female', 'f'],
+    ['db', '1990-07-04', '19900704'],
+    ['ct', 'San Francisco', 'sanfrancisco'],
+    ['st', 'C.A.', 'ca'],
+    ['zp', '94025-1234', '94025'],
+    ['zp', 'SW1A 1AA', 'sw1a1aa'],
+    ['country', 'U.S.', 'us'],
+    ['external_id', ' User-42 ', 'User-42']
+  ])('normalizes %s %p', (key, raw, expected) => {
+    expect(normalizeUserDataValue(key, raw)).toBe(expected);
+  });
+});
+
+describe('hashUserData', () => {
+  it('moves customer information into user_data and hashes it', () => {
+    const result = hashUserData({ email: 'Jane@Example.com', phone: '+1 650 555 1234', value: 10, currency: 'USD' });
+
+    expect(result.parameters).toEqual({
+      value: 10,
+      currency: 'USD',
+      user_data: { em: sha256('jane@example.com'), ph: sha256('16505551234') }
+    });
+    expect(result.hashed.sort()).toEqual(['em', 'ph']);
+    expect(result.preHashed).toEqual([]);
+  });
+
+  it('keeps values that are already hashed', () => {
+    const hash = sha256('jane@example.com');
+
+    const result = hashUserData({ user_data: { em: hash.toUpperCase(), fn: 'Jane' } });
+
+    expect(result.parameters.user_data).toEqual({ em: hash, fn: sha256('jane') });
+    expect(result.preHashed).toEqual(['em']);
+    expect(result.hashed).toEqual(['fn']);
+  });
+
+  it('hashes every value of an array and leaves unhashed keys as they are', () => {
+    const result = hashUserData({ user_data: { em: ['a@example.com', 'B@example.com'], fbp: 'fb.1.123.456' } });
+
+    expect(result.parameters.user_data).toEqual({
+      em: [sha256('a@example.com'), sha256('b@example.com')],
+      fbp: 'fb.1.123.456'
+    });
+  });
+
+  it('drops empty values', () => {
+    const result = hashUserData({ user_data: { em: '  ', ph: null }, value: 5 });
+
+    expect(result.parameters).toEqual({ value: 5 });
+  });
+
+  it.each([
+    ['a string', 'jane@example.com'],
+    ['an array', ['jane@example.com']],
+    ['a number', 42]
+  ])('drops user_data sent as %s instead of storing it unhashed', (_, userData) => {
+    const result = hashUserData({ user_data: userData, value: 5 });
+
+    expect(result.parameters).toEqual({ value: 5 });
+    expect(JSON.stringify(result.parameters)).not.toContain('jane');
+  });
+
+  it('still hashes top-level customer information when user_data is invalid', () => {
+    const result = hashUserData({ user_data: 'jane@example.com', em: 'jane@example.com' });
+
+    expect(result.parameters).toEqual({ user_data: { em: sha256('jane@example.com') } });
+  });
+
+  it('does not change the input', () => {
+    const input = { email: 'jane@example.com', user_data: { fn: 'Jane' } };
+
+    hashUserData(input);
+
+    expect(input).toEqual({ email: 'jane@example.com', user_data: { fn: 'Jane' } });
+  });
+});
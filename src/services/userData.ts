@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+
+// Customer information parameters sent in user_data instead of custom_data
+export const USER_DATA_KEYS = [
+  'em', 'ph', 'fn', 'ln', 'ge', 'db', 'ct', 'st', 'zp', 'country',
+  'external_id', 'fbc', 'fbp', 'subscription_id', 'lead_id'
+];
+
+// Keys Meta requires (or recommends, for external_id) to be SHA-256 hashed
+const HASHED_KEYS = ['em', 'ph', 'fn', 'ln', 'ge', 'db', 'ct', 'st', 'zp', 'country', 'external_id'];
+
+// Common long-form names accepted for the Meta user_data keys
+const USER_DATA_ALIASES: Record<string, string> = {
+  email: 'em',
+  phone: 'ph',
+  phone_number: 'ph',
+  first_name: 'fn',
+  firstname: 'fn',
+  last_name: 'ln',
+  lastname: 'ln',
+  gender: 'ge',
+  date_of_birth: 'db',
+  birthdate: 'db',
+  city: 'ct',
+  state: 'st',
+  zip: 'zp',
+  zip_code: 'zp',
+  postal_code: 'zp'
+};
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/i;
+
+export interface UserDataResult {
+  parameters: Record<string, any>;
+  // Keys that were normalized and hashed during this call
+  hashed: string[];
+  // Keys that arrived already hashed and were left as they were
+  preHashed: string[];
+}
+
+const stripPunctuation = (value: string): string => value.replace(/[\s\p{P}\p{S}]/gu, '');
+
+// Normalize a value following Meta's customer information parameter rules
+export const normalizeUserDataValue = (key: string, raw: any): string => {
+  const value = String(raw).trim().toLowerCase();
+
+  switch (key) {
+    case 'ph':
+      // Digits only, no leading zeros; country code must be included by the sender
+      return value.replace(/\D/g, '').replace(/^0+/, '');
+    case 'ge':
+      return value.charAt(0) === 'f' || value.charAt(0) === 'm' ? value.charAt(0) : value;
+    case 'db': {
+      // YYYYMMDD
+      const match = value.match(/^(\d{4})\D?(\d{2})\D?(\d{2})/);
+      return match ? `${match[1]}${match[2]}${match[3]}` : value.replace(/\D/g, '');
+    }
+    case 'ct':
+    case 'st':
+    case 'country':
+      return stripPunctuation(value);
+    case 'zp': {
+      // US ZIP+4 codes keep only the first five digits
+      const zip = value.replace(/\s/g, '');
+      return /^\d{5}-\d{4}$/.test(zip) ? zip.slice(0, 5) : zip.replace(/-/g, '');
+    }
+    case 'external_id':
+      return String(raw).trim();
+    default:
+      return value;
+  }
+};
+
+export const hashUserDataValue = (key: string, raw: any): string => {
+  return crypto.createHash('sha256').update(normalizeUserDataValue(key, raw)).digest('hex');
+};
+
+// Move customer information parameters into user_data and hash them, so plaintext
+// values are never stored. Values that already look like SHA-256 hashes are kept.
+export const hashUserData = (input: Record<string, any> = {}): UserDataResult => {
+  const parameters: Record<string, any> = { ...input };
+  // Anything but an object in user_data is dropped rather than stored unhashed
+  const rawUserData = parameters.user_data;
+  const validUserData = typeof rawUserData === 'object' && rawUserData !== null && !Array.isArray(rawUserData);
+  const userData: Record<string, any> = validUserData ? { ...rawUserData } : {};
+  delete parameters.user_data;
+
+  for (const key of Object.keys(parameters)) {
+    const canonicalKey = USER_DATA_ALIASES[key] || key;
+    if (key !== 'user_data' && USER_DATA_KEYS.includes(canonicalKey)) {
+      userData[canonicalKey] = parameters[key];
+      delete parameters[key];
+    }
+  }
+
+  const hashed: string[] = [];
+  const preHashed: string[] = [];
+
+  for (const key of Object.keys(userData)) {
+    const canonicalKey = USER_DATA_ALIASES[key] || key;
+    if (canonicalKey !== key) {
+      userData[canonicalKey] = userData[key];
+      delete userData[key];
+    }
+
+    if (!HASHED_KEYS.includes(canonicalKey)) {
+      continue;
+    }
+
+    const values = Array.isArray(userData[canonicalKey]) ? userData[canonicalKey] : [userData[canonicalKey]];
+    const present = values.filter((v: any) => v !== null && v !== undefined && String(v).trim() !== '');
+
+    if (present.length === 0) {
+      delete userData[canonicalKey];
+      continue;
+    }
+
+    const result = present.map((v: any) => {
+      if (SHA256_PATTERN.test(String(v).trim())) {
+        return String(v).trim().toLowerCase();
+      }
+      return hashUserDataValue(canonicalKey, v);
+    });
+
+    if (present.every((v: any) => SHA256_PATTERN.test(String(v).trim()))) {
+      preHashed.push(canonicalKey);
+    } else {
+      hashed.push(canonicalKey);
+    }
+
+    userData[canonicalKey] = Array.isArray(userData[canonicalKey]) ? result : result[0];
+  }
+
+  if (Object.keys(userData).length > 0) {
+    parameters.user_data = userData;
+  }
+
+  return { parameters, hashed, preHashed };
+};
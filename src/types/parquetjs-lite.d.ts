@@ -0,0 +1,17 @@
+declare module 'parquetjs-lite' {
+  export interface ParquetFieldDefinition {
+    type: string;
+    optional?: boolean;
+    compression?: string;
+  }
+
+  export class ParquetSchema {
+    constructor(fields: Record<string, ParquetFieldDefinition>);
+  }
+
+  export class ParquetWriter {
+    static openFile(schema: ParquetSchema, path: string, opts?: Record<string, any>): Promise<ParquetWriter>;
+    appendRow(row: Record<string, any>): Promise<void>;
+    close(): Promise<void>;
+  }
+}